@@ -0,0 +1,330 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import { z } from "npm:zod@4";
+
+// Typed #cloud-config documents — validated with zod and serialized to YAML here rather than
+// string-templated, so a stray quote or colon in an argument can't produce a config that
+// cloud-init silently ignores on first boot.
+
+const HOSTNAME_RE = /^[A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?(\.[A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?)*$/;
+const USERNAME_RE = /^[a-z_][a-z0-9_-]{0,31}$/;
+const SSH_KEY_RE = /^(ssh-(rsa|ed25519|dss)|ecdsa-sha2-nistp(256|384|521)|sk-(ssh-ed25519|ecdsa-sha2-nistp256)@openssh\.com) [A-Za-z0-9+/]+={0,3}( [^\r\n]*)?$/;
+
+export const HostnameSchema = z.string().max(253).regex(HOSTNAME_RE, "must be a valid RFC 1123 hostname");
+export const UsernameSchema = z.string().regex(USERNAME_RE, "must be a lowercase POSIX username (max 32 characters)");
+export const SshPublicKeySchema = z.string().trim().regex(SSH_KEY_RE, "must be a single-line OpenSSH public key");
+
+export const CommandSchema = z.union([z.string().min(1), z.array(z.string()).min(1)]);
+
+export const CloudConfigUserSchema = z.object({
+  name: UsernameSchema,
+  gecos: z.string().optional(),
+  groups: z.union([z.string(), z.array(z.string())]).optional(),
+  shell: z.string().startsWith("/").optional(),
+  sudo: z.union([z.string(), z.array(z.string()), z.literal(false)]).optional(),
+  lock_passwd: z.boolean().optional(),
+  passwd: z.string().optional(),
+  ssh_authorized_keys: z.array(SshPublicKeySchema).optional(),
+  system: z.boolean().optional(),
+  homedir: z.string().startsWith("/").optional(),
+}).strict();
+
+export const WriteFileSchema = z.object({
+  path: z.string().startsWith("/", "must be an absolute path"),
+  content: z.string(),
+  owner: z.string().regex(/^[\w.-]+(:[\w.-]+)?$/, "must be user or user:group").optional(),
+  permissions: z.string().regex(/^0?[0-7]{3,4}$/, "must be an octal mode such as '0644'").optional(),
+  encoding: z.enum(["text/plain", "b64", "base64", "gz", "gzip", "gz+b64", "gz+base64", "gzip+b64", "gzip+base64"]).optional(),
+  append: z.boolean().optional(),
+  defer: z.boolean().optional(),
+}).strict();
+
+// [device, mountPoint, fstype, options, dump, pass] — trailing fields may be omitted
+export const MountEntrySchema = z.array(z.union([z.string(), z.number().int()])).min(1).max(6);
+
+export const CloudConfigSchema = z.object({
+  hostname: HostnameSchema.optional(),
+  fqdn: HostnameSchema.optional(),
+  manage_etc_hosts: z.union([z.boolean(), z.literal("localhost")]).optional(),
+  users: z.array(z.union([z.literal("default"), CloudConfigUserSchema])).optional(),
+  ssh_pwauth: z.boolean().optional(),
+  package_update: z.boolean().optional(),
+  package_upgrade: z.boolean().optional(),
+  packages: z.array(z.union([
+    z.string().regex(/^[^\s]+$/, "package names cannot contain whitespace"),
+    z.tuple([z.string(), z.string()]),
+  ])).optional(),
+  write_files: z.array(WriteFileSchema).optional(),
+  mounts: z.array(MountEntrySchema).optional(),
+  bootcmd: z.array(CommandSchema).optional(),
+  runcmd: z.array(CommandSchema).optional(),
+  timezone: z.string().optional(),
+  locale: z.string().optional(),
+}).catchall(z.unknown()); // other cloud-config modules pass through unvalidated
+
+// --- YAML serialization ---
+
+// Words YAML 1.1 (PyYAML, which cloud-init uses) would read as booleans, null or special floats
+const YAML_RESERVED = /^(true|false|yes|no|on|off|y|n|null|~|\.inf|\.nan)$/i;
+
+function plainSafe(s) {
+  return /^[A-Za-z0-9_/.][A-Za-z0-9_/.@+=()' -]*$/.test(s) &&
+    !s.endsWith(" ") &&
+    !YAML_RESERVED.test(s) &&
+    !/^[-+.]?[0-9]/.test(s);
+}
+
+function scalar(v) {
+  if (v === null) return "null";
+  if (typeof v === "boolean") return v ? "true" : "false";
+  if (typeof v === "number") {
+    if (!Number.isFinite(v)) throw new Error(`Cannot serialize ${v} to YAML`);
+    return String(v);
+  }
+  const s = String(v);
+  return plainSafe(s) ? s : JSON.stringify(s);
+}
+
+const isScalar = (v) => v === null || typeof v !== "object";
+
+// Multi-line strings become literal blocks so scripts and files stay readable in the seed
+function literalBlock(s, indent) {
+  if (!s.includes("\n") || /^[\s]/.test(s) || s.includes("\r")) return null;
+  const body = s.replace(/\n+$/, "");
+  const trailing = s.length - body.length;
+  const chomp = trailing === 0 ? "-" : trailing === 1 ? "" : "+";
+  const pad = " ".repeat(indent);
+  const lines = (trailing > 1 ? s.slice(0, -1) : body).split("\n");
+  return `|${chomp}\n` + lines.map((l) => (l ? pad + l : "")).join("\n");
+}
+
+function inlineValue(v, indent) {
+  if (typeof v === "string") return literalBlock(v, indent) ?? scalar(v);
+  return scalar(v);
+}
+
+function key(k) {
+  return /^[A-Za-z_][\w-]*$/.test(k) && !YAML_RESERVED.test(k) ? k : JSON.stringify(k);
+}
+
+function serialize(value, indent) {
+  const pad = " ".repeat(indent);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    return value.map((item) => {
+      if (isScalar(item)) return `${pad}- ${inlineValue(item, indent + 2)}`;
+      // Short scalar lists (mount entries, argv-style commands) read best in flow style
+      if (Array.isArray(item) && item.every(isScalar)) return `${pad}- [${item.map(scalar).join(", ")}]`;
+      const nested = serialize(item, indent + 2);
+      return nested.startsWith("[") || nested.startsWith("{")
+        ? `${pad}- ${nested}`
+        : `${pad}- ${nested.slice(indent + 2)}`;
+    }).join("\n");
+  }
+  const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+  if (entries.length === 0) return "{}";
+  return entries.map(([k, v]) => {
+    if (isScalar(v)) return `${pad}${key(k)}: ${inlineValue(v, indent + 2)}`;
+    const nested = serialize(v, indent + 2);
+    if (nested === "[]" || nested === "{}") return `${pad}${key(k)}: ${nested}`;
+    return `${pad}${key(k)}:\n${nested}`;
+  }).join("\n");
+}
+
+// Serialize a plain object/array/scalar tree to block-style YAML
+export function toYaml(value: unknown): string {
+  if (isScalar(value)) return scalar(value) + "\n";
+  return serialize(value, 0) + "\n";
+}
+
+// Validate a cloud-config object and render it with the #cloud-config header.
+// Throws with every offending path listed, so callers can fail before touching the host.
+export function renderCloudConfig(config: Record<string, unknown>): string {
+  const result = CloudConfigSchema.safeParse(config);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `  ${i.path.join(".") || "(root)"}: ${i.message}`).join("\n");
+    throw new Error(`Invalid cloud-config:\n${issues}`);
+  }
+  return "#cloud-config\n" + toYaml(result.data);
+}
+
+// NoCloud meta-data for a VM — instance-id doubles as the hostname
+export function renderMetaData({ instanceId, hostname }: { instanceId: string; hostname: string }): string {
+  return toYaml({ "instance-id": instanceId, "local-hostname": hostname });
+}
+
+// Deep-merge cloud-config: maps merge recursively, lists append, scalars from the overlay win
+export function mergeCloudConfig(base: Record<string, unknown>, overlay: Record<string, unknown>): Record<string, unknown> {
+  const out = { ...base };
+  for (const [k, v] of Object.entries(overlay)) {
+    const cur = out[k];
+    if (Array.isArray(cur) && Array.isArray(v)) out[k] = [...cur, ...v];
+    else if (cur && v && typeof cur === "object" && typeof v === "object" && !Array.isArray(cur) && !Array.isArray(v)) {
+      out[k] = mergeCloudConfig(cur, v);
+    } else out[k] = v;
+  }
+  return out;
+}
+
+// Provision arguments that extend the generated cloud-config — spread into each model's ProvisionArgsSchema
+export const ProvisionUserDataArgs = {
+  packages: z.array(z.string()).optional().describe("Extra packages to install alongside qemu-guest-agent"),
+  writeFiles: z.array(WriteFileSchema).optional()
+    .describe("Files to write on first boot (cloud-init write_files; set defer for files owned by created users)"),
+  users: z.array(CloudConfigUserSchema).optional().describe("Additional users to create after the primary user"),
+  runcmd: z.array(CommandSchema).optional().describe("Extra commands run after the built-in runcmd steps"),
+  timezone: z.string().optional().describe("System timezone, e.g. Europe/London"),
+  locale: z.string().optional().describe("System locale, e.g. en_GB.UTF-8"),
+  userDataMerge: z.record(z.string(), z.unknown()).optional()
+    .describe("Raw cloud-config deep-merged into the generated user-data (maps merge, lists append)"),
+};
+
+// A host directory shared into the guest; only shares with a mountPoint are mounted
+type ShareMount = { hostPath: string; tag: string; mountPoint?: string; driver?: "9p" | "virtiofs" };
+
+type ProvisionConfigArgs = {
+  hostname: string;
+  username: string;
+  sshPublicKey: string;
+  mounts?: ShareMount[];
+  packages?: string[];
+  writeFiles?: z.infer<typeof WriteFileSchema>[];
+  users?: z.infer<typeof CloudConfigUserSchema>[];
+  runcmd?: z.infer<typeof CommandSchema>[];
+  timezone?: string;
+  locale?: string;
+  userDataMerge?: Record<string, unknown>;
+};
+
+// The cloud-config both provision models boot with: one sudo user with the given key,
+// qemu-guest-agent enabled, 9p or virtiofs shares mounted where a mountPoint is set, plus any
+// ProvisionUserDataArgs extras
+export function provisionCloudConfig({
+  hostname, username, sshPublicKey, mounts = [],
+  packages = [], writeFiles, users = [], runcmd = [], timezone, locale, userDataMerge,
+}: ProvisionConfigArgs) {
+  const clash = users.find((u) => u.name === username);
+  if (clash) throw new Error(`Additional user '${clash.name}' duplicates the primary username`);
+  const mountsWithPoint = mounts.filter((m) => m.mountPoint);
+  const config = {
+    hostname,
+    ...(timezone ? { timezone } : {}),
+    ...(locale ? { locale } : {}),
+    users: [{
+      name: username,
+      ssh_authorized_keys: [sshPublicKey.trim()],
+      sudo: "ALL=(ALL) NOPASSWD:ALL",
+      shell: "/bin/bash",
+    }, ...users],
+    package_update: true,
+    packages: ["qemu-guest-agent", ...packages],
+    ...(writeFiles?.length ? { write_files: writeFiles } : {}),
+    ...(mountsWithPoint.length > 0
+      ? {
+        mounts: mountsWithPoint.map((m) =>
+          m.driver === "virtiofs"
+            ? [m.tag, m.mountPoint, "virtiofs", "rw,nofail", 0, 0]
+            : [m.tag, m.mountPoint, "9p", "trans=virtio,rw,nofail", 0, 0]
+        ),
+      }
+      : {}),
+    runcmd: [
+      "systemctl enable qemu-guest-agent",
+      "systemctl start qemu-guest-agent",
+      ...mountsWithPoint.map((m) => ["mkdir", "-p", m.mountPoint]),
+      ...runcmd,
+    ],
+  };
+  return userDataMerge ? mergeCloudConfig(config, userDataMerge) : config;
+}
+
+// --- Multipart user-data ---
+
+// cloud-init part handlers by MIME type
+export const USER_DATA_TYPES = {
+  "cloud-config": "text/cloud-config",
+  "cloud-config-archive": "text/cloud-config-archive",
+  "shellscript": "text/x-shellscript",
+  "boothook": "text/cloud-boothook",
+  "include-url": "text/x-include-url",
+  "include-once-url": "text/x-include-once-url",
+  "jinja": "text/jinja2",
+  "part-handler": "text/part-handler",
+};
+
+// Content prefixes cloud-init itself uses to detect an undeclared part, longest first
+const USER_DATA_PREFIXES = [
+  ["#cloud-config-archive", "cloud-config-archive"],
+  ["#cloud-config", "cloud-config"],
+  ["#cloud-boothook", "boothook"],
+  ["#include-once", "include-once-url"],
+  ["#include", "include-url"],
+  ["#part-handler", "part-handler"],
+  ["## template: jinja", "jinja"],
+  ["#!", "shellscript"],
+];
+
+const JINJA_HEADER = "## template: jinja";
+
+export const UserDataPartSchema = z.object({
+  type: z.enum(Object.keys(USER_DATA_TYPES)).optional().describe("Part type (default: detected from the content's first line)"),
+  content: z.string().describe("Part body — cloud-config YAML, script, boothook, URL list or jinja template"),
+  filename: z.string().regex(/^[\w.-]+$/, "must be a plain file name").optional().describe("Attachment file name (default part-NNN)"),
+  mergeType: z.string().regex(/^[^\r\n]+$/).optional().describe("cloud-init Merge-Type header, e.g. list(append)+dict(recurse_array)+str()"),
+});
+
+export function detectUserDataType(content: string): string | null {
+  const match = USER_DATA_PREFIXES.find(([prefix]) => content.startsWith(prefix));
+  return match ? match[1] : null;
+}
+
+// Assemble user-data parts into a multipart/mixed document cloud-init splits back into
+// its part handlers. Output is deterministic so seed images stay reproducible.
+export function composeUserData(parts: z.input<typeof UserDataPartSchema>[]): string {
+  if (parts.length === 0) throw new Error("At least one user-data part is required");
+  const resolved = parts.map((part, i) => {
+    const type = part.type ?? detectUserDataType(part.content);
+    if (!type) throw new Error(`Cannot detect the type of user-data part ${i + 1}; set type explicitly`);
+    // The jinja handler only renders parts that start with its header line
+    const content = type === "jinja" && !part.content.startsWith(JINJA_HEADER)
+      ? `${JINJA_HEADER}\n${part.content}`
+      : part.content;
+    const n = String(i + 1).padStart(3, "0");
+    return { ...part, type, content, filename: part.filename ?? `part-${n}${type === "shellscript" ? ".sh" : ".txt"}` };
+  });
+  const filenames = new Set(resolved.map((p) => p.filename));
+  if (filenames.size !== resolved.length) throw new Error("User-data part filenames must be unique");
+
+  let boundary;
+  for (let n = 0; ; n++) {
+    boundary = `===============${String(n).padStart(19, "0")}==`;
+    if (!resolved.some((p) => p.content.includes(boundary))) break;
+  }
+
+  const lines = [
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    "MIME-Version: 1.0",
+    "",
+  ];
+  for (const part of resolved) {
+    const ascii = [...part.content].every((c) => c.charCodeAt(0) < 128);
+    lines.push(
+      `--${boundary}`,
+      `Content-Type: ${USER_DATA_TYPES[part.type]}; charset="${ascii ? "us-ascii" : "utf-8"}"`,
+      "MIME-Version: 1.0",
+      `Content-Transfer-Encoding: ${ascii ? "7bit" : "base64"}`,
+      `Content-Disposition: attachment; filename="${part.filename}"`,
+      ...(part.mergeType ? [`Merge-Type: ${part.mergeType}`] : []),
+      "",
+      // The newline before each boundary belongs to the delimiter, so content survives byte-for-byte
+      ascii ? part.content : base64Lines(new TextEncoder().encode(part.content)),
+    );
+  }
+  lines.push(`--${boundary}--`, "");
+  return lines.join("\n");
+}
+
+function base64Lines(bytes) {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).match(/.{1,76}/g).join("\n");
+}
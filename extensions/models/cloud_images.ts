@@ -0,0 +1,428 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import { z } from "npm:zod@4";
+import type { SshRunner } from "./ssh.ts";
+
+// Cloud image catalog and cache — resolves a distro/version/arch to a download URL plus the
+// checksum (and, where the distro publishes one, signature) that vouch for it, and makes sure
+// the copy cached on the host matches before anything is built on top of it.
+
+const UBUNTU_KEY = "D2EB44626FDDC30B513D5BB71A5D6C4C7DB87C81"; // UEC Image Automatic Signing Key
+const FEDORA_KEYS = "https://fedoraproject.org/fedora.gpg";
+
+const ubuntu = (version, codename) => ({
+  distro: "ubuntu",
+  version,
+  osVariant: `ubuntu${version}`,
+  urls: {
+    x86_64: `https://cloud-images.ubuntu.com/${codename}/current/${codename}-server-cloudimg-amd64.img`,
+    aarch64: `https://cloud-images.ubuntu.com/${codename}/current/${codename}-server-cloudimg-arm64.img`,
+  },
+  checksum: { file: "SHA256SUMS", algorithm: "sha256" },
+  signature: { file: "SHA256SUMS.gpg", fingerprint: UBUNTU_KEY },
+});
+
+const debian = (version, codename) => ({
+  distro: "debian",
+  version,
+  osVariant: `debian${version}`,
+  urls: {
+    x86_64: `https://cloud.debian.org/images/cloud/${codename}/latest/debian-${version}-genericcloud-amd64.qcow2`,
+    aarch64: `https://cloud.debian.org/images/cloud/${codename}/latest/debian-${version}-genericcloud-arm64.qcow2`,
+  },
+  checksum: { file: "SHA512SUMS", algorithm: "sha512" },
+});
+
+const fedora = (version, compose) => ({
+  distro: "fedora",
+  version,
+  osVariant: `fedora${version}`,
+  urls: Object.fromEntries(["x86_64", "aarch64"].map((arch) => [
+    arch,
+    `https://download.fedoraproject.org/pub/fedora/linux/releases/${version}/Cloud/${arch}/images/Fedora-Cloud-Base-Generic-${version}-${compose}.${arch}.qcow2`,
+  ])),
+  checksum: { file: { x86_64: `Fedora-Cloud-${version}-${compose}-x86_64-CHECKSUM`, aarch64: `Fedora-Cloud-${version}-${compose}-aarch64-CHECKSUM` }, algorithm: "sha256" },
+  signature: { inline: true, keyUrl: FEDORA_KEYS }, // CHECKSUM files are clearsigned
+});
+
+const rocky = (version) => ({
+  distro: "rocky",
+  version,
+  osVariant: `rocky${version}`,
+  urls: Object.fromEntries(["x86_64", "aarch64"].map((arch) => [
+    arch,
+    `https://dl.rockylinux.org/pub/rocky/${version}/images/${arch}/Rocky-${version}-GenericCloud-Base.latest.${arch}.qcow2`,
+  ])),
+  checksum: { file: "CHECKSUM", algorithm: "sha256" },
+});
+
+const alma = (version) => ({
+  distro: "almalinux",
+  version,
+  osVariant: `almalinux${version}`,
+  urls: Object.fromEntries(["x86_64", "aarch64"].map((arch) => [
+    arch,
+    `https://repo.almalinux.org/almalinux/${version}/cloud/${arch}/images/AlmaLinux-${version}-GenericCloud-latest.${arch}.qcow2`,
+  ])),
+  checksum: { file: "CHECKSUM", algorithm: "sha256" },
+});
+
+const opensuse = (version) => ({
+  distro: "opensuse",
+  version,
+  osVariant: `opensuse${version}`,
+  urls: Object.fromEntries(["x86_64", "aarch64"].map((arch) => [
+    arch,
+    `https://download.opensuse.org/distribution/leap/${version}/appliances/openSUSE-Leap-${version}-Minimal-VM.${arch}-Cloud.qcow2`,
+  ])),
+  checksum: { suffix: ".sha256", algorithm: "sha256" },
+});
+
+export const IMAGE_CATALOG = {
+  "ubuntu-24.04": ubuntu("24.04", "noble"),
+  "ubuntu-22.04": ubuntu("22.04", "jammy"),
+  "ubuntu-20.04": ubuntu("20.04", "focal"),
+  "debian-13": debian("13", "trixie"),
+  "debian-12": debian("12", "bookworm"),
+  "fedora-42": fedora("42", "1.1"),
+  "fedora-41": fedora("41", "1.4"),
+  "rocky-9": rocky("9"),
+  "rocky-8": rocky("8"),
+  "almalinux-9": alma("9"),
+  "almalinux-8": alma("8"),
+  "opensuse-leap-15.6": opensuse("15.6"),
+};
+
+export const ImageArchSchema = z.enum(["x86_64", "aarch64"]);
+
+export const CustomImageSchema = z.object({
+  url: z.string().url().describe("Download URL of a qcow2 or raw cloud image"),
+  checksum: z.string().regex(/^(sha256:[0-9a-f]{64}|sha512:[0-9a-f]{128})$/i).optional()
+    .describe("Pinned digest as sha256:<hex> or sha512:<hex>"),
+  checksumUrl: z.string().url().optional().describe("URL of a SHA256SUMS-style file listing the image"),
+  algorithm: z.enum(["sha256", "sha512"]).optional().describe("Digest used by checksumUrl (default sha256)"),
+  format: z.enum(["qcow2", "raw"]).optional().describe("Image format (default qcow2)"),
+  osVariant: z.string().optional().describe("libosinfo short ID, e.g. debian12"),
+  arch: ImageArchSchema.optional(),
+});
+
+// Provision arguments selecting the base image — spread into each model's ProvisionArgsSchema
+export const ImageArgs = {
+  image: z.enum(Object.keys(IMAGE_CATALOG)).optional().describe("Catalog image, e.g. ubuntu-24.04, debian-12, rocky-9"),
+  customImage: CustomImageSchema.optional().describe("Image from an arbitrary URL (overrides image)"),
+  imageVerify: z.enum(["checksum", "gpg", "none"]).optional()
+    .describe("Verify the cached image against its published checksum (default), also check the signature, or skip"),
+};
+
+const sibling = (url, file) => url.slice(0, url.lastIndexOf("/") + 1) + file;
+
+type ImageChoice = { image?: string; customImage?: z.infer<typeof CustomImageSchema>; ubuntuVersion?: string };
+
+// signatureUrl is null for clearsigned checksum files and absent when nothing is signed
+export type ResolvedImage = {
+  name: string;
+  label: string;
+  arch: string;
+  osVariant?: string;
+  url: string;
+  fileName: string;
+  format: string;
+  algorithm: string;
+  digest?: string;
+  checksumUrl?: string;
+  signatureUrl?: string | null;
+  gpgFingerprint?: string;
+  gpgKeyUrl?: string;
+};
+
+// Resolve catalog name or custom image to a concrete download with its verification material
+export function resolveImage({ image, customImage, ubuntuVersion }: ImageChoice, arch = "x86_64"): ResolvedImage {
+  if (customImage) {
+    const [algorithm, digest] = customImage.checksum ? customImage.checksum.toLowerCase().split(":") : [customImage.algorithm ?? "sha256"];
+    return {
+      name: "custom",
+      label: customImage.url.split("/").pop(),
+      arch: customImage.arch ?? arch,
+      osVariant: customImage.osVariant,
+      url: customImage.url,
+      fileName: customImage.url.split("/").pop().split("?")[0],
+      format: customImage.format ?? "qcow2",
+      algorithm,
+      digest,
+      checksumUrl: customImage.checksumUrl,
+    };
+  }
+  const name = image ?? (ubuntuVersion ? `ubuntu-${ubuntuVersion}` : null);
+  if (!name) throw new Error("Specify image, customImage or ubuntuVersion");
+  const entry = IMAGE_CATALOG[name];
+  if (!entry) throw new Error(`Unknown image '${name}' (known: ${Object.keys(IMAGE_CATALOG).join(", ")})`);
+  const url = entry.urls[arch];
+  if (!url) throw new Error(`Image '${name}' has no ${arch} build`);
+  const { checksum, signature } = entry;
+  const checksumUrl = checksum.suffix
+    ? url + checksum.suffix
+    : sibling(url, typeof checksum.file === "string" ? checksum.file : checksum.file[arch]);
+  return {
+    name,
+    label: `${entry.distro} ${entry.version} (${arch})`,
+    arch,
+    osVariant: entry.osVariant,
+    url,
+    fileName: url.split("/").pop(),
+    format: "qcow2",
+    algorithm: checksum.algorithm,
+    checksumUrl,
+    ...(signature
+      ? {
+        signatureUrl: signature.inline ? null : sibling(url, signature.file),
+        gpgFingerprint: signature.fingerprint,
+        gpgKeyUrl: signature.keyUrl,
+      }
+      : {}),
+  };
+}
+
+// Find a file's digest in a checksum list — GNU coreutils ("<hex>  name" / "<hex> *name") and
+// BSD/RPM ("SHA256 (name) = <hex>") formats, with any PGP clearsign armour ignored
+export function parseChecksums(text: string, fileName: string): string | null {
+  for (const raw of text.split("\n")) {
+    const line = raw.trim();
+    const bsd = line.match(/^(?:SHA256|SHA512) \((.+)\) = ([0-9a-fA-F]+)$/);
+    if (bsd && bsd[1] === fileName) return bsd[2].toLowerCase();
+    const gnu = line.match(/^([0-9a-fA-F]{64}|[0-9a-fA-F]{128}) [ *]?(.+)$/);
+    if (gnu && gnu[2].replace(/^\.\//, "") === fileName) return gnu[1].toLowerCase();
+  }
+  return null;
+}
+
+// Check `gpg --status-fd 1 --verify` output for a good signature, pinned to a fingerprint if given
+export function checkGpgStatus(status: string, fingerprint?: string): boolean {
+  const lines = status.split("\n");
+  if (lines.some((l) => /^\[GNUPG:\] (BADSIG|ERRSIG|EXPSIG|EXPKEYSIG|REVKEYSIG)\b/.test(l))) return false;
+  const valid = lines.map((l) => l.match(/^\[GNUPG:\] VALIDSIG ([0-9A-F]{40})(?: .* ([0-9A-F]{40}))?/)).filter(Boolean);
+  if (valid.length === 0) return false;
+  if (!fingerprint) return true;
+  const want = fingerprint.replace(/\s/g, "").toUpperCase();
+  return valid.some((m) => m[1] === want || m[2] === want);
+}
+
+const fetchCmd = (url, dest) => `(curl -fsSL -o '${dest}' '${url}' || wget -q -O '${dest}' '${url}')`;
+
+// Cached images are stored under versioned names — `<stem>.<first 12 hex of digest><ext>` — so a
+// refreshed upstream image lands beside the old one instead of replacing a file that existing
+// VM overlays still use as their backing file.
+const VERSION_LEN = 12;
+
+export function versionedFileName(fileName: string, digest: string): string {
+  const dot = fileName.lastIndexOf(".");
+  const [stem, ext] = dot > 0 ? [fileName.slice(0, dot), fileName.slice(dot)] : [fileName, ""];
+  return `${stem}.${digest.slice(0, VERSION_LEN)}${ext}`;
+}
+
+// Newest cached version of an image, or null
+async function latestVersion(ssh, cacheDir, fileName) {
+  const pattern = versionedFileName(fileName, "?".repeat(VERSION_LEN)).replace(/[^?]+/g, (part) => `'${part}'`);
+  const res = await ssh(`cd '${cacheDir}' 2>/dev/null && ls -t ${pattern} 2>/dev/null | head -1`, { allowFailure: true });
+  return res.stdout ? `${cacheDir}/${res.stdout}` : null;
+}
+
+// Make sure the cache holds a verified copy of the image's current upstream version and return
+// its path. Downloads go to a .part file and are only moved into place once the digest matches,
+// so an interrupted or truncated transfer can never be picked up by a later provision. The
+// verified digest is kept beside the image so unchanged images aren't re-hashed on every run.
+export async function ensureImage(
+  ssh: SshRunner,
+  cacheDir: string,
+  image: Omit<ResolvedImage, "name" | "arch" | "osVariant">,
+  { verify = "checksum", logger }: { verify?: "checksum" | "gpg" | "none"; logger: { info(message: string): void } },
+): Promise<string> {
+  await ssh(`mkdir -p '${cacheDir}'`);
+  const hashOf = async (file) => (await ssh(`${image.algorithm}sum '${file}' | cut -d' ' -f1`)).stdout;
+
+  let expected = image.digest ?? null;
+  if (verify !== "none" && !expected) {
+    if (!image.checksumUrl) throw new Error(`No checksum available for ${image.label}; set customImage.checksum or imageVerify: none`);
+    const sums = `${cacheDir}/${image.fileName}.sums`;
+    const fetched = await ssh(fetchCmd(image.checksumUrl, sums), { allowFailure: true });
+    if (fetched.code !== 0) {
+      const cached = await latestVersion(ssh, cacheDir, image.fileName);
+      if (cached) {
+        logger.info(`Could not fetch ${image.checksumUrl}; using ${cached}, verified when it was cached.`);
+        return cached;
+      }
+      throw new Error(`Failed to fetch checksums from ${image.checksumUrl}: ${fetched.stderr}`);
+    }
+    const listing = verify === "gpg" ? await verifySignature(ssh, cacheDir, image, sums, logger) : sums;
+    expected = parseChecksums((await ssh(`cat '${listing}'`)).stdout, image.fileName);
+    if (!expected) throw new Error(`${image.fileName} is not listed in ${image.checksumUrl}`);
+  }
+
+  if (expected) {
+    const path = `${cacheDir}/${versionedFileName(image.fileName, expected)}`;
+    const digestFile = `${path}.${image.algorithm}`;
+    const state = await ssh(`test -f '${path}' && { echo present; cat '${digestFile}' 2>/dev/null; } || true`, { allowFailure: true });
+    const [present, knownDigest] = state.stdout.split("\n");
+    if (present === "present") {
+      if (knownDigest === expected || await hashOf(path) === expected) {
+        await ssh(`printf '%s\\n' '${expected}' > '${digestFile}'`);
+        logger.info(`Using cached ${image.label} (${image.algorithm} verified).`);
+        return path;
+      }
+      logger.info(`Cached ${path} is corrupt; downloading again.`);
+    }
+    const part = await download(ssh, image, path, logger);
+    const actual = await hashOf(part);
+    if (actual !== expected) {
+      await ssh(`rm -f '${part}'`, { allowFailure: true });
+      throw new Error(`Downloaded ${image.fileName} failed ${image.algorithm} verification (expected ${expected}, got ${actual})`);
+    }
+    await ssh(`mv -f '${part}' '${path}' && printf '%s\\n' '${expected}' > '${digestFile}'`);
+    logger.info(`Download complete, ${image.algorithm} verified.`);
+    return path;
+  }
+
+  // Unverified: reuse whatever version is cached, else download and name it by its own digest
+  const cached = await latestVersion(ssh, cacheDir, image.fileName);
+  if (cached) {
+    logger.info(`Using cached ${image.label} (unverified).`);
+    return cached;
+  }
+  const part = await download(ssh, image, `${cacheDir}/${image.fileName}`, logger);
+  const path = `${cacheDir}/${versionedFileName(image.fileName, await hashOf(part))}`;
+  await ssh(`mv -f '${part}' '${path}'`);
+  logger.info("Download complete (unverified).");
+  return path;
+}
+
+async function download(ssh, image, path, logger) {
+  logger.info(`Downloading ${image.label} cloud image (this may take a while)...`);
+  const part = `${path}.part`;
+  await ssh(`rm -f '${part}' && ${fetchCmd(image.url, part)}`);
+  return part;
+}
+
+// Verify the checksum file's signature with a throwaway keyring under the image cache and
+// return the file holding just the signed text. A clearsigned file can carry unsigned lines
+// outside its signed block, so digests must come from what gpg verified, not the download.
+async function verifySignature(ssh, cacheDir, image, sums, logger) {
+  if (image.signatureUrl === undefined) throw new Error(`${image.label} publishes no signature; use imageVerify: checksum`);
+  const home = `${cacheDir}/.gnupg`;
+  const gpg = `gpg --batch --homedir '${home}'`;
+  await ssh(`mkdir -p -m 700 '${home}'`);
+  if (image.gpgKeyUrl) {
+    await ssh(`(curl -fsSL '${image.gpgKeyUrl}' || wget -qO- '${image.gpgKeyUrl}') | ${gpg} --import`);
+  } else {
+    await ssh(`${gpg} --list-keys '${image.gpgFingerprint}' >/dev/null 2>&1 || ${gpg} --keyserver hkps://keyserver.ubuntu.com --recv-keys '${image.gpgFingerprint}'`);
+  }
+  let status;
+  let listing = sums;
+  if (image.signatureUrl) {
+    const sig = `${sums}.sig`;
+    await ssh(fetchCmd(image.signatureUrl, sig));
+    status = await ssh(`${gpg} --status-fd 1 --verify '${sig}' '${sums}' 2>/dev/null`, { allowFailure: true });
+  } else {
+    const signed = sums.replace(/\.sums$/, ".signed.sums");
+    status = await ssh(`rm -f '${signed}' && ${gpg} --status-fd 1 --output '${signed}' --verify '${sums}' 2>/dev/null`, { allowFailure: true });
+    listing = signed;
+  }
+  if (!checkGpgStatus(status.stdout, image.gpgFingerprint)) {
+    throw new Error(`GPG verification of ${image.checksumUrl} failed`);
+  }
+  logger.info(`Checksum signature verified for ${image.label}.`);
+  return listing;
+}
+
+// --- Cache inventory ---
+
+// Prints "<holder>\t<image>" for every file in the backing chain of every libvirt domain disk
+// (holder = domain name) and of every other file under domainsDir whatever its name, such as
+// templates and Unraid's vdisk1.img overlays (holder = its path). Image paths have symlinks
+// resolved. Unreadable chains print "!error\t<holder>\t<file>" so callers can refuse to GC.
+export function backingChainsScript(domainsDir: string, cacheDir: string): string {
+  return `chain() { out=$(qemu-img info -U --backing-chain "$2" 2>&1) || { printf '!error\\t%s\\t%s\\n' "$1" "$2"; return; }; ` +
+    `printf '%s\\n' "$out" | sed -n 's|^image: ||p' | while read -r img; do printf '%s\\t%s\\n' "$1" "$(realpath -m "$img")"; done; }; ` +
+    `disks=$(mktemp); ` +
+    `virsh list --all --name | while read -r d; do [ -n "$d" ] || continue; ` +
+    `virsh domblklist "$d" --details | awk '$2=="disk" && $4!="-" {print $4}' | while read -r f; do echo "$f" >> "$disks"; chain "$d" "$f"; done; done; ` +
+    `find '${domainsDir}' -path '${cacheDir}' -prune -o -type f -print | grep -vxF -f "$disks" | while read -r f; do chain "$f" "$f"; done; ` +
+    `rm -f "$disks"`;
+}
+
+// Unraid shows each user-share file both under /mnt/user (and /mnt/user0) and under the pool or
+// array disk holding it, and realpath can't join the two, so paths below /mnt compare by their
+// user-share form. Elsewhere this can only make two files look the same, which keeps an image.
+const imageKey = (path) => path.replace(/^\/mnt\/[^/]+\//, "/mnt/user/");
+
+// Map each image path to the domains/files whose backing chain includes it
+export function parseBackingChains(stdout: string): { users: Map<string, Set<string>>; errors: string[] } {
+  const users = new Map();
+  const errors = [];
+  for (const line of stdout.split("\n")) {
+    if (!line) continue;
+    const fields = line.split("\t");
+    if (fields[0] === "!error") {
+      errors.push(`${fields[1]}: ${fields[2]}`);
+      continue;
+    }
+    const key = imageKey(fields[1]);
+    if (!users.has(key)) users.set(key, new Set());
+    users.get(key).add(fields[0]);
+  }
+  return { users, errors };
+}
+
+const CACHE_SIDE_FILES = ["*.part", "*.sha256", "*.sha512", "*.sums", "*.sig"];
+
+// Cached images with size, age and the domains (or other disks) that use them as a backing file
+export type CachedImage = {
+  file: string;
+  path: string;
+  sizeBytes: number;
+  modifiedAt: string;
+  ageDays: number;
+  usedBy: string[];
+};
+
+export async function listCachedImages(
+  ssh: SshRunner,
+  domainsDir: string,
+  cacheDir: string,
+  now = Date.now(),
+): Promise<{ images: CachedImage[]; errors: string[] }> {
+  const excludes = CACHE_SIDE_FILES.map((p) => `! -name '${p}'`).join(" ");
+  const [files, chains] = await Promise.all([
+    // The first line is the cache directory with symlinks resolved, to match the chains' paths
+    ssh(`realpath -e '${cacheDir}' 2>/dev/null && find '${cacheDir}' -maxdepth 1 -type f ${excludes} -printf '%s\\t%T@\\t%f\\n' 2>/dev/null`, { allowFailure: true }),
+    ssh(backingChainsScript(domainsDir, cacheDir), { allowFailure: true }),
+  ]);
+  const { users, errors } = parseBackingChains(chains.stdout);
+  const [realCacheDir, ...lines] = files.stdout.split("\n");
+  const images = lines.filter(Boolean).map((line) => {
+    const [size, mtime, file] = line.split("\t");
+    const path = `${cacheDir}/${file}`;
+    const modified = Number(mtime) * 1000;
+    return {
+      file,
+      path,
+      sizeBytes: Number(size),
+      modifiedAt: new Date(modified).toISOString(),
+      ageDays: Math.floor((now - modified) / 86_400_000),
+      usedBy: [...(users.get(imageKey(`${realCacheDir}/${file}`)) ?? [])].sort(),
+    };
+  }).sort((a, b) => a.file.localeCompare(b.file));
+  return { images, errors };
+}
+
+// Images GC may delete: nothing uses them as a backing file and, with keepLatest, they are not
+// the newest cached version of their image (so the next provision needn't download again)
+export function unusedImages(images: CachedImage[], { keepLatest = true }: { keepLatest?: boolean } = {}): CachedImage[] {
+  const newest = new Map();
+  for (const img of images) {
+    const m = img.file.match(new RegExp(`^(.*)\\.[0-9a-f]{${VERSION_LEN}}(\\.[^.]*)?$`));
+    if (!m) continue;
+    const key = m[1] + (m[2] ?? "");
+    const cur = newest.get(key);
+    if (!cur || img.modifiedAt > cur.modifiedAt) newest.set(key, img);
+  }
+  const keep = new Set(keepLatest ? newest.values() : []);
+  return images.filter((img) => img.usedBy.length === 0 && !keep.has(img));
+}
@@ -1,91 +1,949 @@
-// @ts-nocheck — swamp extension models run without type checking; annotations are omitted per convention
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
 import { z } from "npm:zod@4";
+import { CloudConfigSchema, composeUserData, renderCloudConfig, UserDataPartSchema } from "./cloud_config.ts";
+import { cleanupKeyFile, runSsh, setupKeyFile, shellQuote } from "./ssh.ts";
 
-// Build a minimal ISO 9660 cloud-init seed image locally — no remote tools required.
-// Uses uppercase filenames (USER-DATA, META-DATA); Linux isofs lowercases them on
-// mount via map=normal, which is what cloud-init's NoCloud datasource expects.
-export function makeCloudInitIso(userData, metaData) {
-  const S = 2048;
-  const enc = new TextEncoder();
-  // Sorted alphabetically so META-DATA comes before USER-DATA
-  const files = [
-    ["META-DATA", enc.encode(metaData)],
-    ["USER-DATA", enc.encode(userData)],
+const enc = new TextEncoder();
+const dec = new TextDecoder();
+
+// Rock Ridge extension record (SUSP "ER") identifying RRIP 1.10 (IEEE P1282 draft)
+const RRIP_ID = "RRIP_1991A";
+const RRIP_DESCRIPTOR = "THE ROCK RIDGE INTERCHANGE PROTOCOL PROVIDES SUPPORT FOR POSIX FILE SYSTEM SEMANTICS";
+const RRIP_SOURCE = "PLEASE CONTACT DISC PUBLISHER FOR SPECIFICATION SOURCE.  SEE PUBLISHER IDENTIFIER IN PRIMARY VOLUME DESCRIPTOR FOR CONTACT INFORMATION.";
+
+const u32b = (v) => new Uint8Array([
+  v & 0xFF, (v >> 8) & 0xFF, (v >> 16) & 0xFF, (v >> 24) & 0xFF,
+  (v >> 24) & 0xFF, (v >> 16) & 0xFF, (v >> 8) & 0xFF, v & 0xFF,
+]);
+const u16b = (v) => new Uint8Array([v & 0xFF, (v >> 8) & 0xFF, (v >> 8) & 0xFF, v & 0xFF]);
+
+// Joliet identifiers are UCS-2 big-endian
+function ucs2be(s) {
+  const out = new Uint8Array(s.length * 2);
+  for (let i = 0; i < s.length; i++) {
+    out[i * 2] = s.charCodeAt(i) >> 8;
+    out[i * 2 + 1] = s.charCodeAt(i) & 0xFF;
+  }
+  return out;
+}
+
+function concat(parts) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let off = 0;
+  for (const p of parts) { out.set(p, off); off += p.length; }
+  return out;
+}
+
+// --- SUSP / RRIP system use entries ---
+
+function suspEntry(sig, body) {
+  const e = new Uint8Array(4 + body.length);
+  e.set(enc.encode(sig), 0);
+  e[2] = e.length; e[3] = 1;
+  e.set(body, 4);
+  return e;
+}
+
+// SP: marks the start of SUSP in the root "." record
+const spEntry = () => suspEntry("SP", new Uint8Array([0xBE, 0xEF, 0]));
+
+// CE: points to a continuation area holding entries that don't fit in the record
+const ceEntry = (lba, offset, length) => suspEntry("CE", concat([u32b(lba), u32b(offset), u32b(length)]));
+
+// ER: declares the RRIP extension; too long for a directory record, so it lives in a CE area
+function erEntry() {
+  const [id, des, src] = [RRIP_ID, RRIP_DESCRIPTOR, RRIP_SOURCE].map((s) => enc.encode(s));
+  return suspEntry("ER", concat([new Uint8Array([id.length, des.length, src.length, 1]), id, des, src]));
+}
+
+// PX: POSIX mode, link count, uid, gid (RRIP 1.10 layout, 36 bytes)
+const pxEntry = (mode, links) => suspEntry("PX", concat([u32b(mode), u32b(links), u32b(0), u32b(0)]));
+
+// NM: the real (case-preserving) file name
+const nmEntry = (name) => suspEntry("NM", concat([new Uint8Array([0]), enc.encode(name)]));
+
+const MODE_DIR = 0o040555;
+const MODE_FILE = 0o100444;
+
+const SECTOR = 2048;
+
+// Fixed default keeps images byte-for-byte reproducible; SOURCE_DATE_EPOCH overrides it
+const DEFAULT_TIMESTAMP = Date.UTC(2026, 1, 21);
+
+// Accepts a Date, an ISO 8601 string or seconds since the epoch (SOURCE_DATE_EPOCH style)
+function resolveTimestamp(timestamp) {
+  if (timestamp == null) {
+    let epoch;
+    try { epoch = Deno.env.get("SOURCE_DATE_EPOCH"); } catch { epoch = undefined; }
+    timestamp = epoch && /^\d+$/.test(epoch) ? Number(epoch) : new Date(DEFAULT_TIMESTAMP);
+  }
+  const date = typeof timestamp === "number" ? new Date(timestamp * 1000) : new Date(timestamp);
+  if (isNaN(date.getTime())) throw new Error(`Invalid ISO timestamp: ${timestamp}`);
+  if (date.getUTCFullYear() < 1900 || date.getUTCFullYear() > 2155) throw new Error(`ISO timestamp out of range: ${date.toISOString()}`);
+  return date;
+}
+
+// 7-byte directory record date (years since 1900 … seconds, GMT offset 0)
+const recordDate = (d) => new Uint8Array([
+  d.getUTCFullYear() - 1900, d.getUTCMonth() + 1, d.getUTCDate(),
+  d.getUTCHours(), d.getUTCMinutes(), d.getUTCSeconds(), 0,
+]);
+
+// 17-byte volume descriptor date ("YYYYMMDDHHMMSScc" + GMT offset 0)
+function volumeDate(d) {
+  const p = (v, n = 2) => String(v).padStart(n, "0");
+  const digits = `${p(d.getUTCFullYear(), 4)}${p(d.getUTCMonth() + 1)}${p(d.getUTCDate())}` +
+    `${p(d.getUTCHours())}${p(d.getUTCMinutes())}${p(d.getUTCSeconds())}${p(Math.floor(d.getUTCMilliseconds() / 10))}`;
+  return concat([enc.encode(digits), new Uint8Array([0])]);
+}
+
+function dirRecordAt(nameBytes, isDir, extentLba, dataLen, systemUse = new Uint8Array(0), date) {
+  const nl = nameBytes.length;
+  const base = 33 + nl + (nl % 2 === 0 ? 1 : 0);
+  const len = base + systemUse.length + ((base + systemUse.length) % 2);
+  if (len > 255) throw new Error(`Directory record too long (${len} bytes) for ${dec.decode(nameBytes)}`);
+  const rec = new Uint8Array(len);
+  let i = 0;
+  rec[i++] = rec.length; rec[i++] = 0;
+  rec.set(u32b(extentLba), i); i += 8;
+  rec.set(u32b(dataLen), i); i += 8;
+  rec.set(date, i); i += 7;
+  rec[i++] = isDir ? 2 : 0;
+  rec[i++] = 0; rec[i++] = 0;
+  rec.set(u16b(1), i); i += 4;
+  rec[i++] = nl;
+  rec.set(nameBytes, i);
+  rec.set(systemUse, base);
+  return rec;
+}
+
+// Records never straddle a sector boundary; a record that doesn't fit starts the next sector
+function packDirectory(records) {
+  const placed = [];
+  let off = 0;
+  for (const rec of records) {
+    if ((off % SECTOR) + rec.length > SECTOR) off = Math.ceil(off / SECTOR) * SECTOR;
+    placed.push([off, rec]);
+    off += rec.length;
+  }
+  const bytes = new Uint8Array(Math.ceil(off / SECTOR) * SECTOR);
+  for (const [o, rec] of placed) bytes.set(rec, o);
+  return bytes;
+}
+
+// Uppercase d-characters for the primary tree; real names live in Rock Ridge NM / Joliet
+function primaryIdentifier(name, isDir, taken) {
+  const base = name.toUpperCase().replace(isDir ? /[^A-Z0-9_-]/g : /[^A-Z0-9_.-]/g, "_").slice(0, 30);
+  let id = base;
+  for (let n = 1; taken.has(id); n++) id = `${base.slice(0, 30 - String(n).length - 1)}_${n}`;
+  taken.add(id);
+  return id;
+}
+
+function buildTree(files) {
+  const root = { name: "", children: new Map() };
+  root.parent = root;
+  for (const { path, bytes } of files) {
+    const parts = path.split("/").filter(Boolean);
+    if (parts.length === 0) throw new Error(`Invalid ISO path: '${path}'`);
+    let dir = root;
+    for (const part of parts.slice(0, -1)) {
+      let next = dir.children.get(part);
+      if (!next) {
+        next = { name: part, children: new Map(), parent: dir };
+        dir.children.set(part, next);
+      } else if (!next.children) {
+        throw new Error(`'${part}' in '${path}' is both a file and a directory`);
+      }
+      dir = next;
+    }
+    const leaf = parts[parts.length - 1];
+    if (dir.children.has(leaf)) throw new Error(`Duplicate ISO path: '${path}'`);
+    dir.children.set(leaf, { name: leaf, bytes, parent: dir });
+  }
+  const assignIds = (dir) => {
+    const taken = new Set();
+    for (const child of dir.children.values()) {
+      child.primaryId = enc.encode(primaryIdentifier(child.name, !!child.children, taken));
+      child.jolietId = ucs2be(child.name.slice(0, 64));
+      if (child.children) assignIds(child);
+    }
+  };
+  assignIds(root);
+  return root;
+}
+
+const compareBytes = (a, b) => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) if (a[i] !== b[i]) return a[i] - b[i];
+  return a.length - b.length;
+};
+
+// Directories in path table order (breadth-first, children sorted by identifier), each with
+// its sorted entries and 1-based parent directory number
+function directoryOrder(root, idKey) {
+  const dirs = [{ node: root, parentNumber: 1 }];
+  for (let i = 0; i < dirs.length; i++) {
+    const entries = [...dirs[i].node.children.values()].sort((a, b) => compareBytes(a[idKey], b[idKey]));
+    dirs[i].entries = entries;
+    for (const child of entries) if (child.children) dirs.push({ node: child, parentNumber: i + 1 });
+  }
+  return dirs;
+}
+
+function pathTable(dirs, idKey, lbaKey, littleEndian) {
+  const parts = dirs.map(({ node, parentNumber }) => {
+    const id = node === node.parent ? new Uint8Array([0]) : node[idKey];
+    const entry = new Uint8Array(8 + id.length + (id.length % 2));
+    const view = new DataView(entry.buffer);
+    entry[0] = id.length;
+    view.setUint32(2, node[lbaKey], littleEndian);
+    view.setUint16(6, parentNumber, littleEndian);
+    entry.set(id, 8);
+    return entry;
+  });
+  return concat(parts);
+}
+
+type ImageFile = { path: string; bytes: Uint8Array };
+
+// A Date, an ISO 8601 string or seconds since the epoch (see resolveTimestamp)
+type Timestamp = Date | string | number;
+
+type IsoOptions = {
+  volumeId?: string;
+  rockRidge?: boolean;
+  joliet?: boolean;
+  timestamp?: Timestamp;
+  systemId?: string;
+  volumeSetId?: string;
+  publisherId?: string;
+  preparerId?: string;
+  applicationId?: string;
+};
+
+// The optional NoCloud seed files beside user-data and meta-data
+type SeedFiles = { networkConfig?: string; vendorData?: string };
+
+// Build an ISO 9660 image from a flat list of { path, bytes } files. Intermediate directories
+// are created implicitly; directories may span multiple sectors. Emits L and M path tables,
+// Rock Ridge (SUSP/RRIP) records with the real names by default, and an optional Joliet tree.
+// Output is deterministic: every date comes from `timestamp` (see resolveTimestamp).
+export function buildIso9660({
+  volumeId = "CDROM",
+  files,
+  rockRidge = true,
+  joliet = false,
+  timestamp,
+  systemId = "",
+  volumeSetId = "",
+  publisherId = "",
+  preparerId = "",
+  applicationId = "",
+}: IsoOptions & { files: ImageFile[] }): Uint8Array {
+  if (volumeId.length > 32) throw new Error(`Volume ID '${volumeId}' exceeds 32 characters`);
+  const created = resolveTimestamp(timestamp);
+  const date = recordDate(created);
+  const dirRecord = (nameBytes, isDir, extentLba, dataLen, systemUse) =>
+    dirRecordAt(nameBytes, isDir, extentLba, dataLen, systemUse, date);
+  const root = buildTree(files);
+  const primaryDirs = directoryOrder(root, "primaryId");
+  const jolietDirs = joliet ? directoryOrder(root, "jolietId") : [];
+  const er = erEntry();
+  let ceLba = 0;
+
+  const subdirCount = (dir) => [...dir.children.values()].filter((c) => c.children).length;
+  const rrDir = (dir) => pxEntry(MODE_DIR, 2 + subdirCount(dir));
+
+  // Directory records for one tree; LBAs are zero on the sizing pass and real on the final pass
+  const primaryRecords = ({ node, entries }) => [
+    dirRecord(new Uint8Array([0x00]), true, node.lba ?? 0, node.size ?? 0,
+      rockRidge ? (node === root ? concat([spEntry(), rrDir(node), ceEntry(ceLba, 0, er.length)]) : rrDir(node)) : undefined),
+    dirRecord(new Uint8Array([0x01]), true, node.parent.lba ?? 0, node.parent.size ?? 0,
+      rockRidge ? rrDir(node.parent) : undefined),
+    ...entries.map((e) => e.children
+      ? dirRecord(e.primaryId, true, e.lba ?? 0, e.size ?? 0, rockRidge ? concat([rrDir(e), nmEntry(e.name)]) : undefined)
+      : dirRecord(e.primaryId, false, e.extent ?? 0, e.bytes.length, rockRidge ? concat([pxEntry(MODE_FILE, 1), nmEntry(e.name)]) : undefined)),
+  ];
+  const jolietRecords = ({ node, entries }) => [
+    dirRecord(new Uint8Array([0x00]), true, node.jolietLba ?? 0, node.jolietSize ?? 0),
+    dirRecord(new Uint8Array([0x01]), true, node.parent.jolietLba ?? 0, node.parent.jolietSize ?? 0),
+    ...entries.map((e) => e.children
+      ? dirRecord(e.jolietId, true, e.jolietLba ?? 0, e.jolietSize ?? 0)
+      : dirRecord(e.jolietId, false, e.extent ?? 0, e.bytes.length)),
   ];
 
-  // LBA layout: 0-15 system area, 16 PVD, 17 VDST, 18 root dir, 19+ file data
-  let lba = 19;
-  const extents = [];
-  for (const [, data] of files) {
-    extents.push(lba);
-    lba += Math.ceil(data.length / S) || 1;
+  // LBA layout: 0-15 system area, 16 PVD, [Joliet SVD], VDST, primary directories (root first),
+  // [Joliet directories], path tables, [Rock Ridge continuation area], file data
+  let lba = 16;
+  const pvdLba = lba++;
+  const svdLba = joliet ? lba++ : 0;
+  const vdstLba = lba++;
+  for (const d of primaryDirs) {
+    d.node.size = packDirectory(primaryRecords(d)).length;
+    d.node.lba = lba;
+    lba += d.node.size / SECTOR;
+  }
+  for (const d of jolietDirs) {
+    d.node.jolietSize = packDirectory(jolietRecords(d)).length;
+    d.node.jolietLba = lba;
+    lba += d.node.jolietSize / SECTOR;
+  }
+  const tables = [[primaryDirs, "primaryId", "lba"], ...(joliet ? [[jolietDirs, "jolietId", "jolietLba"]] : [])]
+    .map(([dirs, idKey, lbaKey]) => {
+      const l = pathTable(dirs, idKey, lbaKey, true);
+      const m = pathTable(dirs, idKey, lbaKey, false);
+      const sectors = Math.ceil(l.length / SECTOR);
+      const t = { l, m, lLba: lba, mLba: lba + sectors };
+      lba += sectors * 2;
+      return t;
+    });
+  if (rockRidge) ceLba = lba++;
+  const fileNodes = primaryDirs.flatMap((d) => d.entries.filter((e) => !e.children));
+  for (const f of fileNodes) {
+    f.extent = lba;
+    lba += Math.ceil(f.bytes.length / SECTOR) || 1;
   }
   const totalSectors = lba;
 
-  const u32b = (v) => new Uint8Array([
-    v & 0xFF, (v >> 8) & 0xFF, (v >> 16) & 0xFF, (v >> 24) & 0xFF,
-    (v >> 24) & 0xFF, (v >> 16) & 0xFF, (v >> 8) & 0xFF, v & 0xFF,
-  ]);
-  const u16b = (v) => new Uint8Array([v & 0xFF, (v >> 8) & 0xFF, (v >> 8) & 0xFF, v & 0xFF]);
-
-  const dirRecord = (nameBytes, isDir, extentLba, dataLen) => {
-    const nl = nameBytes.length;
-    const rec = new Uint8Array(33 + nl + (nl % 2 === 0 ? 1 : 0));
-    let i = 0;
-    rec[i++] = rec.length; rec[i++] = 0;
-    rec.set(u32b(extentLba), i); i += 8;
-    rec.set(u32b(dataLen), i); i += 8;
-    rec[i++] = 126; rec[i++] = 2; rec[i++] = 21; // date 2026-02-21
-    rec[i++] = 0; rec[i++] = 0; rec[i++] = 0; rec[i++] = 0;
-    rec[i++] = isDir ? 2 : 0;
-    rec[i++] = 0; rec[i++] = 0;
-    rec.set(u16b(1), i); i += 4;
-    rec[i++] = nl;
-    rec.set(nameBytes, i);
-    return rec;
+  // Primary (type 1) and Joliet supplementary (type 2) descriptors share one layout
+  const volumeDescriptor = (type, encodeId, rootLba, rootSize, table) => {
+    const vd = new Uint8Array(SECTOR);
+    vd[0] = type; vd.set(enc.encode("CD001"), 1); vd[6] = 1;
+    const spaces = (from, to) => {
+      if (type === 2) for (let i = from; i < to; i += 2) { vd[i] = 0; vd[i + 1] = 0x20; }
+      else vd.fill(0x20, from, to);
+    };
+    const text = (off, len, value) => { spaces(off, off + len); vd.set(encodeId(value).subarray(0, len), off); };
+    text(8, 32, systemId);
+    text(40, 32, volumeId);
+    vd.set(u32b(totalSectors), 80);
+    if (type === 2) vd.set([0x25, 0x2F, 0x45], 88); // "%/E" — UCS-2 level 3
+    vd.set(u16b(1), 120); vd.set(u16b(1), 124); vd.set(u16b(SECTOR), 128);
+    vd.set(u32b(table.l.length), 132);
+    new DataView(vd.buffer).setUint32(140, table.lLba, true);
+    new DataView(vd.buffer).setUint32(148, table.mLba, false);
+    vd.set(dirRecord(new Uint8Array([0x00]), true, rootLba, rootSize), 156);
+    text(190, 128, volumeSetId);
+    text(318, 128, publisherId);
+    text(446, 128, preparerId);
+    text(574, 128, applicationId);
+    spaces(702, 813); // copyright, abstract and bibliographic file identifiers
+    const unset = concat([enc.encode("0000000000000000"), new Uint8Array([0])]);
+    vd.set(volumeDate(created), 813); // creation
+    vd.set(volumeDate(created), 830); // modification
+    vd.set(unset, 847); // expiration
+    vd.set(unset, 864); // effective
+    vd[881] = 1;
+    return vd;
   };
 
-  const dotRec = dirRecord(new Uint8Array([0x00]), true, 18, S);
-  const dotdotRec = dirRecord(new Uint8Array([0x01]), true, 18, S);
-
-  const rootDir = new Uint8Array(S);
-  let doff = 0;
-  rootDir.set(dotRec, doff); doff += dotRec.length;
-  rootDir.set(dotdotRec, doff); doff += dotdotRec.length;
-  for (let i = 0; i < files.length; i++) {
-    const rec = dirRecord(enc.encode(files[i][0]), false, extents[i], files[i][1].length);
-    rootDir.set(rec, doff); doff += rec.length;
-  }
-
-  const pvd = new Uint8Array(S);
-  pvd[0] = 1; pvd.set(enc.encode("CD001"), 1); pvd[6] = 1;
-  pvd.fill(0x20, 8, 40);
-  pvd.set(enc.encode("CIDATA"), 40); pvd.fill(0x20, 46, 72);
-  pvd.set(u32b(totalSectors), 80);
-  pvd.set(u16b(1), 120); pvd.set(u16b(1), 124); pvd.set(u16b(S), 128);
-  pvd.set(u32b(0), 132);
-  pvd.set(dotRec, 156);
-  pvd.fill(0x20, 190, 813);
-  const d16 = enc.encode("0000000000000000");
-  for (const off of [813, 830, 847, 864]) { pvd.set(d16, off); pvd[off + 16] = 0; }
-  pvd[881] = 1;
-
-  const vdst = new Uint8Array(S);
+  const vdst = new Uint8Array(SECTOR);
   vdst[0] = 255; vdst.set(enc.encode("CD001"), 1); vdst[6] = 1;
 
-  const iso = new Uint8Array(totalSectors * S);
-  iso.set(pvd, 16 * S); iso.set(vdst, 17 * S); iso.set(rootDir, 18 * S);
-  for (let i = 0; i < files.length; i++) iso.set(files[i][1], extents[i] * S);
+  const iso = new Uint8Array(totalSectors * SECTOR);
+  iso.set(volumeDescriptor(1, (s) => enc.encode(s), root.lba, root.size, tables[0]), pvdLba * SECTOR);
+  if (joliet) iso.set(volumeDescriptor(2, ucs2be, root.jolietLba, root.jolietSize, tables[1]), svdLba * SECTOR);
+  iso.set(vdst, vdstLba * SECTOR);
+  for (const d of primaryDirs) iso.set(packDirectory(primaryRecords(d)), d.node.lba * SECTOR);
+  for (const d of jolietDirs) iso.set(packDirectory(jolietRecords(d)), d.node.jolietLba * SECTOR);
+  for (const t of tables) {
+    iso.set(t.l, t.lLba * SECTOR);
+    iso.set(t.m, t.mLba * SECTOR);
+  }
+  if (rockRidge) iso.set(er, ceLba * SECTOR);
+  for (const f of fileNodes) iso.set(f.bytes, f.extent * SECTOR);
   return iso;
 }
 
+// Build a cloud-init NoCloud seed image (volume ID CIDATA) — no remote tools required.
+// Primary names are uppercase (USER-DATA, META-DATA) for plain ISO 9660 readers. Rock Ridge
+// NM entries carry the real lowercase names so they survive on any OS regardless of mount
+// options, and an optional Joliet tree covers readers without RRIP support.
+// isoOptions (timestamp, volumeId, publisherId, …) are passed through to buildIso9660.
+// network-config (netplan v2 / ENI v1) and vendor-data are only written when provided.
+export function makeCloudInitIso(
+  userData: string,
+  metaData: string,
+  { networkConfig, vendorData, ...isoOptions }: SeedFiles & IsoOptions = {},
+): Uint8Array {
+  return buildIso9660({
+    volumeId: "CIDATA",
+    ...isoOptions,
+    files: noCloudFiles({ userData, metaData, networkConfig, vendorData }),
+  });
+}
+
+function noCloudFiles({ userData, metaData, networkConfig, vendorData }) {
+  const seed = { "meta-data": metaData, "user-data": userData, "network-config": networkConfig, "vendor-data": vendorData };
+  return Object.entries(seed)
+    .filter(([, content]) => content != null)
+    .map(([path, content]) => ({ path, bytes: enc.encode(content) }));
+}
+
+// Build an OpenStack config drive (volume ID config-2) using the openstack/latest layout read by
+// cloud-init's ConfigDrive datasource and cloudbase-init. JSON documents may be passed as
+// objects or pre-serialized strings; user_data is written verbatim. Joliet is on by default
+// because Windows guests (cloudbase-init) read the Joliet tree rather than Rock Ridge.
+export function makeConfigDrive(
+  { metaData, userData, networkData, vendorData }: {
+    metaData?: string | object;
+    userData?: string;
+    networkData?: string | object;
+    vendorData?: string | object;
+  },
+  { joliet = true, ...isoOptions }: IsoOptions = {},
+): Uint8Array {
+  if (metaData == null) throw new Error("Config drive requires meta_data.json content");
+  const json = (v) => (typeof v === "string" ? v : JSON.stringify(v, null, 2));
+  const drive = {
+    "openstack/latest/meta_data.json": json(metaData),
+    "openstack/latest/user_data": userData,
+    "openstack/latest/network_data.json": networkData == null ? undefined : json(networkData),
+    "openstack/latest/vendor_data.json": vendorData == null ? undefined : json(vendorData),
+  };
+  return buildIso9660({
+    ...isoOptions,
+    joliet,
+    volumeId: "config-2",
+    files: Object.entries(drive)
+      .filter(([, content]) => content != null)
+      .map(([path, content]) => ({ path, bytes: enc.encode(content) })),
+  });
+}
+
+// --- FAT12/16 ---
+
+const FAT_SECTOR = 512;
+const FAT_RESERVED_SECTORS = 1;
+const FAT_ROOT_ENTRIES = 512;
+const FAT_MIN_SECTORS = 256; // 128 KiB, the size cloud-localds uses for vfat seeds
+
+// 8.3 short name (11 bytes, space padded) with a numeric tail when the long name doesn't fit
+function shortName(name, taken) {
+  const clean = (s) => s.toUpperCase().replace(/[^A-Z0-9!#$%&'()@^_`{}~-]/g, "_");
+  const dot = name.lastIndexOf(".");
+  const base = clean(dot > 0 ? name.slice(0, dot) : name).replace(/^\.+/, "");
+  const ext = clean(dot > 0 ? name.slice(dot + 1) : "").slice(0, 3);
+  let short = base.slice(0, 8).padEnd(8) + ext.padEnd(3);
+  const exact = base.length <= 8 && `${base}${ext ? "." + ext : ""}` === name;
+  if (!exact || taken.has(short)) {
+    for (let n = 1; ; n++) {
+      const tail = `~${n}`;
+      short = (base.slice(0, 8 - tail.length) + tail).padEnd(8) + ext.padEnd(3);
+      if (!taken.has(short)) break;
+    }
+  }
+  taken.add(short);
+  return { short: enc.encode(short), needsLfn: !exact };
+}
+
+const dosDate = (d) => ((d.getUTCFullYear() - 1980) << 9) | ((d.getUTCMonth() + 1) << 5) | d.getUTCDate();
+const dosTime = (d) => (d.getUTCHours() << 11) | (d.getUTCMinutes() << 5) | (d.getUTCSeconds() >> 1);
+
+function fatDirEntry(short, attr, cluster, size, date) {
+  const e = new Uint8Array(32);
+  const v = new DataView(e.buffer);
+  e.set(short, 0);
+  e[11] = attr;
+  v.setUint16(14, dosTime(date), true); v.setUint16(16, dosDate(date), true); // created
+  v.setUint16(18, dosDate(date), true); // accessed
+  v.setUint16(22, dosTime(date), true); v.setUint16(24, dosDate(date), true); // written
+  v.setUint16(26, cluster, true);
+  v.setUint32(28, size, true);
+  return e;
+}
+
+// VFAT long-name entries, last fragment first, each carrying the short name checksum
+function lfnEntries(name, short) {
+  let sum = 0;
+  for (const c of short) sum = (((sum & 1) << 7) + (sum >> 1) + c) & 0xFF;
+  const units = [...name].map((c) => c.charCodeAt(0));
+  units.push(0);
+  while (units.length % 13) units.push(0xFFFF);
+  const entries = [];
+  const count = units.length / 13;
+  for (let i = count - 1; i >= 0; i--) {
+    const e = new Uint8Array(32);
+    const v = new DataView(e.buffer);
+    e[0] = (i + 1) | (i === count - 1 ? 0x40 : 0);
+    e[11] = 0x0F;
+    e[13] = sum;
+    const chunk = units.slice(i * 13, i * 13 + 13);
+    [1, 3, 5, 7, 9, 14, 16, 18, 20, 22, 24, 28, 30].forEach((off, j) => v.setUint16(off, chunk[j], true));
+    entries.push(e);
+  }
+  return entries;
+}
+
+// Build a FAT12/16 filesystem image from { path, bytes } files — the vfat counterpart of
+// buildIso9660 for firmware and cloud-init builds that look for a labelled FAT disk.
+// FAT12 is used below 4085 clusters, FAT16 above; both carry VFAT long names.
+export function buildVfat({ label = "NO NAME", files, timestamp }: { label?: string; files: ImageFile[]; timestamp?: Timestamp }): Uint8Array {
+  if (label.length > 11) throw new Error(`FAT label '${label}' exceeds 11 characters`);
+  const created = resolveTimestamp(timestamp);
+  if (created.getUTCFullYear() < 1980 || created.getUTCFullYear() > 2107) {
+    throw new Error(`FAT timestamp out of range: ${created.toISOString()}`);
+  }
+
+  const root = { name: "", children: new Map(), isRoot: true };
+  root.parent = root;
+  for (const { path, bytes } of files) {
+    const parts = path.split("/").filter(Boolean);
+    if (parts.length === 0) throw new Error(`Invalid FAT path: '${path}'`);
+    let dir = root;
+    for (const part of parts.slice(0, -1)) {
+      let next = dir.children.get(part);
+      if (!next) {
+        next = { name: part, children: new Map(), parent: dir };
+        dir.children.set(part, next);
+      } else if (!next.children) {
+        throw new Error(`'${part}' in '${path}' is both a file and a directory`);
+      }
+      dir = next;
+    }
+    const leaf = parts[parts.length - 1];
+    if (dir.children.has(leaf)) throw new Error(`Duplicate FAT path: '${path}'`);
+    dir.children.set(leaf, { name: leaf, bytes, parent: dir });
+  }
+
+  // Directory entries (names only — clusters are patched in once allocated)
+  const dirs = [];
+  const collect = (dir) => {
+    dirs.push(dir);
+    const taken = new Set();
+    dir.entryCount = (dir.isRoot ? 1 : 2);
+    for (const child of dir.children.values()) {
+      Object.assign(child, shortName(child.name, taken));
+      child.lfn = child.needsLfn ? lfnEntries(child.name, child.short) : [];
+      dir.entryCount += child.lfn.length + 1;
+      if (child.children) collect(child);
+    }
+  };
+  collect(root);
+  if (root.entryCount > FAT_ROOT_ENTRIES) throw new Error(`Too many entries for the FAT root directory (${root.entryCount} > ${FAT_ROOT_ENTRIES})`);
+
+  // Pick cluster size and FAT type, then grow the volume to at least FAT_MIN_SECTORS
+  const rootDirSectors = (FAT_ROOT_ENTRIES * 32) / FAT_SECTOR;
+  let spc = 1;
+  let geometry;
+  for (;;) {
+    const clusterBytes = spc * FAT_SECTOR;
+    const needed = dirs.filter((d) => !d.isRoot).reduce((n, d) => n + Math.ceil((d.entryCount * 32) / clusterBytes), 0) +
+      files.reduce((n, f) => n + Math.ceil(f.bytes.length / clusterBytes), 0);
+    let total = FAT_RESERVED_SECTORS + rootDirSectors + needed * spc;
+    for (;;) {
+      const guess = Math.max(total, FAT_MIN_SECTORS);
+      const maxClusters = Math.floor(guess / spc);
+      const fat16 = maxClusters >= 4085;
+      const fatSectors = Math.ceil(((maxClusters + 2) * (fat16 ? 2 : 1.5)) / FAT_SECTOR);
+      const clusters = Math.floor((guess - FAT_RESERVED_SECTORS - 2 * fatSectors - rootDirSectors) / spc);
+      if (clusters >= needed && clusters > 0) {
+        geometry = { totalSectors: guess, fatSectors, clusters, fat16: clusters >= 4085 };
+        break;
+      }
+      total = guess + spc;
+    }
+    if (geometry.clusters <= 65524) break;
+    spc *= 2;
+    if (spc > 64) throw new Error("Files too large for a FAT16 image");
+  }
+  const { totalSectors, fatSectors, clusters, fat16 } = geometry;
+  const clusterBytes = spc * FAT_SECTOR;
+
+  // Allocate contiguous cluster runs: directories first, then files in tree order
+  let next = 2;
+  const fat = new Array(clusters + 2).fill(0);
+  fat[0] = fat16 ? 0xFFF8 : 0xFF8;
+  fat[1] = fat16 ? 0xFFFF : 0xFFF;
+  const eoc = fat16 ? 0xFFFF : 0xFFF;
+  const allocate = (bytes) => {
+    const count = Math.ceil(bytes / clusterBytes);
+    if (count === 0) return 0;
+    const first = next;
+    for (let i = 0; i < count; i++) fat[first + i] = i === count - 1 ? eoc : first + i + 1;
+    next += count;
+    return first;
+  };
+  for (const d of dirs) if (!d.isRoot) d.cluster = allocate(d.entryCount * 32);
+  const fileNodes = dirs.flatMap((d) => [...d.children.values()].filter((c) => !c.children));
+  for (const f of fileNodes) f.cluster = allocate(f.bytes.length);
+
+  const img = new Uint8Array(totalSectors * FAT_SECTOR);
+  const view = new DataView(img.buffer);
+
+  // Boot sector / BPB
+  img.set([0xEB, 0x3C, 0x90], 0);
+  img.set(enc.encode("MSWIN4.1"), 3);
+  view.setUint16(11, FAT_SECTOR, true);
+  img[13] = spc;
+  view.setUint16(14, FAT_RESERVED_SECTORS, true);
+  img[16] = 2;
+  view.setUint16(17, FAT_ROOT_ENTRIES, true);
+  if (totalSectors < 0x10000) view.setUint16(19, totalSectors, true);
+  else view.setUint32(32, totalSectors, true);
+  img[21] = 0xF8;
+  view.setUint16(22, fatSectors, true);
+  view.setUint16(24, 32, true); // sectors per track
+  view.setUint16(26, 64, true); // heads
+  img[36] = 0x80;
+  img[38] = 0x29;
+  view.setUint32(39, Math.floor(created.getTime() / 1000) >>> 0, true); // volume serial, derived from timestamp
+  const labelBytes = enc.encode(label.padEnd(11));
+  img.set(labelBytes, 43);
+  img.set(enc.encode(fat16 ? "FAT16   " : "FAT12   "), 54);
+  img[510] = 0x55; img[511] = 0xAA;
+
+  // FATs
+  const fatBytes = new Uint8Array(fatSectors * FAT_SECTOR);
+  for (let n = 0; n < fat.length; n++) {
+    const v = fat[n];
+    if (fat16) {
+      fatBytes[n * 2] = v & 0xFF; fatBytes[n * 2 + 1] = v >> 8;
+    } else {
+      const off = Math.floor(n * 1.5);
+      if (n % 2 === 0) {
+        fatBytes[off] = v & 0xFF;
+        fatBytes[off + 1] = (fatBytes[off + 1] & 0xF0) | ((v >> 8) & 0x0F);
+      } else {
+        fatBytes[off] = (fatBytes[off] & 0x0F) | ((v << 4) & 0xF0);
+        fatBytes[off + 1] = (v >> 4) & 0xFF;
+      }
+    }
+  }
+  for (let i = 0; i < 2; i++) img.set(fatBytes, (FAT_RESERVED_SECTORS + i * fatSectors) * FAT_SECTOR);
+
+  // Directories and file data
+  const rootOffset = (FAT_RESERVED_SECTORS + 2 * fatSectors) * FAT_SECTOR;
+  const dataOffset = rootOffset + rootDirSectors * FAT_SECTOR;
+  const clusterOffset = (c) => dataOffset + (c - 2) * clusterBytes;
+  for (const d of dirs) {
+    const entries = d.isRoot
+      ? [fatDirEntry(labelBytes, 0x08, 0, 0, created)]
+      : [
+        fatDirEntry(enc.encode(".".padEnd(11)), 0x10, d.cluster, 0, created),
+        fatDirEntry(enc.encode("..".padEnd(11)), 0x10, d.parent.isRoot ? 0 : d.parent.cluster, 0, created),
+      ];
+    for (const c of d.children.values()) {
+      entries.push(...c.lfn);
+      entries.push(c.children
+        ? fatDirEntry(c.short, 0x10, c.cluster, 0, created)
+        : fatDirEntry(c.short, 0x20, c.cluster, c.bytes.length, created));
+    }
+    img.set(concat(entries), d.isRoot ? rootOffset : clusterOffset(d.cluster));
+  }
+  for (const f of fileNodes) if (f.cluster) img.set(f.bytes, clusterOffset(f.cluster));
+  return img;
+}
+
+// cloud-init NoCloud seed as a FAT filesystem labelled CIDATA, for attaching as a raw disk
+export function makeCloudInitVfat(
+  userData: string,
+  metaData: string,
+  { networkConfig, vendorData, label = "CIDATA", timestamp }: SeedFiles & { label?: string; timestamp?: Timestamp } = {},
+): Uint8Array {
+  return buildVfat({ label, timestamp, files: noCloudFiles({ userData, metaData, networkConfig, vendorData }) });
+}
+
+// Parse a FAT12/16 image back into its label and file contents by path — the counterpart of
+// readIso9660 for vfat seeds. Long names are used where present, else the 8.3 name.
+export function readVfat(img: Uint8Array): { label: string; files: Record<string, Uint8Array> } {
+  const view = new DataView(img.buffer, img.byteOffset, img.byteLength);
+  if (img.length < FAT_SECTOR || img[510] !== 0x55 || img[511] !== 0xAA) throw new Error("Not a FAT image: no boot signature");
+  const bytesPerSector = view.getUint16(11, true);
+  const spc = img[13];
+  const reserved = view.getUint16(14, true);
+  const fatCount = img[16];
+  const rootEntries = view.getUint16(17, true);
+  const totalSectors = view.getUint16(19, true) || view.getUint32(32, true);
+  const fatSectors = view.getUint16(22, true);
+  if (!bytesPerSector || !spc || !fatSectors) throw new Error("Not a FAT12/16 image: invalid BPB");
+
+  const fatOffset = reserved * bytesPerSector;
+  const rootOffset = fatOffset + fatCount * fatSectors * bytesPerSector;
+  const dataOffset = rootOffset + Math.ceil((rootEntries * 32) / bytesPerSector) * bytesPerSector;
+  const clusterBytes = spc * bytesPerSector;
+  const fat16 = Math.floor((totalSectors * bytesPerSector - dataOffset) / clusterBytes) >= 4085;
+  const nextCluster = (c) => {
+    if (fat16) return view.getUint16(fatOffset + c * 2, true);
+    const v = view.getUint16(fatOffset + Math.floor(c * 1.5), true);
+    return c % 2 === 0 ? v & 0xFFF : v >> 4;
+  };
+  const chain = (first, size) => {
+    const out = new Uint8Array(size);
+    const seen = new Set();
+    for (let c = first, off = 0; c >= 2 && c < (fat16 ? 0xFFF8 : 0xFF8) && off < size; c = nextCluster(c), off += clusterBytes) {
+      if (seen.has(c)) throw new Error(`FAT cluster loop at ${c}`);
+      seen.add(c);
+      const start = dataOffset + (c - 2) * clusterBytes;
+      out.set(img.subarray(start, start + Math.min(clusterBytes, size - off)), off);
+    }
+    return out;
+  };
+
+  let label = "";
+  const files = {};
+  const walk = (entries, path) => {
+    let lfn = [];
+    for (let off = 0; off + 32 <= entries.length; off += 32) {
+      const e = entries.subarray(off, off + 32);
+      if (e[0] === 0) break;
+      if (e[0] === 0xE5) { lfn = []; continue; }
+      if (e[11] === 0x0F) {
+        const units = [1, 3, 5, 7, 9, 14, 16, 18, 20, 22, 24, 28, 30].map((o) => e[o] | (e[o + 1] << 8));
+        lfn.unshift(units);
+        continue;
+      }
+      const short = dec.decode(e.subarray(0, 8)).trimEnd() + (e[8] === 0x20 ? "" : "." + dec.decode(e.subarray(8, 11)).trimEnd());
+      const longUnits = lfn.flat();
+      const end = longUnits.indexOf(0);
+      const name = lfn.length ? String.fromCharCode(...(end < 0 ? longUnits : longUnits.slice(0, end))) : short;
+      lfn = [];
+      const attr = e[11];
+      if (attr & 0x08) { label = dec.decode(e.subarray(0, 11)).trimEnd(); continue; }
+      if (name === "." || name === "..") continue;
+      const cluster = e[26] | (e[27] << 8);
+      const childPath = path ? `${path}/${name}` : name;
+      if (attr & 0x10) {
+        let size = 0;
+        for (let c = cluster; c >= 2 && c < (fat16 ? 0xFFF8 : 0xFF8); c = nextCluster(c)) {
+          size += clusterBytes;
+          if (size > img.length) throw new Error(`FAT cluster loop in directory '${childPath}'`);
+        }
+        walk(chain(cluster, size), childPath);
+      } else {
+        files[childPath] = chain(cluster, (e[28] | (e[29] << 8) | (e[30] << 16) | (e[31] << 24)) >>> 0);
+      }
+    }
+  };
+  walk(img.subarray(rootOffset, rootOffset + rootEntries * 32), "");
+  return { label, files };
+}
+
+// Hex SHA-256 of an image — stable across runs given a fixed timestamp, so it can be stored
+// and compared to tell whether a VM's seed needs regenerating
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+  return [...digest].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// --- Reader ---
+
+const u32le = (buf, off) => (buf[off] | buf[off + 1] << 8 | buf[off + 2] << 16 | buf[off + 3] << 24) >>> 0;
+
+function ucs2beDecode(bytes) {
+  let s = "";
+  for (let i = 0; i + 1 < bytes.length; i += 2) s += String.fromCharCode(bytes[i] << 8 | bytes[i + 1]);
+  return s;
+}
+
+function parseSusp(iso, su, depth = 0) {
+  const entries = [];
+  let off = 0;
+  while (off + 4 <= su.length) {
+    const sig = dec.decode(su.subarray(off, off + 2));
+    const len = su[off + 2];
+    if (len < 4 || off + len > su.length) break;
+    const data = su.subarray(off + 4, off + len);
+    if (sig === "ST") break;
+    if (sig === "CE" && depth < 8) {
+      const start = u32le(data, 0) * SECTOR + u32le(data, 8);
+      entries.push(...parseSusp(iso, iso.subarray(start, start + u32le(data, 16)), depth + 1));
+    } else {
+      entries.push({ sig, data });
+    }
+    off += len;
+  }
+  return entries;
+}
+
+function readDirectory(iso, lba, size) {
+  const records = [];
+  const base = lba * SECTOR;
+  let off = 0;
+  while (off < size) {
+    const len = iso[base + off];
+    if (len === 0) {
+      off = (Math.floor(off / SECTOR) + 1) * SECTOR;
+      continue;
+    }
+    const rec = iso.subarray(base + off, base + off + len);
+    const nameLen = rec[32];
+    const suStart = 33 + nameLen + (nameLen % 2 === 0 ? 1 : 0);
+    records.push({
+      extentLba: u32le(rec, 2),
+      dataLen: u32le(rec, 10),
+      isDir: (rec[25] & 2) !== 0,
+      nameBytes: rec.subarray(33, 33 + nameLen),
+      systemUse: rec.subarray(suStart, len),
+    });
+    off += len;
+  }
+  return records;
+}
+
+type IsoEntry = { name: string; path: string; isDir: boolean; size?: number; children?: IsoEntry[] };
+
+// Parse an ISO 9660 image back into its volume metadata, directory tree and file contents.
+// Names come from Rock Ridge NM entries when present, then the Joliet tree, then the
+// primary identifiers (version suffix stripped).
+export function readIso9660(iso: Uint8Array): {
+  volumeId: string;
+  publisherId: string;
+  applicationId: string;
+  createdAt?: string;
+  rockRidge: boolean;
+  joliet: boolean;
+  tree: IsoEntry & { children: IsoEntry[] };
+  files: Record<string, Uint8Array>;
+} {
+  let pvd = null;
+  let svd = null;
+  for (let lba = 16; (lba + 1) * SECTOR <= iso.length; lba++) {
+    const vd = iso.subarray(lba * SECTOR, (lba + 1) * SECTOR);
+    if (dec.decode(vd.subarray(1, 6)) !== "CD001") break;
+    if (vd[0] === 255) break;
+    if (vd[0] === 1 && !pvd) pvd = vd;
+    if (vd[0] === 2 && vd[88] === 0x25 && vd[89] === 0x2F && [0x40, 0x43, 0x45].includes(vd[90])) svd = vd;
+  }
+  if (!pvd) throw new Error("Not an ISO 9660 image: no primary volume descriptor at LBA 16");
+
+  const rootOf = (vd) => ({ lba: u32le(vd, 156 + 2), size: u32le(vd, 156 + 10) });
+  const pvdRoot = rootOf(pvd);
+  const rootDot = readDirectory(iso, pvdRoot.lba, pvdRoot.size)[0];
+  const rockRidge = !!rootDot && rootDot.systemUse[0] === 0x53 && rootDot.systemUse[1] === 0x50 &&
+    rootDot.systemUse[4] === 0xBE && rootDot.systemUse[5] === 0xEF;
+  const useJoliet = !rockRidge && !!svd;
+  const root = useJoliet ? rootOf(svd) : pvdRoot;
+
+  const nameOf = (rec) => {
+    if (rockRidge) {
+      const nm = parseSusp(iso, rec.systemUse).filter((e) => e.sig === "NM");
+      if (nm.length) return nm.map((e) => dec.decode(e.data.subarray(1))).join("");
+    }
+    const raw = useJoliet ? ucs2beDecode(rec.nameBytes) : dec.decode(rec.nameBytes);
+    return raw.replace(/;\d+$/, "").replace(/\.$/, "");
+  };
+
+  const files = {};
+  const visited = new Set();
+  const walk = (lba, size, path) => {
+    if (visited.has(lba)) throw new Error(`Directory loop detected at LBA ${lba}`);
+    visited.add(lba);
+    const children = [];
+    for (const rec of readDirectory(iso, lba, size).slice(2)) {
+      const name = nameOf(rec);
+      const childPath = path ? `${path}/${name}` : name;
+      if (rec.isDir) {
+        children.push({ name, path: childPath, isDir: true, children: walk(rec.extentLba, rec.dataLen, childPath) });
+      } else {
+        const start = rec.extentLba * SECTOR;
+        files[childPath] = iso.slice(start, start + rec.dataLen);
+        children.push({ name, path: childPath, isDir: false, size: rec.dataLen });
+      }
+    }
+    return children;
+  };
+  const tree = { name: "", path: "", isDir: true, children: walk(root.lba, root.size, "") };
+
+  const text = (off, len) => (useJoliet ? ucs2beDecode(svd.subarray(off, off + len)) : dec.decode(pvd.subarray(off, off + len)))
+    .replace(/[\s\0]+$/, "");
+  const d = dec.decode(pvd.subarray(813, 829));
+  const createdAt = /^\d{16}$/.test(d) && d !== "0000000000000000"
+    ? new Date(Date.UTC(+d.slice(0, 4), +d.slice(4, 6) - 1, +d.slice(6, 8), +d.slice(8, 10), +d.slice(10, 12), +d.slice(12, 14), +d.slice(14, 16) * 10)).toISOString()
+    : undefined;
+  return {
+    volumeId: text(40, 32),
+    publisherId: text(318, 128),
+    applicationId: text(574, 128),
+    createdAt,
+    rockRidge,
+    joliet: !!svd,
+    tree,
+    files,
+  };
+}
+
+async function readRemoteFile(remote) {
+  const keyFile = await setupKeyFile(remote.sshPrivateKey);
+  try {
+    return (await runSsh(keyFile, remote.sshUser, remote.sshHost, `cat ${shellQuote(remote.path)}`, { raw: true })).stdout;
+  } finally {
+    await cleanupKeyFile(keyFile);
+  }
+}
+
+const IsoMetadataArgs = {
+  timestamp: z.union([z.string(), z.number()]).optional()
+    .describe("Creation time as ISO 8601 or seconds since epoch (default: SOURCE_DATE_EPOCH, else a fixed reproducible date)"),
+  publisherId: z.string().optional().describe("Publisher identifier written to the volume descriptor"),
+  applicationId: z.string().optional().describe("Application identifier written to the volume descriptor"),
+};
+
+const isoMetadata = (args) => ({
+  timestamp: args.timestamp,
+  publisherId: args.publisherId ?? "",
+  applicationId: args.applicationId ?? "",
+});
+
+const UserDataArgs = {
+  cloudConfig: CloudConfigSchema.optional().describe("Structured cloud-config, validated and rendered as #cloud-config YAML"),
+  userDataParts: z.array(UserDataPartSchema).optional()
+    .describe("Extra user-data parts (scripts, boothooks, include-url, jinja) combined into multipart MIME"),
+};
+
+// A single user-data source is passed through as-is; several (cloudConfig, userData and any
+// userDataParts, in that order) are combined into one multipart/mixed document
+function resolveUserData({ userData, cloudConfig, userDataParts = [] }) {
+  const parts = [
+    ...(cloudConfig ? [{ type: "cloud-config", content: renderCloudConfig(cloudConfig) }] : []),
+    ...(userData != null ? [{ content: userData }] : []),
+    ...userDataParts,
+  ];
+  if (parts.length === 0) return undefined;
+  if (parts.length === 1 && userDataParts.length === 0) return parts[0].content;
+  return composeUserData(parts);
+}
+
+const InspectionSchema = z.object({
+  volumeId: z.string(),
+  publisherId: z.string().optional(),
+  applicationId: z.string().optional(),
+  createdAt: z.string().optional(),
+  sha256: z.string(),
+  rockRidge: z.boolean(),
+  joliet: z.boolean(),
+  files: z.array(z.object({
+    path: z.string(),
+    size: z.number(),
+    content: z.string().optional(),
+  })),
+  differences: z.array(z.object({
+    path: z.string(),
+    status: z.enum(["missing", "unexpected", "changed"]),
+  })).optional(),
+});
+
 export const model = {
   type: "@rjeschmi/cloud-init-iso",
   version: "2026.02.21.1",
   globalArguments: z.object({}),
+  resources: {
+    inspection: {
+      description: "Contents of an inspected ISO 9660 image, optionally diffed against expected files",
+      schema: InspectionSchema,
+      lifetime: "7d",
+      garbageCollection: 10,
+    },
+  },
   files: {
     iso: {
-      description: "cloud-init NoCloud seed ISO (ISO 9660)",
+      description: "ISO 9660 image (cloud-init NoCloud seed or generic data disc)",
+      contentType: "application/octet-stream",
+      lifetime: "7d",
+      garbageCollection: 5,
+    },
+    vfat: {
+      description: "FAT12/16 disk image (cloud-init NoCloud seed for attaching as a raw virtio disk)",
       contentType: "application/octet-stream",
       lifetime: "7d",
       garbageCollection: 5,
@@ -93,18 +951,168 @@ export const model = {
   },
   methods: {
     generate: {
-      description: "Generate a cloud-init NoCloud seed ISO from user-data and meta-data",
+      description: "Generate a cloud-init NoCloud seed (ISO or FAT image) from user-data, meta-data and optional network-config/vendor-data",
       arguments: z.object({
-        userData: z.string().describe("cloud-config user-data content"),
+        userData: z.string().optional().describe("user-data content (cloud-config, script or MIME multipart)"),
+        ...UserDataArgs,
         metaData: z.string().describe("cloud-init meta-data content"),
+        networkConfig: z.string().optional().describe("network-config content (netplan v2 or ENI v1 YAML)"),
+        vendorData: z.string().optional().describe("vendor-data content (merged under user-data by cloud-init)"),
+        rockRidge: z.boolean().optional().describe("Emit Rock Ridge (RRIP) records with case-preserving names (default true)"),
+        joliet: z.boolean().optional().describe("Also emit a Joliet directory tree for readers without Rock Ridge (default false)"),
+        volumeId: z.string().max(32).optional().describe("Volume label (default CIDATA; must match the NoCloud fs_label; at most 11 characters for vfat)"),
+        format: z.enum(["iso", "vfat"]).optional().describe("Seed image format: ISO 9660 for a cdrom, or a FAT filesystem for a raw disk (default iso)"),
+        ...IsoMetadataArgs,
       }),
       execute: async (args, context) => {
-        const isoBytes = makeCloudInitIso(args.userData, args.metaData);
-        context.logger.info(`Generated cloud-init seed ISO: ${isoBytes.length} bytes`);
+        const userData = resolveUserData(args);
+        if (userData === undefined) throw new Error("Provide userData, cloudConfig or userDataParts");
+        if (args.format === "vfat") {
+          const imgBytes = makeCloudInitVfat(userData, args.metaData, {
+            networkConfig: args.networkConfig,
+            vendorData: args.vendorData,
+            label: args.volumeId ?? "CIDATA",
+            timestamp: args.timestamp,
+          });
+          context.logger.info(`Generated cloud-init seed FAT image: ${imgBytes.length} bytes, sha256 ${await sha256Hex(imgBytes)}`);
+          const writer = await context.createFileWriter("vfat", "seed");
+          const handle = await writer.writeAll(imgBytes);
+          return { dataHandles: [handle] };
+        }
+        const isoBytes = makeCloudInitIso(userData, args.metaData, {
+          networkConfig: args.networkConfig,
+          vendorData: args.vendorData,
+          rockRidge: args.rockRidge ?? true,
+          joliet: args.joliet ?? false,
+          volumeId: args.volumeId ?? "CIDATA",
+          ...isoMetadata(args),
+        });
+        context.logger.info(`Generated cloud-init seed ISO: ${isoBytes.length} bytes, sha256 ${await sha256Hex(isoBytes)}`);
         const writer = await context.createFileWriter("iso", "seed");
         const handle = await writer.writeAll(isoBytes);
         return { dataHandles: [handle] };
       },
     },
+
+    generateConfigDrive: {
+      description: "Generate an OpenStack config drive (config-2) with meta_data.json, user_data, network_data.json and vendor_data.json",
+      arguments: z.object({
+        instanceId: z.string().describe("Instance UUID written as meta_data.json uuid (cloud-init instance-id)"),
+        hostname: z.string().describe("Hostname written to meta_data.json"),
+        publicKeys: z.record(z.string(), z.string()).optional().describe("SSH public keys by name, written as meta_data.json public_keys"),
+        metaData: z.record(z.string(), z.unknown()).optional().describe("Extra meta_data.json fields (merged over uuid/hostname)"),
+        userData: z.string().optional().describe("user_data content (cloud-config, script or MIME multipart)"),
+        ...UserDataArgs,
+        networkData: z.record(z.string(), z.unknown()).optional().describe("network_data.json document (links, networks, services)"),
+        vendorData: z.record(z.string(), z.unknown()).optional().describe("vendor_data.json document"),
+        joliet: z.boolean().optional().describe("Emit a Joliet directory tree for Windows guests (default true)"),
+        ...IsoMetadataArgs,
+      }),
+      execute: async (args, context) => {
+        const metaData = {
+          uuid: args.instanceId,
+          name: args.hostname,
+          hostname: args.hostname,
+          ...(args.publicKeys ? { public_keys: args.publicKeys } : {}),
+          ...args.metaData,
+        };
+        const isoBytes = makeConfigDrive(
+          { metaData, userData: resolveUserData(args), networkData: args.networkData, vendorData: args.vendorData },
+          { joliet: args.joliet ?? true, ...isoMetadata(args) },
+        );
+        context.logger.info(`Generated config-2 drive for '${args.hostname}': ${isoBytes.length} bytes, sha256 ${await sha256Hex(isoBytes)}`);
+        const writer = await context.createFileWriter("iso", "config-drive");
+        const handle = await writer.writeAll(isoBytes);
+        return { dataHandles: [handle] };
+      },
+    },
+
+    inspect: {
+      description: "Parse an existing ISO 9660 image (local file, base64 or remote path over SSH) and report its volume ID, tree and file contents",
+      arguments: z.object({
+        name: z.string().optional().describe("Resource name for the inspection result (default: latest)"),
+        localPath: z.string().optional().describe("Path to an ISO file on this machine"),
+        isoBase64: z.string().optional().describe("Base64-encoded ISO content"),
+        remote: z.object({
+          sshHost: z.string().describe("SSH hostname or IP holding the image"),
+          sshUser: z.string().describe("SSH username"),
+          sshPrivateKey: z.string().optional().describe("SSH private key in PEM format (omit to rely on ssh-agent or ~/.ssh/ defaults)"),
+          path: z.string().describe("Remote path, e.g. /mnt/user/domains/myvm/seed.iso"),
+        }).optional().describe("Pull the image from a remote host over SSH"),
+        expectedFiles: z.record(z.string(), z.string()).optional().describe("Intended file contents by path (e.g. user-data); differences are reported"),
+      }),
+      execute: async (args, context) => {
+        let bytes;
+        if (args.localPath) bytes = await Deno.readFile(args.localPath);
+        else if (args.isoBase64) bytes = Uint8Array.from(atob(args.isoBase64), (c) => c.charCodeAt(0));
+        else if (args.remote) bytes = await readRemoteFile(args.remote);
+        else throw new Error("inspect requires one of localPath, isoBase64 or remote");
+
+        const { volumeId, publisherId, applicationId, createdAt, rockRidge, joliet, files } = readIso9660(bytes);
+        const sha256 = await sha256Hex(bytes);
+        context.logger.info(`Volume '${volumeId}' (${bytes.length} bytes, sha256 ${sha256}, created ${createdAt ?? "unset"}, rockRidge=${rockRidge}, joliet=${joliet})`);
+
+        const utf8 = new TextDecoder("utf-8", { fatal: true });
+        const entries = Object.entries(files).map(([path, data]) => {
+          let content;
+          try { content = utf8.decode(data); } catch { content = undefined; }
+          context.logger.info(`  ${path}  ${data.length} bytes${content === undefined ? " (binary)" : ""}`);
+          return { path, size: data.length, content };
+        });
+
+        let differences;
+        if (args.expectedFiles) {
+          differences = [];
+          for (const [path, expected] of Object.entries(args.expectedFiles)) {
+            const actual = entries.find((e) => e.path === path);
+            if (!actual) differences.push({ path, status: "missing" });
+            else if (actual.content !== expected) differences.push({ path, status: "changed" });
+          }
+          for (const e of entries) {
+            if (!(e.path in args.expectedFiles)) differences.push({ path: e.path, status: "unexpected" });
+          }
+          for (const d of differences) context.logger.info(`  ${d.status}: ${d.path}`);
+          context.logger.info(differences.length ? `${differences.length} difference(s) from expected` : "Image matches expected files.");
+        }
+
+        const handle = await context.writeResource("inspection", args.name ?? "latest", {
+          volumeId, publisherId, applicationId, createdAt, sha256, rockRidge, joliet, files: entries, differences,
+        });
+        return { dataHandles: [handle] };
+      },
+    },
+
+    build: {
+      description: "Build a generic ISO 9660 image (nested directories, any number of files) to attach as a data CD-ROM",
+      arguments: z.object({
+        volumeId: z.string().max(32).describe("Volume identifier (max 32 characters)"),
+        files: z.array(z.object({
+          path: z.string().describe("Path inside the image, e.g. scripts/bootstrap.sh"),
+          content: z.string().optional().describe("UTF-8 file content"),
+          contentBase64: z.string().optional().describe("Base64-encoded file content (for binaries)"),
+        })).describe("Files to place in the image; parent directories are created implicitly"),
+        rockRidge: z.boolean().optional().describe("Emit Rock Ridge (RRIP) records with case-preserving names (default true)"),
+        joliet: z.boolean().optional().describe("Also emit a Joliet directory tree for readers without Rock Ridge (default false)"),
+        ...IsoMetadataArgs,
+      }),
+      execute: async (args, context) => {
+        const files = args.files.map((f) => {
+          if (f.contentBase64 != null) return { path: f.path, bytes: Uint8Array.from(atob(f.contentBase64), (c) => c.charCodeAt(0)) };
+          if (f.content != null) return { path: f.path, bytes: enc.encode(f.content) };
+          throw new Error(`File '${f.path}' needs content or contentBase64`);
+        });
+        const isoBytes = buildIso9660({
+          volumeId: args.volumeId,
+          files,
+          rockRidge: args.rockRidge ?? true,
+          joliet: args.joliet ?? false,
+          ...isoMetadata(args),
+        });
+        context.logger.info(`Built ISO '${args.volumeId}' with ${files.length} file(s): ${isoBytes.length} bytes, sha256 ${await sha256Hex(isoBytes)}`);
+        const writer = await context.createFileWriter("iso", "image");
+        const handle = await writer.writeAll(isoBytes);
+        return { dataHandles: [handle] };
+      },
+    },
   },
 };
@@ -0,0 +1,93 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import type { SshRunner } from "./ssh.ts";
+
+// QEMU guest agent helpers — run commands inside a guest through `virsh qemu-agent-command`,
+// so host-side operations (sealing, inspection) need no SSH access to the guest itself.
+// Every helper takes an `ssh(cmd, opts)` runner for the hypervisor host.
+
+// How long to keep polling, and how often
+type PollOptions = { timeoutMs?: number; pollMs?: number };
+
+const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
+
+function encodeBase64(text) {
+  return btoa(Array.from(new TextEncoder().encode(text), (b) => String.fromCharCode(b)).join(""));
+}
+
+function decodeBase64(b64) {
+  if (!b64) return "";
+  return new TextDecoder().decode(Uint8Array.from(atob(b64), (c) => c.charCodeAt(0)));
+}
+
+// Send one agent command and return its `return` payload. JSON from JSON.stringify never contains
+// a single quote unless the payload does, and callers only pass base64 or plain identifiers.
+export async function agentCommand(
+  ssh: SshRunner,
+  domain: string,
+  command: { execute: string; arguments?: Record<string, unknown> },
+  { allowFailure = false }: { allowFailure?: boolean } = {},
+): Promise<unknown> {
+  const res = await ssh(`virsh qemu-agent-command '${domain}' '${JSON.stringify(command)}'`, { allowFailure });
+  if (res.code !== 0) return null;
+  return JSON.parse(res.stdout).return;
+}
+
+// Poll until the agent answers guest-ping — it starts late in boot, well after the domain is "running"
+export async function waitForAgent(ssh: SshRunner, domain: string, { timeoutMs = 300_000, pollMs = 5000 }: PollOptions = {}): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (true) {
+    const res = await ssh(`virsh qemu-agent-command '${domain}' '{"execute":"guest-ping"}'`, { allowFailure: true });
+    if (res.code === 0) return;
+    if (Date.now() >= deadline) {
+      throw new Error(`Guest agent in '${domain}' did not respond within ${Math.round(timeoutMs / 1000)}s`);
+    }
+    await sleep(pollMs);
+  }
+}
+
+// Run a shell script in the guest as root and wait for it to exit. The script travels base64-encoded
+// so it needs no quoting on either the host or the guest side.
+export async function guestExec(
+  ssh: SshRunner,
+  domain: string,
+  script: string,
+  { timeoutMs = 600_000, pollMs = 2000 }: PollOptions = {},
+): Promise<{ code: number; stdout: string; stderr: string }> {
+  const started = await agentCommand(ssh, domain, {
+    execute: "guest-exec",
+    arguments: { path: "/bin/sh", arg: ["-c", `echo ${encodeBase64(script)} | base64 -d | /bin/sh`], "capture-output": true },
+  });
+  const deadline = Date.now() + timeoutMs;
+  while (true) {
+    const status = await agentCommand(ssh, domain, { execute: "guest-exec-status", arguments: { pid: started.pid } });
+    if (status.exited) {
+      return {
+        code: status.exitcode ?? (status.signal ? 128 + status.signal : 1),
+        stdout: decodeBase64(status["out-data"]).trim(),
+        stderr: decodeBase64(status["err-data"]).trim(),
+      };
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Command in '${domain}' did not finish within ${Math.round(timeoutMs / 1000)}s (guest pid ${started.pid})`);
+    }
+    await sleep(pollMs);
+  }
+}
+
+// Poll `virsh domstate` until the domain reaches `state` (e.g. "shut off")
+export async function waitForState(
+  ssh: SshRunner,
+  domain: string,
+  state: string,
+  { timeoutMs = 300_000, pollMs = 5000 }: PollOptions = {},
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (true) {
+    const res = await ssh(`virsh domstate '${domain}'`, { allowFailure: true });
+    if (res.stdout.trim() === state) return;
+    if (Date.now() >= deadline) {
+      throw new Error(`VM '${domain}' did not reach state '${state}' within ${Math.round(timeoutMs / 1000)}s (now '${res.stdout.trim()}')`);
+    }
+    await sleep(pollMs);
+  }
+}
@@ -0,0 +1,752 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import { z } from "npm:zod@4";
+
+// libvirt domain XML as data. A DomainSpec (validated by DomainSpecSchema) models the parts the
+// provision models set — disks, NICs, filesystems, channels, graphics — and buildDomainXml()
+// serializes it with every value escaped. parseDomainXml() reads `virsh dumpxml` back into the
+// same shape; elements it doesn't model (controllers, memballoon, seclabel, Hyper-V
+// enlightenments, clock timers, ...) are carried as raw XML nodes (`other`, `featuresOther`), and
+// whatever a modelled element has beyond its spec (a disk's discard mode, a NIC's boot order,
+// <vcpu cpuset>, ...) is kept in the device's or the domain's `extra` node, so parse → build
+// round-trips. Defaults only fill in a new domain: an element a parsed domain lacks (<cpu>,
+// <features>, ...) is null in the spec and stays out of the rebuilt XML. Runtime-only details
+// inside modelled devices (alias, backingStore, the tap device name, pty paths, ...) are dropped,
+// as `virsh dumpxml --inactive` would.
+
+// --- Generic XML ---
+
+const ENTITIES = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+const decodeEntities = (s) =>
+  s.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (m, e) =>
+    e[0] === "#" ? String.fromCodePoint(e[1] === "x" ? parseInt(e.slice(2), 16) : Number(e.slice(1))) : ENTITIES[e] ?? m);
+
+const escapeText = (s) => String(s).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const escapeAttr = (s) => escapeText(s).replace(/'/g, "&apos;").replace(/"/g, "&quot;");
+
+export type XmlNode = { name: string; attrs: Record<string, string>; children: XmlNode[]; text?: string };
+
+// Element node. Attributes with undefined values and falsy children are dropped, so optional
+// parts can be written inline.
+export function el(
+  name: string,
+  attrs: Record<string, unknown> = {},
+  children: Array<XmlNode | false | "" | 0 | null | undefined> = [],
+  text: unknown = undefined,
+): XmlNode {
+  const kept = {};
+  for (const [k, v] of Object.entries(attrs)) if (v !== undefined && v !== null) kept[k] = String(v);
+  const node = { name, attrs: kept, children: children.filter(Boolean) };
+  if (text !== undefined && text !== null) node.text = String(text);
+  return node;
+}
+
+// Parse an XML document into its root element. Covers what libvirt emits: declarations,
+// comments, CDATA, entities and self-closing tags; whitespace-only text is dropped.
+export function parseXml(xml: string): XmlNode {
+  const stack = [];
+  let root = null;
+  const re =
+    /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<\/\s*([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)|(<)/g;
+  for (const m of xml.matchAll(re)) {
+    const [, cdata, close, open, attrText, selfClose, text, stray] = m;
+    if (stray) throw new Error(`Malformed XML at offset ${m.index}`);
+    if (close) {
+      const node = stack.pop();
+      if (!node || node.name !== close) throw new Error(`Malformed XML: unexpected </${close}>`);
+      node.text = node.text.trim() === "" ? undefined : node.text.trim();
+      if (node.text === undefined) delete node.text;
+      if (stack.length === 0) root = node;
+    } else if (open) {
+      const attrs = {};
+      for (const [, k, dq, sq] of attrText.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attrs[k] = decodeEntities(dq ?? sq);
+      }
+      const node = { name: open, attrs, children: [], text: "" };
+      if (stack.length > 0) stack[stack.length - 1].children.push(node);
+      else if (root) throw new Error("Malformed XML: more than one root element");
+      if (selfClose) {
+        delete node.text;
+        if (stack.length === 0) root = node;
+      } else {
+        stack.push(node);
+      }
+    } else if (stack.length > 0 && (cdata !== undefined || text !== undefined)) {
+      stack[stack.length - 1].text += cdata ?? decodeEntities(text);
+    }
+  }
+  if (stack.length > 0) throw new Error(`Malformed XML: <${stack[stack.length - 1].name}> is never closed`);
+  if (!root) throw new Error("Malformed XML: no root element");
+  return root;
+}
+
+// Serialize an element with libvirt's layout: two-space indent, single-quoted attributes
+export function serializeXml(node: XmlNode, indent = ""): string {
+  const attrs = Object.entries(node.attrs ?? {}).map(([k, v]) => ` ${k}='${escapeAttr(v)}'`).join("");
+  const children = node.children ?? [];
+  if (children.length === 0) {
+    return node.text === undefined ? `${indent}<${node.name}${attrs}/>` : `${indent}<${node.name}${attrs}>${escapeText(node.text)}</${node.name}>`;
+  }
+  const inner = children.map((c) => serializeXml(c, indent + "  ")).join("\n");
+  return `${indent}<${node.name}${attrs}>\n${inner}\n${indent}</${node.name}>`;
+}
+
+const nth = (nodes, name, i) => nodes.map((n, j) => (n.name === name ? j : -1)).filter((j) => j >= 0)[i] ?? -1;
+
+// What `node` has beyond `built`, the same element rebuilt from its parsed spec: attributes and
+// text built lacks, children with no counterpart in built (whole), and what matched children have
+// beyond theirs. Children match by name and position among same-named siblings, so an empty
+// entry stands in for a matched child when a later one of the same name is kept.
+function unmodelled(node, built) {
+  const attrs = Object.fromEntries(Object.entries(node.attrs).filter(([k]) => !(k in built.attrs)));
+  const seen = {};
+  const entries = node.children.map((c) => {
+    const i = (seen[c.name] = (seen[c.name] ?? -1) + 1);
+    const match = built.children[nth(built.children, c.name, i)];
+    return { name: c.name, extra: match ? unmodelled(c, match) : c };
+  });
+  const children = [];
+  const later = new Set();
+  for (const { name, extra } of entries.reverse()) {
+    if (extra) later.add(name);
+    if (extra || later.has(name)) children.unshift(extra ?? el(name));
+  }
+  const text = built.text === undefined ? node.text : undefined;
+  if (Object.keys(attrs).length === 0 && children.length === 0 && text === undefined) return undefined;
+  return el(node.name, attrs, children, text);
+}
+
+// Merge what unmodelled() kept back into a freshly built element
+function withUnmodelled(built, extra) {
+  if (!extra) return built;
+  const children = [...built.children];
+  const seen = {};
+  for (const c of extra.children) {
+    const i = (seen[c.name] = (seen[c.name] ?? -1) + 1);
+    const j = nth(built.children, c.name, i);
+    if (j < 0) children.push(c);
+    else children[j] = withUnmodelled(built.children[j], c);
+  }
+  const attrs = { ...built.attrs };
+  for (const [k, v] of Object.entries(extra.attrs)) if (!(k in attrs)) attrs[k] = v;
+  return el(built.name, attrs, children, built.text ?? extra.text);
+}
+
+const child = (node, name) => node?.children.find((c) => c.name === name);
+const textOf = (node, name) => child(node, name)?.text;
+const int = (v) => (v === undefined ? undefined : Number(v));
+const yesNo = (v) => (v === undefined ? undefined : v === "yes" || v === "on");
+const yes = (b) => (b === undefined ? undefined : b ? "yes" : "no");
+
+// --- Domain spec ---
+
+const XmlNodeSchema: z.ZodType<XmlNode> = z.lazy(() =>
+  z.object({ name: z.string(), attrs: z.record(z.string(), z.string()), children: z.array(XmlNodeSchema), text: z.string().optional() })
+);
+
+const ExtraSchema = XmlNodeSchema.optional()
+  .describe("What the element has beyond the fields above (attributes, child elements), merged back in on build");
+
+const AddressSchema = z.record(z.string(), z.string()).describe("Device <address> attributes, kept so PCI slots stay stable");
+
+export const DiskSpecSchema = z.object({
+  type: z.enum(["file", "block"]).default("file"),
+  device: z.enum(["disk", "cdrom"]).default("disk"),
+  format: z.string().default("qcow2").describe("Driver type: qcow2, raw, ..."),
+  cache: z.string().optional(),
+  source: z.string().optional().describe("File (type file) or device (type block) path; omitted for an empty cdrom"),
+  target: z.string(),
+  bus: z.string().default("virtio"),
+  readonly: z.boolean().optional(),
+  serial: z.string().optional(),
+  bootOrder: z.number().int().min(1).optional(),
+  address: AddressSchema.optional(),
+  extra: ExtraSchema,
+});
+
+export const InterfaceSpecSchema = z.object({
+  type: z.enum(["bridge", "network", "direct"]).default("bridge"),
+  source: z.string().describe("Host bridge, libvirt network, or host device (direct)"),
+  mode: z.string().optional().describe("macvtap mode for direct interfaces, e.g. bridge"),
+  mac: z.string().regex(/^[0-9a-fA-F]{2}(:[0-9a-fA-F]{2}){5}$/).optional(),
+  model: z.string().default("virtio"),
+  vlan: z.number().int().min(1).max(4094).optional(),
+  mtu: z.number().int().min(68).optional(),
+  address: AddressSchema.optional(),
+  extra: ExtraSchema,
+});
+
+export const FilesystemSpecSchema = z.object({
+  driver: z.string().optional().describe("path (9p, the default) or virtiofs"),
+  binary: z.string().optional().describe("virtiofsd path on the host (virtiofs only)"),
+  accessmode: z.string().default("passthrough"),
+  source: z.string(),
+  target: z.string(),
+  readonly: z.boolean().optional(),
+  address: AddressSchema.optional(),
+  extra: ExtraSchema,
+});
+
+export const ChannelSpecSchema = z.object({
+  type: z.string().default("unix"),
+  targetType: z.string().default("virtio"),
+  name: z.string(),
+  extra: ExtraSchema,
+});
+
+export const GraphicsSpecSchema = z.object({
+  type: z.enum(["vnc", "spice"]).default("vnc"),
+  port: z.number().int().default(-1),
+  autoport: z.boolean().default(true),
+  websocket: z.number().int().optional(),
+  listen: z.string().optional(),
+  sharePolicy: z.string().optional(),
+  keymap: z.string().optional(),
+  passwd: z.string().optional(),
+  extra: ExtraSchema,
+});
+
+const CharDeviceSchema = z.object({
+  type: z.string().default("pty"),
+  targetType: z.string().optional(),
+  port: z.number().int().default(0),
+  extra: ExtraSchema,
+});
+
+export const DomainSpecSchema = z.object({
+  type: z.string().default("kvm"),
+  name: z.string().min(1),
+  uuid: z.string().optional(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  memoryMiB: z.number().int().min(1),
+  currentMemoryMiB: z.number().int().min(1).optional(),
+  memoryBacking: z.object({ source: z.string().optional(), access: z.string().optional() }).optional()
+    .describe("Guest RAM backing, e.g. { source: 'memfd', access: 'shared' } for virtiofs"),
+  vcpus: z.number().int().min(1),
+  currentVcpus: z.number().int().min(1).optional(),
+  os: z.object({
+    arch: z.string().default("x86_64"),
+    machine: z.string().optional(),
+    firmware: z.string().optional(),
+    loader: z.object({
+      path: z.string().optional(),
+      readonly: z.boolean().optional(),
+      type: z.string().optional(),
+      secure: z.boolean().optional(),
+    }).optional(),
+    nvram: z.object({ path: z.string().optional(), template: z.string().optional() }).optional(),
+    boot: z.array(z.string()).default(["hd"]),
+    other: z.array(XmlNodeSchema).default([]),
+  }).prefault({}),
+  features: z.record(z.string(), z.record(z.string(), z.string())).nullable().default({ acpi: {}, apic: {} })
+    .describe("Feature element name → its attributes, e.g. { acpi: {}, smm: { state: 'on' } }"),
+  featuresOther: z.array(XmlNodeSchema).default([]).describe("Features with child elements (hyperv, kvm, ...), kept verbatim"),
+  cpu: z.object({
+    mode: z.string().optional(),
+    check: z.string().optional(),
+    migratable: z.boolean().optional(),
+    topology: z.object({
+      sockets: z.number().int(),
+      dies: z.number().int().optional(),
+      cores: z.number().int(),
+      threads: z.number().int(),
+    }).optional(),
+    other: z.array(XmlNodeSchema).default([]),
+  }).nullable().prefault({ mode: "host-passthrough" }),
+  clock: z.object({
+    offset: z.string().optional(),
+    timezone: z.string().optional(),
+    adjustment: z.string().optional(),
+    basis: z.string().optional(),
+    other: z.array(XmlNodeSchema).default([]).describe("<timer> elements, kept verbatim"),
+  }).nullable().prefault({ offset: "utc" }),
+  onPoweroff: z.string().nullable().default("destroy"),
+  onReboot: z.string().nullable().default("restart"),
+  onCrash: z.string().nullable().default("restart"),
+  devices: z.object({
+    emulator: z.string().optional(),
+    disks: z.array(DiskSpecSchema).default([]),
+    filesystems: z.array(FilesystemSpecSchema).default([]),
+    interfaces: z.array(InterfaceSpecSchema).default([]),
+    serials: z.array(CharDeviceSchema).default([]),
+    consoles: z.array(CharDeviceSchema).default([]),
+    channels: z.array(ChannelSpecSchema).default([]),
+    inputs: z.array(z.object({ type: z.string(), bus: z.string().optional(), extra: ExtraSchema })).default([]),
+    tpms: z.array(z.object({
+      model: z.string().default("tpm-crb"),
+      version: z.string().default("2.0").describe("Emulated (swtpm) TPM version"),
+      extra: ExtraSchema,
+    })).default([]),
+    graphics: z.array(GraphicsSpecSchema).default([]),
+    audios: z.array(z.object({ id: z.number().int(), type: z.string(), extra: ExtraSchema })).default([]),
+    videos: z.array(z.object({
+      model: z.string().default("virtio"),
+      heads: z.number().int().optional(),
+      primary: z.boolean().optional(),
+      ram: z.number().int().optional(),
+      vram: z.number().int().optional(),
+      vgamem: z.number().int().optional(),
+      address: AddressSchema.optional(),
+      extra: ExtraSchema,
+    })).default([]),
+    other: z.array(XmlNodeSchema).default([]).describe("Devices not modelled above, kept verbatim"),
+  }).prefault({}),
+  other: z.array(XmlNodeSchema).default([]).describe("Top-level elements not modelled above, kept verbatim"),
+  extra: XmlNodeSchema.optional()
+    .describe("What the <domain> element and its modelled children (<vcpu cpuset>, <cpu match>, ...) have beyond the fields above"),
+});
+
+export type DomainSpec = z.infer<typeof DomainSpecSchema>;
+
+// --- Build ---
+
+const addressNode = (address) => address && el("address", address);
+
+export function diskNode(disk: z.input<typeof DiskSpecSchema>): XmlNode {
+  const d = DiskSpecSchema.parse(disk);
+  return withUnmodelled(el("disk", { type: d.type, device: d.device }, [
+    el("driver", { name: "qemu", type: d.format, cache: d.cache }),
+    d.source !== undefined && el("source", d.type === "block" ? { dev: d.source } : { file: d.source }),
+    el("target", { dev: d.target, bus: d.bus }),
+    d.readonly && el("readonly"),
+    d.serial !== undefined && el("serial", {}, [], d.serial),
+    d.bootOrder !== undefined && el("boot", { order: d.bootOrder }),
+    addressNode(d.address),
+  ]), d.extra);
+}
+
+const SOURCE_ATTR = { bridge: "bridge", network: "network", direct: "dev" };
+
+export function interfaceNode(nic: z.input<typeof InterfaceSpecSchema>): XmlNode {
+  const n = InterfaceSpecSchema.parse(nic);
+  return withUnmodelled(el("interface", { type: n.type }, [
+    n.mac && el("mac", { address: n.mac.toLowerCase() }),
+    el("source", { [SOURCE_ATTR[n.type]]: n.source, mode: n.mode }),
+    n.vlan !== undefined && el("vlan", {}, [el("tag", { id: n.vlan })]),
+    el("model", { type: n.model }),
+    n.mtu !== undefined && el("mtu", { size: n.mtu }),
+    addressNode(n.address),
+  ]), n.extra);
+}
+
+export function filesystemNode(fs: z.input<typeof FilesystemSpecSchema>): XmlNode {
+  const f = FilesystemSpecSchema.parse(fs);
+  return withUnmodelled(el("filesystem", { type: "mount", accessmode: f.accessmode }, [
+    f.driver && el("driver", { type: f.driver }),
+    f.binary && el("binary", { path: f.binary }),
+    el("source", { dir: f.source }),
+    el("target", { dir: f.target }),
+    f.readonly && el("readonly"),
+    addressNode(f.address),
+  ]), f.extra);
+}
+
+const charNode = (name, c) => withUnmodelled(el(name, { type: c.type }, [el("target", { type: c.targetType, port: c.port })]), c.extra);
+
+const channelNode = (c) => withUnmodelled(el("channel", { type: c.type }, [el("target", { type: c.targetType, name: c.name })]), c.extra);
+
+const inputNode = (i) => withUnmodelled(el("input", { type: i.type, bus: i.bus }), i.extra);
+
+const tpmNode = (t) => withUnmodelled(el("tpm", { model: t.model }, [el("backend", { type: "emulator", version: t.version })]), t.extra);
+
+const audioNode = (a) => withUnmodelled(el("audio", { id: a.id, type: a.type }), a.extra);
+
+const videoNode = (v) =>
+  withUnmodelled(
+    el("video", {}, [
+      el("model", { type: v.model, ram: v.ram, vram: v.vram, vgamem: v.vgamem, heads: v.heads, primary: yes(v.primary) }),
+      addressNode(v.address),
+    ]),
+    v.extra,
+  );
+
+function graphicsNode(g) {
+  return withUnmodelled(el("graphics", {
+    type: g.type,
+    port: g.port,
+    autoport: yes(g.autoport),
+    websocket: g.websocket,
+    listen: g.listen,
+    sharePolicy: g.sharePolicy,
+    keymap: g.keymap,
+    passwd: g.passwd,
+  }, [g.listen && el("listen", { type: "address", address: g.listen })]), g.extra);
+}
+
+export function domainNode(spec: z.input<typeof DomainSpecSchema>): XmlNode {
+  const s = DomainSpecSchema.parse(spec);
+  const dev = s.devices;
+  return withUnmodelled(el("domain", { type: s.type }, [
+    el("name", {}, [], s.name),
+    s.uuid && el("uuid", {}, [], s.uuid),
+    s.title && el("title", {}, [], s.title),
+    s.description && el("description", {}, [], s.description),
+    el("memory", { unit: "MiB" }, [], s.memoryMiB),
+    el("currentMemory", { unit: "MiB" }, [], s.currentMemoryMiB ?? s.memoryMiB),
+    s.memoryBacking && el("memoryBacking", {}, [
+      s.memoryBacking.source && el("source", { type: s.memoryBacking.source }),
+      s.memoryBacking.access && el("access", { mode: s.memoryBacking.access }),
+    ]),
+    el("vcpu", { placement: "static", current: s.currentVcpus }, [], s.vcpus),
+    el("os", { firmware: s.os.firmware }, [
+      el("type", { arch: s.os.arch, machine: s.os.machine }, [], "hvm"),
+      s.os.loader && el("loader", {
+        readonly: yes(s.os.loader.readonly),
+        secure: yes(s.os.loader.secure),
+        type: s.os.loader.type,
+      }, [], s.os.loader.path),
+      s.os.nvram && el("nvram", { template: s.os.nvram.template }, [], s.os.nvram.path),
+      ...s.os.other,
+      ...s.os.boot.map((b) => el("boot", { dev: b })),
+    ]),
+    (s.features || s.featuresOther.length > 0) && el("features", {}, [
+      ...Object.entries(s.features ?? {}).map(([name, attrs]) => el(name, attrs)),
+      ...s.featuresOther,
+    ]),
+    s.cpu && el("cpu", { mode: s.cpu.mode, check: s.cpu.check, migratable: s.cpu.migratable === undefined ? undefined : s.cpu.migratable ? "on" : "off" }, [
+      s.cpu.topology && el("topology", s.cpu.topology),
+      ...s.cpu.other,
+    ]),
+    s.clock && el("clock", { offset: s.clock.offset, timezone: s.clock.timezone, adjustment: s.clock.adjustment, basis: s.clock.basis }, s.clock.other),
+    s.onPoweroff !== null && el("on_poweroff", {}, [], s.onPoweroff),
+    s.onReboot !== null && el("on_reboot", {}, [], s.onReboot),
+    s.onCrash !== null && el("on_crash", {}, [], s.onCrash),
+    el("devices", {}, [
+      dev.emulator && el("emulator", {}, [], dev.emulator),
+      ...dev.disks.map(diskNode),
+      ...dev.filesystems.map(filesystemNode),
+      ...dev.interfaces.map(interfaceNode),
+      ...dev.serials.map((c) => charNode("serial", c)),
+      ...dev.consoles.map((c) => charNode("console", c)),
+      ...dev.channels.map(channelNode),
+      ...dev.inputs.map(inputNode),
+      ...dev.tpms.map(tpmNode),
+      ...dev.graphics.map(graphicsNode),
+      ...dev.audios.map(audioNode),
+      ...dev.videos.map(videoNode),
+      ...dev.other,
+    ]),
+    ...s.other,
+  ]), s.extra);
+}
+
+export const buildDomainXml = (spec: z.input<typeof DomainSpecSchema>): string => serializeXml(domainNode(spec)) + "\n";
+
+// --- Parse ---
+
+const UNITS = { b: 1, bytes: 1, KB: 1000, k: 1024, KiB: 1024, MB: 1e6, M: 1024 ** 2, MiB: 1024 ** 2, GB: 1e9, G: 1024 ** 3, GiB: 1024 ** 3 };
+
+const toMiB = (node) => node && Math.round((Number(node.text) * (UNITS[node.attrs.unit ?? "KiB"] ?? 1024)) / 1024 ** 2);
+
+const addressOf = (node) => child(node, "address")?.attrs;
+
+export function parseDisk(node: XmlNode): Partial<z.infer<typeof DiskSpecSchema>> {
+  const source = child(node, "source");
+  return {
+    type: node.attrs.type ?? "file",
+    device: node.attrs.device ?? "disk",
+    format: child(node, "driver")?.attrs.type,
+    cache: child(node, "driver")?.attrs.cache,
+    source: source?.attrs.file ?? source?.attrs.dev,
+    target: child(node, "target")?.attrs.dev,
+    bus: child(node, "target")?.attrs.bus,
+    readonly: child(node, "readonly") ? true : undefined,
+    serial: textOf(node, "serial"),
+    bootOrder: int(child(node, "boot")?.attrs.order),
+    address: addressOf(node),
+  };
+}
+
+function parseInterface(node) {
+  const source = child(node, "source");
+  return {
+    type: node.attrs.type,
+    source: source?.attrs[SOURCE_ATTR[node.attrs.type]],
+    mode: source?.attrs.mode,
+    mac: child(node, "mac")?.attrs.address?.toLowerCase(),
+    model: child(node, "model")?.attrs.type ?? "virtio",
+    vlan: int(child(child(node, "vlan"), "tag")?.attrs.id),
+    mtu: int(child(node, "mtu")?.attrs.size),
+    address: addressOf(node),
+  };
+}
+
+function parseFilesystem(node) {
+  return {
+    driver: child(node, "driver")?.attrs.type,
+    binary: child(node, "binary")?.attrs.path,
+    accessmode: node.attrs.accessmode ?? "passthrough",
+    source: child(node, "source")?.attrs.dir,
+    target: child(node, "target")?.attrs.dir,
+    readonly: child(node, "readonly") ? true : undefined,
+    address: addressOf(node),
+  };
+}
+
+const parseChar = (node) => ({
+  type: node.attrs.type,
+  targetType: child(node, "target")?.attrs.type,
+  port: int(child(node, "target")?.attrs.port) ?? 0,
+});
+
+function parseGraphics(node) {
+  const a = node.attrs;
+  return {
+    type: a.type,
+    port: int(a.port) ?? -1,
+    autoport: a.autoport === undefined ? true : a.autoport === "yes",
+    websocket: int(a.websocket),
+    listen: a.listen ?? child(node, "listen")?.attrs.address,
+    sharePolicy: a.sharePolicy,
+    keymap: a.keymap,
+    passwd: a.passwd,
+  };
+}
+
+// Strip undefined keys so a parsed spec compares equal to one that simply omits them
+const compact = (obj) => Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined));
+
+// A device as `virsh dumpxml --inactive` shows it: what libvirt adds to a running domain's
+// devices (aliases, backing chains, tap and pty names, ...) isn't configuration to keep
+function inactiveDevice(node) {
+  const pty = node.attrs.type === "pty";
+  const children = node.children.flatMap((c) => {
+    if (c.name === "alias" || (c.name === "backingStore" && node.name === "disk")) return [];
+    if (c.name === "source" && pty) return [];
+    if (c.name === "target" && node.name === "interface" && /^(vnet|macvtap|macvlan)\d+$/.test(c.attrs.dev ?? "")) return [];
+    const attrs = { ...c.attrs };
+    if (c.name === "source") delete attrs.index;
+    if (c.name === "source" && node.name === "interface" && node.attrs.type === "network") {
+      delete attrs.portid;
+      delete attrs.bridge;
+    }
+    if (c.name === "source" && node.name === "channel" && /^\/(run|var\/lib)\/libvirt\/qemu\/channel\//.test(attrs.path ?? "")) {
+      delete attrs.path;
+    }
+    if (c.name === "target" && node.name === "channel") delete attrs.state;
+    return [{ ...c, attrs }];
+  });
+  const attrs = { ...node.attrs };
+  if (pty) delete attrs.tty;
+  return { ...node, attrs, children };
+}
+
+// Device parsers by element name, with the builder that writes the device back. A device that
+// doesn't fit its schema (a network disk, a user-mode NIC, ...) is kept raw in devices.other
+// rather than half-modelled.
+const DEVICE_PARSERS = {
+  disk: ["disks", parseDisk, (d) => ["file", "block"].includes(d.type) && d.target, diskNode],
+  filesystem: ["filesystems", parseFilesystem, (f) => f.source && f.target, filesystemNode],
+  interface: ["interfaces", parseInterface, (n) => SOURCE_ATTR[n.type] && n.source, interfaceNode],
+  serial: ["serials", parseChar, () => true, (c) => charNode("serial", CharDeviceSchema.parse(c))],
+  console: ["consoles", parseChar, () => true, (c) => charNode("console", CharDeviceSchema.parse(c))],
+  channel: [
+    "channels",
+    (n) => ({ type: n.attrs.type, targetType: child(n, "target")?.attrs.type, name: child(n, "target")?.attrs.name }),
+    (c) => c.name,
+    (c) => channelNode(ChannelSpecSchema.parse(c)),
+  ],
+  input: ["inputs", (n) => ({ type: n.attrs.type, bus: n.attrs.bus }), () => true, inputNode],
+  tpm: ["tpms", (n) => {
+    const backend = child(n, "backend")?.attrs ?? {};
+    return backend.type === "emulator" ? { model: n.attrs.model, version: backend.version } : undefined;
+  }, () => true, tpmNode],
+  graphics: ["graphics", parseGraphics, (g) => g.type === "vnc" || g.type === "spice", (g) => graphicsNode(GraphicsSpecSchema.parse(g))],
+  audio: ["audios", (n) => ({ id: int(n.attrs.id), type: n.attrs.type }), (a) => a.id !== undefined, audioNode],
+  video: ["videos", (n) => {
+    const m = child(n, "model")?.attrs ?? {};
+    return {
+      model: m.type,
+      heads: int(m.heads),
+      primary: yesNo(m.primary),
+      ram: int(m.ram),
+      vram: int(m.vram),
+      vgamem: int(m.vgamem),
+      address: addressOf(n),
+    };
+  }, (v) => v.model, videoNode],
+};
+
+const MODELLED = new Set([
+  "name", "uuid", "title", "description", "memory", "currentMemory", "vcpu", "os", "features", "cpu", "clock",
+  "on_poweroff", "on_reboot", "on_crash", "devices",
+]);
+
+// Read `virsh dumpxml` (or any domain XML) into a DomainSpec
+export function parseDomainXml(xml: string | XmlNode): DomainSpec {
+  const root = typeof xml === "string" ? parseXml(xml) : xml;
+  if (root.name !== "domain") throw new Error(`Expected a <domain> element, got <${root.name}>`);
+  const vcpu = child(root, "vcpu");
+  const os = child(root, "os");
+  const loader = child(os, "loader");
+  const nvram = child(os, "nvram");
+  const cpu = child(root, "cpu");
+  const topology = child(cpu, "topology");
+  const features = child(root, "features");
+  const clock = child(root, "clock");
+  const action = (name) => child(root, name) ? textOf(root, name) : null;
+  // Only the source/access form is modelled; hugepages and the like stay raw
+  const backing = child(root, "memoryBacking");
+  const backingModelled = backing && backing.children.every((c) => c.name === "source" || c.name === "access");
+
+  const devices = {
+    emulator: textOf(child(root, "devices"), "emulator"),
+    disks: [], filesystems: [], interfaces: [], serials: [], consoles: [], channels: [],
+    inputs: [], tpms: [], graphics: [], audios: [], videos: [], other: [],
+  };
+  for (const node of child(root, "devices")?.children ?? []) {
+    if (node.name === "emulator") continue;
+    const parser = DEVICE_PARSERS[node.name];
+    const device = parser && inactiveDevice(node);
+    const parsed = parser && parser[1](device);
+    if (parsed && parser[2](parsed)) {
+      const spec = compact(parsed);
+      devices[parser[0]].push(compact({ ...spec, extra: unmodelled(device, parser[3](spec)) }));
+    } else devices.other.push(node);
+  }
+
+  const spec = DomainSpecSchema.parse(compact({
+    type: root.attrs.type,
+    name: textOf(root, "name"),
+    uuid: textOf(root, "uuid"),
+    title: textOf(root, "title"),
+    description: textOf(root, "description"),
+    memoryMiB: toMiB(child(root, "memory")),
+    currentMemoryMiB: toMiB(child(root, "currentMemory")),
+    memoryBacking: backingModelled
+      ? compact({ source: child(backing, "source")?.attrs.type, access: child(backing, "access")?.attrs.mode })
+      : undefined,
+    vcpus: int(vcpu?.text),
+    currentVcpus: int(vcpu?.attrs.current),
+    os: compact({
+      arch: child(os, "type")?.attrs.arch,
+      machine: child(os, "type")?.attrs.machine,
+      firmware: os?.attrs.firmware,
+      loader: loader && compact({
+        path: loader.text,
+        readonly: yesNo(loader.attrs.readonly),
+        type: loader.attrs.type,
+        secure: yesNo(loader.attrs.secure),
+      }),
+      nvram: nvram && compact({ path: nvram.text, template: nvram.attrs.template }),
+      boot: (os?.children ?? []).filter((c) => c.name === "boot").map((c) => c.attrs.dev),
+      other: (os?.children ?? []).filter((c) => !["type", "loader", "nvram", "boot"].includes(c.name)),
+    }),
+    features: features
+      ? Object.fromEntries(features.children.filter((f) => f.children.length === 0).map((f) => [f.name, f.attrs]))
+      : null,
+    featuresOther: features?.children.filter((f) => f.children.length > 0),
+    cpu: cpu
+      ? compact({
+        mode: cpu.attrs.mode,
+        check: cpu.attrs.check,
+        migratable: yesNo(cpu.attrs.migratable),
+        topology: topology && compact({
+          sockets: int(topology.attrs.sockets),
+          dies: int(topology.attrs.dies),
+          cores: int(topology.attrs.cores),
+          threads: int(topology.attrs.threads),
+        }),
+        other: cpu.children.filter((c) => c.name !== "topology"),
+      })
+      : null,
+    clock: clock
+      ? compact({
+        offset: clock.attrs.offset,
+        timezone: clock.attrs.timezone,
+        adjustment: clock.attrs.adjustment,
+        basis: clock.attrs.basis,
+        other: clock.children,
+      })
+      : null,
+    onPoweroff: action("on_poweroff"),
+    onReboot: action("on_reboot"),
+    onCrash: action("on_crash"),
+    devices,
+    other: root.children.filter((c) => !MODELLED.has(c.name) && !(c === backing && backingModelled)),
+  }));
+  // Devices carry their own extras; the live domain id is runtime-only like their aliases
+  const { id: _id, ...attrs } = root.attrs;
+  const withoutDevices = (node) => ({ ...node, children: node.children.map((c) => (c.name === "devices" ? el("devices") : c)) });
+  const extra = unmodelled(withoutDevices({ ...root, attrs }), withoutDevices(domainNode(spec)));
+  return extra ? { ...spec, extra } : spec;
+}
+
+// --- Cloud-init VM preset ---
+
+type CloudInitDomainOptions = {
+  name: string;
+  uuid?: string;
+  cpus: number;
+  memoryMiB: number;
+  machine?: string;
+  emulator?: string;
+  diskPath: string;
+  seedPath: string;
+  seedFormat?: "iso" | "vfat";
+  mounts?: { hostPath: string; tag: string; driver?: string }[];
+  interfaces?: z.input<typeof InterfaceSpecSchema>[];
+  vncListen?: string;
+  uefi?: { code?: string; vars?: string; secure?: boolean; nvram?: string } | null;
+  tpm?: boolean;
+  virtiofsd?: string;
+};
+
+// The domain both provision models define: q35 KVM guest with host-passthrough CPU, the qcow2
+// overlay on vda, the seed (read-only SATA cdrom for ISO, raw virtio disk for FAT), the NICs
+// (default one virtio NIC on br0), VNC, serial console, guest agent channel and 9p shares.
+// `uefi` ({ code, vars, secure, nvram }) swaps SeaBIOS for OVMF with the VM's own NVRAM file;
+// Secure Boot also needs SMM. `tpm` adds an emulated TPM 2.0. virtiofs mounts run `virtiofsd`
+// and need guest RAM in shared memory.
+export function cloudInitDomain({
+  name, uuid, cpus, memoryMiB, machine, emulator, diskPath, seedPath, seedFormat = "iso", mounts = [],
+  interfaces = [{ type: "bridge", source: "br0" }], vncListen = "0.0.0.0", uefi = null, tpm = false, virtiofsd,
+}: CloudInitDomainOptions): DomainSpec {
+  const virtiofs = mounts.some((m) => m.driver === "virtiofs");
+  return DomainSpecSchema.parse({
+    name,
+    uuid,
+    memoryMiB,
+    currentMemoryMiB: memoryMiB,
+    ...(virtiofs ? { memoryBacking: { source: "memfd", access: "shared" } } : {}),
+    vcpus: cpus,
+    os: {
+      arch: "x86_64",
+      machine,
+      ...(uefi
+        ? {
+          loader: { path: uefi.code, readonly: true, type: "pflash", ...(uefi.secure ? { secure: true } : {}) },
+          nvram: { path: uefi.nvram, template: uefi.vars },
+        }
+        : {}),
+      boot: ["hd"],
+    },
+    features: { acpi: {}, apic: {}, ...(uefi?.secure ? { smm: { state: "on" } } : {}) },
+    cpu: { mode: "host-passthrough", check: "none", migratable: true },
+    devices: {
+      emulator,
+      disks: [
+        { device: "disk", format: "qcow2", cache: "writeback", source: diskPath, target: "vda", bus: "virtio" },
+        seedFormat === "vfat"
+          ? { device: "disk", format: "raw", source: seedPath, target: "vdb", bus: "virtio" }
+          : { device: "cdrom", format: "raw", source: seedPath, target: "sda", bus: "sata", readonly: true },
+      ],
+      filesystems: mounts.map((m) =>
+        m.driver === "virtiofs"
+          ? { driver: "virtiofs", binary: virtiofsd, accessmode: "passthrough", source: m.hostPath, target: m.tag }
+          : { accessmode: "passthrough", source: m.hostPath, target: m.tag }
+      ),
+      interfaces,
+      serials: [{ type: "pty", targetType: "isa-serial", port: 0 }],
+      consoles: [{ type: "pty", targetType: "serial", port: 0 }],
+      channels: [{ type: "unix", targetType: "virtio", name: "org.qemu.guest_agent.0" }],
+      inputs: [{ type: "tablet", bus: "usb" }, { type: "mouse", bus: "ps2" }, { type: "keyboard", bus: "ps2" }],
+      tpms: tpm ? [{ model: "tpm-crb", version: "2.0" }] : [],
+      graphics: [{ type: "vnc", port: -1, autoport: true, websocket: -1, listen: vncListen, sharePolicy: "ignore" }],
+      audios: [{ id: 1, type: "none" }],
+      videos: [{ model: "virtio", heads: 1, primary: true }],
+    },
+  });
+}
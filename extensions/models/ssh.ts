@@ -0,0 +1,81 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+// Running commands on a host over SSH, for the models that manage one. Helper modules don't
+// call runSsh directly; they take an `ssh(cmd, opts)` runner built from it.
+
+const dec = new TextDecoder();
+
+// A single-quoted shell word for `s`, whatever it contains
+export const shellQuote = (s: string): string => `'${s.replace(/'/g, "'\\''")}'`;
+
+// Write a private key to a temp file and return the path, or return null if no key provided.
+// Caller must clean up with cleanupKeyFile().
+export async function setupKeyFile(privateKey?: string): Promise<string | null> {
+  if (!privateKey) return null;
+  const path = await Deno.makeTempFile({ prefix: ".swamp-ssh-" });
+  const content = privateKey.endsWith("\n") ? privateKey : privateKey + "\n";
+  await Deno.writeTextFile(path, content, { mode: 0o600 });
+  return path;
+}
+
+export async function cleanupKeyFile(path: string | null) {
+  if (path) await Deno.remove(path).catch(() => {});
+}
+
+// `input` (bytes, or a stream for files too large to hold in memory) is fed to the command's
+// stdin; `raw` returns stdout as bytes instead of trimmed text
+export type SshOptions = {
+  allowFailure?: boolean;
+  input?: Uint8Array | ReadableStream<Uint8Array> | null;
+  raw?: boolean;
+};
+
+export type SshResult = { stdout: string | Uint8Array; stderr: string; code: number };
+
+// The `ssh(cmd, opts)` runner helper modules take: runSsh bound to one key, user and host
+export type SshRunner = (command: string, opts?: SshOptions) => Promise<SshResult>;
+
+export async function runSsh(
+  keyFile: string | null,
+  user: string,
+  host: string,
+  command: string,
+  { allowFailure = false, input = null, raw = false }: SshOptions = {},
+): Promise<SshResult> {
+  const keyArgs = keyFile ? ["-i", keyFile] : [];
+  const proc = new Deno.Command("ssh", {
+    args: [
+      ...keyArgs,
+      "-o", "StrictHostKeyChecking=no",
+      "-o", "UserKnownHostsFile=/dev/null",
+      "-o", "BatchMode=yes",
+      "-o", "ConnectTimeout=15",
+      `${user}@${host.replace(/\.$/, "")}`,
+      command,
+    ],
+    stdin: input ? "piped" : "null",
+    stdout: "piped",
+    stderr: "piped",
+  });
+
+  let result;
+  if (input instanceof ReadableStream) {
+    const child = proc.spawn();
+    await input.pipeTo(child.stdin);
+    result = await child.output();
+  } else if (input) {
+    const child = proc.spawn();
+    const writer = child.stdin.getWriter();
+    await writer.write(input);
+    await writer.close();
+    result = await child.output();
+  } else {
+    result = await proc.output();
+  }
+  const stdout = raw ? result.stdout : dec.decode(result.stdout).trim();
+  const stderr = dec.decode(result.stderr).trim();
+
+  if (!allowFailure && result.code !== 0) {
+    throw new Error(`SSH failed (exit ${result.code}):\n$ ${command}\nstderr: ${stderr}`);
+  }
+  return { stdout, stderr, code: result.code };
+}
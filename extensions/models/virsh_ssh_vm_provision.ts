@@ -1,11 +1,42 @@
 import { z } from "npm:zod@4";
-import { makeCloudInitIso } from "./cloud_init_iso.ts";
-
-const UBUNTU_IMAGES = {
-  "24.04": "https://cloud-images.ubuntu.com/noble/current/noble-server-cloudimg-amd64.img",
-  "22.04": "https://cloud-images.ubuntu.com/jammy/current/jammy-server-cloudimg-amd64.img",
-  "20.04": "https://cloud-images.ubuntu.com/focal/current/focal-server-cloudimg-amd64.img",
-};
+import { makeCloudInitIso, makeCloudInitVfat, readIso9660, readVfat, sha256Hex } from "./cloud_init_iso.ts";
+import { ProvisionUserDataArgs, SshPublicKeySchema, UsernameSchema } from "./cloud_config.ts";
+import { ensureImage, ImageArchSchema, ImageArgs, listCachedImages, resolveImage, unusedImages } from "./cloud_images.ts";
+import { buildDomainXml, parseDomainXml } from "./libvirt_domain.ts";
+import { domainInterfaces, interfaceNetworks, NetworkArgs, networkConfigFor, NetworkSchema, resolveNetworks } from "./vm_networks.ts";
+import { domainFirmware, FirmwareArgs, firmwareProbeCommand, nvramPath, selectFirmware, undefineCommand } from "./vm_firmware.ts";
+import { MountSchema } from "./vm_mounts.ts";
+import { guestExec, waitForAgent, waitForState } from "./guest_agent.ts";
+import { cloneDiskSizeGb, customizeScript, sealScript, templatePaths, TemplateNameSchema } from "./vm_templates.ts";
+import {
+  createSnapshot,
+  CreateSnapshotArgsSchema,
+  deleteSnapshot,
+  DeleteSnapshotArgsSchema,
+  listSnapshots,
+  parseDomainDisks,
+  readSnapshot,
+  revertSnapshot,
+  RevertSnapshotArgsSchema,
+  SnapshotSchema,
+} from "./vm_snapshots.ts";
+import {
+  checkGrowth,
+  dataDiskPath,
+  dataDiskXml,
+  DiskNameSchema,
+  growFilesystemScript,
+  guestDiskPath,
+  nextDiskTarget,
+  ROOT_DEVICE,
+} from "./vm_disks.ts";
+import { applyResize } from "./vm_resize.ts";
+import { adoptedVm, adoptionWarnings, domainVm, readDomain } from "./vm_adopt.ts";
+import { DriftItemSchema, provisionDrift, readVmState } from "./vm_drift.ts";
+import { EMULATOR_PROBE, provisionVm } from "./vm_provision.ts";
+import { cleanupKeyFile, runSsh, setupKeyFile } from "./ssh.ts";
+import { cloneDomainSpec, clonePlan, cloneSeedFiles, copyDiskCommand } from "./vm_clone.ts";
+import { archiveCommand, archivePath, exportManifest, ExportManifestSchema, importDomainSpec } from "./vm_archive.ts";
 
 const GlobalArgsSchema = z.object({
   sshHost: z.string().describe("Unraid SSH hostname or IP"),
@@ -14,23 +45,77 @@ const GlobalArgsSchema = z.object({
   domainsDir: z.string().describe("VM storage base directory"),
 });
 
-const MountSchema = z.object({
-  hostPath: z.string().describe("Host path on Unraid to expose (e.g. /mnt/user/home/rob)"),
-  tag: z.string().describe("Mount tag — used as the device name when mounting inside the VM"),
-  mountPoint: z.string().optional().describe("Path inside the VM to automount via cloud-init (omit to skip)"),
-});
-
 const ProvisionArgsSchema = z.object({
   name: z.string().describe("VM name / hostname"),
   cpus: z.number().int().min(1).describe("Number of vCPUs"),
   memoryMiB: z.number().int().min(512).describe("RAM in MiB"),
   diskSizeGb: z.number().int().min(10).describe("Disk size in GB"),
-  ubuntuVersion: z.enum(["24.04", "22.04", "20.04"]).describe("Ubuntu version"),
-  sshPublicKey: z.string().describe("SSH public key to inject"),
-  username: z.string().describe("Unix username to create"),
-  mounts: z.array(MountSchema).optional().describe("Host paths to expose inside the VM via virtio-9p"),
+  ubuntuVersion: z.enum(["24.04", "22.04", "20.04"]).optional().describe("Ubuntu version (shorthand for image: ubuntu-<version>)"),
+  ...ImageArgs,
+  sshPublicKey: SshPublicKeySchema.describe("SSH public key to inject"),
+  username: UsernameSchema.describe("Unix username to create"),
+  mounts: z.array(MountSchema).optional().describe("Host paths to expose inside the VM via virtio-9p or virtiofs"),
+  ...NetworkArgs,
+  networkConfig: z.string().optional()
+    .describe("cloud-init network-config (netplan v2 or ENI v1) for static IPs or bonds; replaces the one generated from networks (omit for DHCP)"),
+  vendorData: z.string().optional().describe("cloud-init vendor-data content"),
+  ...ProvisionUserDataArgs,
+  seedFormat: z.enum(["iso", "vfat"]).optional().describe("Seed media: ISO on a SATA cdrom, or a CIDATA FAT image on a raw virtio disk (default iso)"),
+  ...FirmwareArgs,
+});
+
+const CreateTemplateArgsSchema = z.object({
+  name: z.string().describe("Provisioned VM to customize, seal and turn into a template"),
+  template: TemplateNameSchema.describe("Template name"),
+  packages: z.array(z.string()).optional().describe("Packages to install before sealing"),
+  k3sPrerequisites: z.boolean().optional().describe("Install curl/NFS/iSCSI clients, load overlay + br_netfilter, set k3s sysctls and disable swap"),
+  customize: z.array(z.string()).optional().describe("Shell commands run as root in the VM (via the guest agent) before sealing"),
+  removeUsers: z.array(UsernameSchema).optional().describe("Accounts to delete while sealing, e.g. the user the source VM was provisioned with"),
+  removeSource: z.boolean().optional().describe("Undefine the source VM and delete its directory once the template is written (default false)"),
+  timeoutSeconds: z.number().int().min(30).optional().describe("Max seconds for each of boot, customize, seal and shutdown (default 600)"),
 });
 
+const CloneFromTemplateArgsSchema = ProvisionArgsSchema
+  .omit({ ubuntuVersion: true, image: true, customImage: true, imageVerify: true })
+  .extend({
+    template: TemplateNameSchema.describe("Template to clone (see createTemplate)"),
+    diskSizeGb: z.number().int().min(1).optional().describe("Disk size in GB (default: the template's size; may not be smaller)"),
+  });
+
+const CloneArgsSchema = z.object({
+  name: z.string().describe("VM to clone"),
+  newName: z.string().describe("Name / hostname of the clone"),
+  flatten: z.boolean().optional()
+    .describe("Copy each disk into a standalone image instead of a new overlay on the source's backing file (default false)"),
+  stopSource: z.boolean().optional().describe("Shut a running source down for the copy and start it again afterwards (default false: a running source is an error)"),
+  ...NetworkArgs,
+  networkConfig: z.string().optional().describe("cloud-init network-config for the clone (default: the source's, with MACs updated)"),
+  start: z.boolean().optional().describe("Start the clone once it is defined (default true)"),
+  timeoutSeconds: z.number().int().min(30).optional().describe("Max seconds to wait for the source to shut down (default 300)"),
+});
+
+// The provision arguments a VM was created with; diskSizeGb may be left out for template clones
+const DiffArgsSchema = ProvisionArgsSchema
+  .partial({ diskSizeGb: true })
+  .extend({
+    template: TemplateNameSchema.optional().describe("Template the VM was cloned from (see cloneFromTemplate), in place of an image"),
+  });
+
+const ExportArgsSchema = z.object({
+  name: z.string().describe("VM to export"),
+  dir: z.string().optional().describe("Host directory to write the archive to (default <domainsDir>/.exports)"),
+  download: z.boolean().optional().describe("Also return the archive as an `archive` file; it is held in memory on the way, so exports over 1GiB are refused before packing (default false)"),
+  stopSource: z.boolean().optional().describe("Shut a running VM down for the export and start it again afterwards (default false: a running VM is an error)"),
+  timeoutSeconds: z.number().int().min(30).optional().describe("Max seconds to wait for the VM to shut down (default 300)"),
+});
+
+const ImportArgsSchema = z.object({
+  archive: z.string().optional().describe("Archive path on the host"),
+  localPath: z.string().optional().describe("Local archive, e.g. a downloaded export, to upload to <domainsDir>/.exports and import"),
+  name: z.string().optional().describe("Name for the imported VM (default: the name it was exported under); another name beside the source imports a copy with a new UUID and MACs"),
+  start: z.boolean().optional().describe("Start the VM once it is defined (default false)"),
+}).refine((a) => !a.archive !== !a.localPath, "Provide exactly one of archive and localPath");
+
 const DestroyArgsSchema = z.object({
   name: z.string().describe("VM name to destroy"),
   keepVm: z.boolean().optional().describe("If true, skip destruction and leave the VM running"),
@@ -42,8 +127,24 @@ const VmSchema = z.object({
   state: z.string(),
   diskPath: z.string().optional(),
   ubuntuVersion: z.string().optional(),
+  image: z.string().optional(),
+  osVariant: z.string().optional(),
   cpus: z.number().optional(),
   memoryMiB: z.number().optional(),
+  seedSha256: z.string().optional(),
+  networks: z.array(NetworkSchema).optional().describe("NICs as defined, with the MAC each was given"),
+  firmware: z.string().optional(),
+  tpm: z.boolean().optional(),
+  pendingRestart: z.boolean().optional().describe("cpus/memoryMiB are saved in the definition but need a cold boot to apply"),
+  clonedFrom: z.string().optional().describe("VM this one was cloned from"),
+  importedFrom: z.string().optional().describe("Archive this VM was imported from"),
+  disks: z.array(z.object({
+    target: z.string(),
+    device: z.string(),
+    source: z.string().optional(),
+    sizeGb: z.number().optional(),
+  })).optional().describe("Block devices as virsh domblklist reports them"),
+  adopted: z.boolean().optional().describe("Defined outside swamp and adopted; see adopt"),
 });
 
 const ResultSchema = z.object({
@@ -61,47 +162,58 @@ const VerifyResultSchema = z.object({
   passed: z.boolean(),
 });
 
-const dec = new TextDecoder();
+const CachedImageSchema = z.object({
+  file: z.string(),
+  path: z.string(),
+  sizeBytes: z.number(),
+  modifiedAt: z.string(),
+  ageDays: z.number(),
+  usedBy: z.array(z.string()),
+});
 
-// Write a private key to a temp file and return the path, or return null if no key provided.
-// Caller must clean up with cleanupKeyFile().
-async function setupKeyFile(privateKey?: string): Promise<string | null> {
-  if (!privateKey) return null;
-  const path = `/tmp/.swamp-unraid-${Date.now()}`;
-  const content = privateKey.endsWith("\n") ? privateKey : privateKey + "\n";
-  await Deno.writeTextFile(path, content, { mode: 0o600 });
-  return path;
-}
+const ImageCacheSchema = z.object({
+  cacheDir: z.string(),
+  images: z.array(CachedImageSchema),
+  refreshed: z.string().optional(),
+  removed: z.array(z.string()).optional(),
+  freedBytes: z.number().optional(),
+});
 
-async function cleanupKeyFile(path: string | null) {
-  if (path) await Deno.remove(path).catch(() => {});
-}
+const TemplateSchema = z.object({
+  name: z.string(),
+  path: z.string(),
+  sourceVm: z.string(),
+  os: z.string().optional(),
+  baseImage: z.string().optional(),
+  virtualSizeBytes: z.number(),
+  sizeBytes: z.number(),
+  createdAt: z.string(),
+});
 
-async function runSsh(keyFile, user, host, command, { allowFailure = false } = {}) {
-  const keyArgs = keyFile ? ["-i", keyFile] : [];
-  const proc = new Deno.Command("ssh", {
-    args: [
-      ...keyArgs,
-      "-o", "StrictHostKeyChecking=no",
-      "-o", "UserKnownHostsFile=/dev/null",
-      "-o", "BatchMode=yes",
-      "-o", "ConnectTimeout=15",
-      `${user}@${host.replace(/\.$/, "")}`,
-      command,
-    ],
-    stdout: "piped",
-    stderr: "piped",
-  });
+const DiskSchema = z.object({
+  vm: z.string(),
+  target: z.string(),
+  path: z.string(),
+  sizeGb: z.number(),
+  serial: z.string().optional(),
+  guestPath: z.string().optional().describe("Stable device path inside the guest"),
+  attached: z.boolean(),
+});
 
-  const result = await proc.output();
-  const stdout = dec.decode(result.stdout).trim();
-  const stderr = dec.decode(result.stderr).trim();
+const DriftReportSchema = z.object({
+  name: z.string(),
+  checkedAt: z.string(),
+  inSync: z.boolean(),
+  drift: z.array(DriftItemSchema),
+});
 
-  if (!allowFailure && result.code !== 0) {
-    throw new Error(`SSH failed (exit ${result.code}):\n$ ${command}\nstderr: ${stderr}`);
-  }
-  return { stdout, stderr, code: result.code };
-}
+const ArchiveSchema = z.object({
+  vm: z.string(),
+  path: z.string().describe("Archive path on the host"),
+  sizeBytes: z.number(),
+  createdAt: z.string(),
+  manifest: ExportManifestSchema,
+});
 
 // Write a remote file by base64-encoding content — avoids all shell escaping issues
 async function writeRemoteFile(keyFile, user, host, remotePath, content) {
@@ -109,15 +221,70 @@ async function writeRemoteFile(keyFile, user, host, remotePath, content) {
   await runSsh(keyFile, user, host, `printf '%s' '${b64}' | base64 -d > '${remotePath}'`);
 }
 
-// Write a remote binary file (Uint8Array) via base64
+// Write a remote binary file (Uint8Array) by streaming it over SSH stdin — images are too
+// large to pass base64-encoded as a single command argument
 async function writeRemoteFileBinary(keyFile, user, host, remotePath, bytes) {
-  let binary = "";
-  const chunk = 8192;
-  for (let i = 0; i < bytes.length; i += chunk) {
-    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + chunk));
+  await runSsh(keyFile, user, host, `cat > '${remotePath}'`, { input: bytes });
+}
+
+// Rebuild the seed at `from` for a copy of its VM (see cloneSeedFiles, which `options` are for)
+// and write it to `to`. Returns the new seed's sha256.
+async function rebuildCopySeed(keyFile, user, host, { from, to, format }, options) {
+  const encoded = (await runSsh(keyFile, user, host, `base64 -w0 '${from}'`)).stdout;
+  const bytes = Uint8Array.from(atob(encoded), (c) => c.charCodeAt(0));
+  const { files } = format === "vfat" ? readVfat(bytes) : readIso9660(bytes);
+  const seed = cloneSeedFiles(files, options);
+  const seedOptions = { networkConfig: seed.networkConfig, vendorData: seed.vendorData };
+  const seedBytes = format === "vfat"
+    ? makeCloudInitVfat(seed.userData, seed.metaData, seedOptions)
+    : makeCloudInitIso(seed.userData, seed.metaData, seedOptions);
+  await writeRemoteFileBinary(keyFile, user, host, to, seedBytes);
+  return await sha256Hex(seedBytes);
+}
+
+// Largest archive export returns as a file. The file writer takes the archive as one buffer,
+// so a download is held in memory whole.
+const DOWNLOAD_LIMIT_BYTES = 1024 ** 3;
+
+const tooLargeToDownload = (what, bytes) =>
+  `${what} ${Math.round(bytes / 1048576)}MiB, too large to download (limit ${DOWNLOAD_LIMIT_BYTES / 1048576}MiB); export without download and copy the archive from the host instead`;
+
+// Copying disks the guest is still writing to gives torn images, so clone and export need the VM
+// shut off. A running VM is shut down when `stopSource` allows it; returns whether it was, so
+// the caller can start it again once the copy is done.
+async function shutDownForCopy(ssh, name, { stopSource = false, timeoutSeconds = 300 }, logger) {
+  const state = (await ssh(`virsh domstate '${name}'`)).stdout.trim();
+  if (state === "shut off") return false;
+  if (state !== "running" || !stopSource) {
+    throw new Error(`VM '${name}' is ${state}; shut it down first${state === "running" ? " or pass stopSource: true" : ""}`);
+  }
+  logger.info(`Shutting down '${name}' for the copy...`);
+  await ssh(`virsh shutdown '${name}'`);
+  await waitForState(ssh, name, "shut off", { timeoutMs: timeoutSeconds * 1000 });
+  return true;
+}
+
+// The backing disk a VM's provision arguments call for, as domainDrift expects it: a template's
+// disk, or any cached version of the image
+function expectedBacking(domainsDir, args) {
+  return args.template
+    ? { path: templatePaths(domainsDir, args.template).disk }
+    : { cacheDir: `${domainsDir}/.cloud-images`, fileName: resolveImage(args).fileName };
+}
+
+// Shared by provision and cloneFromTemplate: provisionVm with the host's key, recording the vm
+// resource. `backing.vm` holds the fields saying what the disk was built from.
+async function runProvision(args, context, backing) {
+  const { sshHost, sshUser, sshPrivateKey, domainsDir } = context.globalArgs;
+  const keyFile = await setupKeyFile(sshPrivateKey);
+  try {
+    const ssh = (cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts);
+    const vm = await provisionVm(ssh, args, { vmDir: `${domainsDir}/${args.name}`, backing }, context.logger);
+    const handle = await context.writeResource("vm", args.name, { ...vm, ...backing.vm });
+    return { dataHandles: [handle] };
+  } finally {
+    await cleanupKeyFile(keyFile);
   }
-  const b64 = btoa(binary);
-  await runSsh(keyFile, user, host, `printf '%s' '${b64}' | base64 -d > '${remotePath}'`);
 }
 
 export const model = {
@@ -126,7 +293,7 @@ export const model = {
   globalArguments: GlobalArgsSchema,
   resources: {
     vm: {
-      description: "A provisioned cloud-init Ubuntu VM",
+      description: "A provisioned cloud-init VM",
       schema: VmSchema,
       lifetime: "infinite",
       garbageCollection: 10,
@@ -143,176 +310,70 @@ export const model = {
       lifetime: "infinite",
       garbageCollection: 10,
     },
+    drift: {
+      description: "Differences between a VM as it is and as its provision arguments define it",
+      schema: DriftReportSchema,
+      lifetime: "7d",
+      garbageCollection: 10,
+    },
+    imageCache: {
+      description: "Cloud images cached on the host, with the VMs using each as a backing file",
+      schema: ImageCacheSchema,
+      lifetime: "7d",
+      garbageCollection: 10,
+    },
+    template: {
+      description: "A sealed golden image that linked clones use as their backing file",
+      schema: TemplateSchema,
+      lifetime: "infinite",
+      garbageCollection: 10,
+    },
+    snapshot: {
+      description: "A libvirt snapshot of a VM, with its parent, creation time and captured state",
+      schema: SnapshotSchema,
+      lifetime: "infinite",
+      garbageCollection: 10,
+    },
+    disk: {
+      description: "A VM disk after a resize, attach or detach",
+      schema: DiskSchema,
+      lifetime: "infinite",
+      garbageCollection: 10,
+    },
+    archive: {
+      description: "A VM exported to a portable archive on the host",
+      schema: ArchiveSchema,
+      lifetime: "infinite",
+      garbageCollection: 10,
+    },
+  },
+  files: {
+    archive: {
+      description: "Exported VM archive (gzipped tar of flattened disks, seed, NVRAM, domain XML and manifest)",
+      contentType: "application/gzip",
+      lifetime: "30d",
+      garbageCollection: 5,
+    },
   },
   methods: {
     provision: {
-      description: "Provision a new Ubuntu cloud-init VM on Unraid via SSH + libvirt",
+      description: "Provision a cloud-init VM on Unraid via SSH + libvirt, or reconcile an existing one with the arguments",
       arguments: ProvisionArgsSchema,
       execute: async (args, context) => {
-        const { sshHost, sshUser, sshPrivateKey, domainsDir } = context.globalArgs;
-        const { name, cpus, memoryMiB, diskSizeGb, ubuntuVersion, sshPublicKey, username, mounts = [] } = args;
-
-        const imageUrl = UBUNTU_IMAGES[ubuntuVersion];
-        const imageName = imageUrl.split("/").pop();
+        const { domainsDir } = context.globalArgs;
+        const image = resolveImage(args);
         const cacheDir = `${domainsDir}/.cloud-images`;
-        const vmDir = `${domainsDir}/${name}`;
-
-        // Write SSH key to a temp file for the duration of this operation (null = use ssh-agent/default)
-        const keyFile = await setupKeyFile(sshPrivateKey);
-
-        const ssh = (cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts);
-
-        try {
-          context.logger.info(`Provisioning ${name}: Ubuntu ${ubuntuVersion}, ${cpus} vCPU, ${memoryMiB}MiB RAM, ${diskSizeGb}GB disk`);
-
-          // 1. Directories
-          await ssh(`mkdir -p '${cacheDir}' '${vmDir}'`);
-          context.logger.info("Directories ready.");
-
-          // 2. Download cloud image if not cached
-          const cached = await ssh(`test -f '${cacheDir}/${imageName}' && echo yes || echo no`, { allowFailure: true });
-          if (cached.stdout === "no") {
-            context.logger.info(`Downloading Ubuntu ${ubuntuVersion} cloud image (this may take a while)...`);
-            await ssh(`wget -q -O '${cacheDir}/${imageName}' '${imageUrl}' || curl -fsSL -o '${cacheDir}/${imageName}' '${imageUrl}'`);
-            context.logger.info("Download complete.");
-          } else {
-            context.logger.info("Using cached cloud image.");
-          }
-
-          // 3. Create VM disk (qcow2 backed by cached cloud image — efficient, no full copy)
-          context.logger.info(`Creating ${diskSizeGb}GB qcow2 disk...`);
-          await ssh(`qemu-img create -f qcow2 -F qcow2 -b '${cacheDir}/${imageName}' '${vmDir}/disk.qcow2' ${diskSizeGb}G`);
-
-          // 4. Build cloud-init seed ISO locally and upload — no remote tools required
-          context.logger.info("Building cloud-init seed ISO...");
-          const mountsWithPoint = mounts.filter((m) => m.mountPoint);
-          const mountsSection = mountsWithPoint.length > 0
-            ? `mounts:\n${mountsWithPoint.map((m) => `  - [${m.tag}, ${m.mountPoint}, 9p, "trans=virtio,rw,nofail", 0, 0]`).join("\n")}\n`
-            : "";
-          const mkdirCmds = mountsWithPoint.map((m) => `  - mkdir -p '${m.mountPoint}'`).join("\n");
-
-          const userData = `#cloud-config
-hostname: ${name}
-users:
-  - name: ${username}
-    ssh_authorized_keys:
-      - ${sshPublicKey}
-    sudo: ALL=(ALL) NOPASSWD:ALL
-    shell: /bin/bash
-package_update: true
-packages:
-  - qemu-guest-agent
-${mountsSection}runcmd:
-  - systemctl enable qemu-guest-agent
-  - systemctl start qemu-guest-agent
-${mkdirCmds}
-`;
-          const metaData = `instance-id: ${name}\nlocal-hostname: ${name}\n`;
-
-          const isoBytes = makeCloudInitIso(userData, metaData);
-          await writeRemoteFileBinary(keyFile, sshUser, sshHost, `${vmDir}/seed.iso`, isoBytes);
-          context.logger.info(`Seed ISO uploaded (${isoBytes.length} bytes).`);
-
-          // 5. Resolve emulator path, machine type, and generate UUID in parallel
-          context.logger.info("Resolving QEMU emulator, machine type, and UUID...");
-          const [emulatorRes, uuidRes, machineRes] = await Promise.all([
-            // Get emulator from an existing domain (most reliable — reuses what already works),
-            // falling back to the x86_64 entry in virsh capabilities
-            ssh(
-              `virsh list --all --name 2>/dev/null | grep -v '^$' | head -1 | xargs -r -I{} virsh dumpxml '{}' 2>/dev/null | grep -m1 '<emulator>' | sed 's|.*<emulator>||;s|</emulator>.*||' | grep -v '^$'` +
-              ` || virsh capabilities 2>/dev/null | awk '/x86_64/{f=1} f && /<emulator>/{sub(/.*<emulator>/,""); sub(/<\\/emulator>.*/,""); print; exit}'` +
-              ` || which qemu-system-x86_64 2>/dev/null || echo /usr/local/sbin/qemu`,
-              { allowFailure: true },
-            ),
-            ssh(`cat /proc/sys/kernel/random/uuid`),
-            ssh(`virsh capabilities 2>/dev/null | grep -o 'pc-q35-[0-9.]*' | sort -V | tail -1 || echo pc-q35-8.2`, { allowFailure: true }),
-          ]);
-
-          const emulator = emulatorRes.stdout.trim() || "/usr/local/sbin/qemu";
-          const uuid = uuidRes.stdout;
-          const machine = machineRes.stdout.trim() || "pc-q35-8.2";
-          context.logger.info(`Emulator: ${emulator}  Machine: ${machine}  UUID: ${uuid}`);
-
-          // 6. Write libvirt domain XML and define it
-          context.logger.info("Defining VM in libvirt...");
-          const domainXml = `<domain type='kvm'>
-  <name>${name}</name>
-  <uuid>${uuid}</uuid>
-  <memory unit='MiB'>${memoryMiB}</memory>
-  <currentMemory unit='MiB'>${memoryMiB}</currentMemory>
-  <vcpu placement='static'>${cpus}</vcpu>
-  <os>
-    <type arch='x86_64' machine='${machine}'>hvm</type>
-    <boot dev='hd'/>
-  </os>
-  <features><acpi/><apic/></features>
-  <cpu mode='host-passthrough' check='none' migratable='on'/>
-  <clock offset='utc'/>
-  <on_poweroff>destroy</on_poweroff>
-  <on_reboot>restart</on_reboot>
-  <on_crash>restart</on_crash>
-  <devices>
-    <emulator>${emulator}</emulator>
-    <disk type='file' device='disk'>
-      <driver name='qemu' type='qcow2' cache='writeback'/>
-      <source file='${vmDir}/disk.qcow2'/>
-      <target dev='vda' bus='virtio'/>
-    </disk>
-    <disk type='file' device='cdrom'>
-      <driver name='qemu' type='raw'/>
-      <source file='${vmDir}/seed.iso'/>
-      <target dev='sda' bus='sata'/>
-      <readonly/>
-    </disk>
-    <interface type='bridge'>
-      <source bridge='br0'/>
-      <model type='virtio'/>
-    </interface>
-    <input type='tablet' bus='usb'/>
-    <input type='mouse' bus='ps2'/>
-    <input type='keyboard' bus='ps2'/>
-    <graphics type='vnc' port='-1' autoport='yes' websocket='-1' listen='0.0.0.0' sharePolicy='ignore'>
-      <listen type='address' address='0.0.0.0'/>
-    </graphics>
-    <audio id='1' type='none'/>
-    <video>
-      <model type='virtio' heads='1' primary='yes'/>
-    </video>
-    <serial type='pty'>
-      <target type='isa-serial' port='0'/>
-    </serial>
-    <console type='pty'>
-      <target type='serial' port='0'/>
-    </console>
-    <channel type='unix'>
-      <target type='virtio' name='org.qemu.guest_agent.0'/>
-    </channel>
-${mounts.map((m) => `    <filesystem type='mount' accessmode='passthrough'>
-      <source dir='${m.hostPath}'/>
-      <target dir='${m.tag}'/>
-    </filesystem>`).join("\n")}
-  </devices>
-</domain>`;
-
-          await writeRemoteFile(keyFile, sshUser, sshHost, `${vmDir}/domain.xml`, domainXml);
-          await ssh(`virsh define '${vmDir}/domain.xml'`);
-
-          // 7. Start VM
-          context.logger.info("Starting VM...");
-          await ssh(`virsh start '${name}'`);
-
-          context.logger.info(`VM '${name}' provisioned and started. UUID: ${uuid}`);
-
-          const handle = await context.writeResource("vm", name, {
-            name, uuid, state: "RUNNING",
-            diskPath: `${vmDir}/disk.qcow2`,
-            ubuntuVersion, cpus, memoryMiB,
-          });
-
-          return { dataHandles: [handle] };
-        } finally {
-          await cleanupKeyFile(keyFile);
-        }
+        return await runProvision(args, context, {
+          expected: expectedBacking(domainsDir, args),
+          vm: { ubuntuVersion: args.ubuntuVersion, image: image.name, osVariant: image.osVariant },
+          resolve: async (ssh) => ({
+            // Fetch the cloud image into the cache (or reuse it) and verify it before use
+            path: await ensureImage(ssh, cacheDir, image, { verify: args.imageVerify ?? "checksum", logger: context.logger }),
+            format: image.format,
+            label: image.label,
+            diskSizeGb: args.diskSizeGb,
+          }),
+        });
       },
     },
 
@@ -460,6 +521,35 @@ ${mounts.map((m) => `    <filesystem type='mount' accessmode='passthrough'>
       },
     },
 
+    diff: {
+      description: "Compare a VM's definition, disk and cloud-init seed with its provision arguments and report drift",
+      arguments: DiffArgsSchema,
+      execute: async (args, context) => {
+        const { sshHost, sshUser, sshPrivateKey, domainsDir } = context.globalArgs;
+        const { name, seedFormat = "iso" } = args;
+        const vmDir = `${domainsDir}/${name}`;
+        const seedPath = `${vmDir}/${seedFormat === "vfat" ? "seed.img" : "seed.iso"}`;
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        const ssh = (cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts);
+        try {
+          const state = await readVmState(ssh, name, seedPath);
+          const { drift } = provisionDrift(state, args, { vmDir, seedPath, backing: expectedBacking(domainsDir, args) });
+
+          for (const d of drift) {
+            const values = d.expected !== undefined || d.actual !== undefined ? `  expected=${d.expected ?? "-"} actual=${d.actual ?? "-"}` : "";
+            context.logger.info(`  ${d.status.padEnd(10)} ${d.path}${values}`);
+          }
+          context.logger.info(drift.length > 0 ? `'${name}' has drifted in ${drift.length} place(s).` : `'${name}' matches its provision arguments.`);
+          const handle = await context.writeResource("drift", name, {
+            name, checkedAt: new Date().toISOString(), inSync: drift.length === 0, drift,
+          });
+          return { dataHandles: [handle] };
+        } finally {
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
     list: {
       description: "List all virtual machines defined in libvirt",
       arguments: z.object({}),
@@ -489,6 +579,735 @@ ${mounts.map((m) => `    <filesystem type='mount' accessmode='passthrough'>
       },
     },
 
+    adopt: {
+      description: "Inspect VMs defined outside swamp (e.g. in the Unraid UI) and write fully populated vm resources for them",
+      arguments: z.object({
+        name: z.string().optional().describe("VM to adopt (omit to adopt every VM libvirt has defined)"),
+      }),
+      execute: async (args, context) => {
+        const { sshHost, sshUser, sshPrivateKey } = context.globalArgs;
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        const ssh = (cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts);
+        try {
+          const names = args.name
+            ? [args.name]
+            : (await ssh(`virsh list --all --name`)).stdout.split("\n").map((n) => n.trim()).filter(Boolean);
+          const handles = [];
+          for (const name of names) {
+            const { spec, ...domain } = await readDomain(ssh, name);
+            const vm = adoptedVm(spec, domain);
+            context.logger.info(
+              `  ${name}  ${vm.state}  ${vm.cpus} vCPU  ${vm.memoryMiB}MiB  ${vm.disks.length} disk(s)  ${vm.networks.length} NIC(s)  ${vm.firmware}`,
+            );
+            for (const warning of adoptionWarnings(spec)) context.logger.info(`    ${warning}`);
+            handles.push(await context.writeResource("vm", name, vm));
+          }
+          context.logger.info(`Adopted ${handles.length} VM(s)`);
+          return { dataHandles: handles };
+        } finally {
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
+    listImages: {
+      description: "List cached cloud images with size, age and the VMs whose backing chain references them",
+      arguments: z.object({}),
+      execute: async (_args, context) => {
+        const { sshHost, sshUser, sshPrivateKey, domainsDir } = context.globalArgs;
+        const cacheDir = `${domainsDir}/.cloud-images`;
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        try {
+          const { images, errors } = await listCachedImages((cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts), domainsDir, cacheDir);
+          for (const e of errors) context.logger.info(`  warning: could not read backing chain of ${e}`);
+          for (const img of images) {
+            const mib = Math.round(img.sizeBytes / 1048576);
+            context.logger.info(`  ${img.file}  ${mib}MiB  ${img.ageDays}d  used by: ${img.usedBy.join(", ") || "-"}`);
+          }
+          const handle = await context.writeResource("imageCache", "latest", { cacheDir, images });
+          return { dataHandles: [handle] };
+        } finally {
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
+    refreshImage: {
+      description: "Fetch the current upstream version of a cloud image into the cache; older versions stay for existing overlays",
+      arguments: z.object({
+        ubuntuVersion: z.enum(["24.04", "22.04", "20.04"]).optional().describe("Ubuntu version (shorthand for image: ubuntu-<version>)"),
+        ...ImageArgs,
+        arch: ImageArchSchema.optional().describe("Image architecture (default x86_64)"),
+      }),
+      execute: async (args, context) => {
+        const { sshHost, sshUser, sshPrivateKey, domainsDir } = context.globalArgs;
+        const cacheDir = `${domainsDir}/.cloud-images`;
+        const image = resolveImage(args, args.arch);
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        const ssh = (cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts);
+        try {
+          const path = await ensureImage(ssh, cacheDir, image, { verify: args.imageVerify ?? "checksum", logger: context.logger });
+          context.logger.info(`${image.label} is current at ${path}`);
+          const { images } = await listCachedImages(ssh, domainsDir, cacheDir);
+          const handle = await context.writeResource("imageCache", "latest", { cacheDir, images, refreshed: path });
+          return { dataHandles: [handle] };
+        } finally {
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
+    gcImages: {
+      description: "Delete cached cloud images that no domain or disk uses as a backing file",
+      arguments: z.object({
+        keepLatest: z.boolean().optional().describe("Keep the newest version of each image even if unused (default true)"),
+        dryRun: z.boolean().optional().describe("Report what would be deleted without deleting it"),
+      }),
+      execute: async (args, context) => {
+        const { sshHost, sshUser, sshPrivateKey, domainsDir } = context.globalArgs;
+        const cacheDir = `${domainsDir}/.cloud-images`;
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        const ssh = (cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts);
+        try {
+          const { images, errors } = await listCachedImages(ssh, domainsDir, cacheDir);
+          // An unreadable chain could hide a user of any image — deleting anything would be a guess
+          if (errors.length > 0) {
+            throw new Error(`Refusing to garbage-collect: could not read backing chains of:\n  ${errors.join("\n  ")}`);
+          }
+          const doomed = unusedImages(images, { keepLatest: args.keepLatest ?? true });
+          const freedBytes = doomed.reduce((n, img) => n + img.sizeBytes, 0);
+          for (const img of doomed) {
+            context.logger.info(`${args.dryRun ? "Would delete" : "Deleting"} ${img.file} (${Math.round(img.sizeBytes / 1048576)}MiB, ${img.ageDays}d old)`);
+            if (!args.dryRun) await ssh(`rm -f '${img.path}' '${img.path}.sha256' '${img.path}.sha512'`);
+          }
+          // Partial downloads older than a day are abandoned, not in progress
+          if (!args.dryRun) await ssh(`find '${cacheDir}' -maxdepth 1 -name '*.part' -mmin +1440 -delete`, { allowFailure: true });
+          context.logger.info(`${doomed.length} image(s), ${Math.round(freedBytes / 1048576)}MiB ${args.dryRun ? "reclaimable" : "freed"}`);
+          const removed = doomed.map((img) => img.file);
+          const remaining = args.dryRun ? images : images.filter((img) => !removed.includes(img.file));
+          const handle = await context.writeResource("imageCache", "latest", { cacheDir, images: remaining, removed, freedBytes });
+          return { dataHandles: [handle] };
+        } finally {
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
+    createTemplate: {
+      description: "Customize and seal a provisioned VM, then flatten its disk into a read-only template for linked clones",
+      arguments: CreateTemplateArgsSchema,
+      execute: async (args, context) => {
+        const { sshHost, sshUser, sshPrivateKey, domainsDir } = context.globalArgs;
+        const { name, template } = args;
+        const paths = templatePaths(domainsDir, template);
+        const timeoutMs = (args.timeoutSeconds ?? 600) * 1000;
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        const ssh = (cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts);
+
+        // Run a script through the guest agent, surfacing its output and failing on a non-zero exit
+        const inGuest = async (step, script) => {
+          const res = await guestExec(ssh, name, script, { timeoutMs });
+          if (res.stdout) context.logger.info(res.stdout);
+          if (res.code !== 0) throw new Error(`${step} failed in '${name}' (exit ${res.code}):\n${res.stderr}`);
+          return res;
+        };
+
+        try {
+          // Clones are overlays on the template file — replacing it would corrupt every one of them
+          if ((await ssh(`test -e '${paths.disk}'`, { allowFailure: true })).code === 0) {
+            throw new Error(`Template '${template}' already exists at ${paths.disk}`);
+          }
+          const disk = (await ssh(`virsh domblklist '${name}' --details | awk '$2 == "disk" { print $4; exit }'`)).stdout.trim();
+          if (!disk) throw new Error(`VM '${name}' has no disk to template`);
+
+          // Customizing and sealing go through the guest agent, so the VM has to be up
+          if ((await ssh(`virsh domstate '${name}'`)).stdout.trim() !== "running") {
+            context.logger.info(`Starting VM '${name}'...`);
+            await ssh(`virsh start '${name}'`);
+          }
+          context.logger.info("Waiting for the guest agent...");
+          await waitForAgent(ssh, name, { timeoutMs });
+          // Let first-boot cloud-init finish so customizing doesn't race its package installs
+          const os = (await inGuest("Waiting for cloud-init", `cloud-init status --wait >/dev/null 2>&1; . /etc/os-release && echo "$PRETTY_NAME"`)).stdout;
+
+          if (args.packages?.length || args.k3sPrerequisites || args.customize?.length) {
+            context.logger.info(`Customizing ${name} (${os})...`);
+            await inGuest("Customization", customizeScript({ packages: args.packages, k3sPrerequisites: args.k3sPrerequisites, commands: args.customize }));
+          }
+          context.logger.info("Sealing: cloud-init clean, machine-id reset, SSH host keys removed...");
+          await inGuest("Sealing", sealScript({ removeUsers: args.removeUsers }));
+
+          context.logger.info("Shutting down...");
+          await ssh(`virsh shutdown '${name}'`);
+          await waitForState(ssh, name, "shut off", { timeoutMs });
+
+          // Flatten the overlay into a standalone image: clones then depend on the template alone,
+          // never on a cached cloud image that gcImages might remove
+          context.logger.info(`Writing template to ${paths.disk}...`);
+          const info = JSON.parse((await ssh(`qemu-img info -U --output=json '${disk}'`)).stdout);
+          await ssh(`mkdir -p '${paths.dir}'`);
+          await ssh(
+            `qemu-img convert -O qcow2 '${disk}' '${paths.disk}.part' || { rm -f '${paths.disk}.part'; exit 1; }; ` +
+              `chmod 444 '${paths.disk}.part' && mv '${paths.disk}.part' '${paths.disk}'`,
+          );
+          const sizeBytes = Number((await ssh(`stat -c %s '${paths.disk}'`)).stdout);
+
+          const record = {
+            name: template, path: paths.disk, sourceVm: name, os,
+            baseImage: info["backing-filename"], virtualSizeBytes: info["virtual-size"], sizeBytes,
+            createdAt: new Date().toISOString(),
+          };
+          await writeRemoteFile(keyFile, sshUser, sshHost, paths.meta, JSON.stringify(record, null, 2) + "\n");
+
+          if (args.removeSource) {
+            await ssh(undefineCommand(name));
+            await ssh(`rm -rf '${domainsDir}/${name}'`);
+            context.logger.info(`Source VM '${name}' removed.`);
+          }
+
+          context.logger.info(`Template '${template}' ready (${Math.round(sizeBytes / 1048576)}MiB).`);
+          const handle = await context.writeResource("template", template, record);
+          return { dataHandles: [handle] };
+        } finally {
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
+    cloneFromTemplate: {
+      description: "Provision a new cloud-init VM as a linked-clone qcow2 overlay of a template",
+      arguments: CloneFromTemplateArgsSchema,
+      execute: async (args, context) => {
+        const { domainsDir } = context.globalArgs;
+        const paths = templatePaths(domainsDir, args.template);
+        return await runProvision(args, context, {
+          expected: expectedBacking(domainsDir, args),
+          vm: { image: `template:${args.template}` },
+          resolve: async (ssh) => {
+            const res = await ssh(`cat '${paths.meta}'`, { allowFailure: true });
+            if (res.code !== 0) throw new Error(`Template '${args.template}' not found (no ${paths.meta})`);
+            const tpl = JSON.parse(res.stdout);
+            return {
+              path: paths.disk,
+              format: "qcow2",
+              label: `template ${args.template}${tpl.os ? ` (${tpl.os})` : ""}`,
+              diskSizeGb: cloneDiskSizeGb(tpl.virtualSizeBytes, args.diskSizeGb),
+            };
+          },
+        });
+      },
+    },
+
+    clone: {
+      description: "Copy a VM's disks (flattened or as new overlays) into a new VM with its own name, UUID, MACs and cloud-init instance",
+      arguments: CloneArgsSchema,
+      execute: async (args, context) => {
+        const { sshHost, sshUser, sshPrivateKey, domainsDir } = context.globalArgs;
+        const { name, newName, flatten = false, networks, networkConfig, start = true } = args;
+        const sourceDir = `${domainsDir}/${name}`;
+        const targetDir = `${domainsDir}/${newName}`;
+        const nics = networks ? resolveNetworks(networks) : undefined;
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        const ssh = (cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts);
+        let restartSource = false;
+        let created = false;
+        let defined = false;
+        try {
+          if ((await ssh(`virsh dominfo '${newName}'`, { allowFailure: true })).code === 0) throw new Error(`VM '${newName}' already exists`);
+          if ((await ssh(`test -e '${targetDir}'`, { allowFailure: true })).code === 0) throw new Error(`${targetDir} already exists`);
+
+          const source = parseDomainXml((await ssh(`virsh dumpxml '${name}' --inactive`)).stdout);
+          const plan = clonePlan(source, { sourceDir, targetDir });
+
+          restartSource = await shutDownForCopy(ssh, name, args, context.logger);
+
+          await ssh(`mkdir '${targetDir}'`);
+          created = true;
+          const diskPaths = {};
+          for (const copy of plan.copies) {
+            const info = JSON.parse((await ssh(`qemu-img info -U --output=json '${copy.from}'`)).stdout);
+            const backing = info["full-backing-filename"]
+              ? { path: info["full-backing-filename"], format: info["backing-filename-format"] ?? "qcow2" }
+              : null;
+            context.logger.info(`Copying ${copy.target} to ${copy.to}${backing && !flatten ? ` (overlay on ${backing.path})` : ""}...`);
+            await ssh(copyDiskCommand(copy, { backing, flatten }));
+            diskPaths[copy.from] = copy.to;
+          }
+          // The source's NVRAM carries its boot entries; a VM that never booted only has the template
+          const nvram = source.os.nvram && nvramPath(targetDir);
+          if (nvram) await ssh(`cp '${source.os.nvram.path}' '${nvram}' 2>/dev/null || cp '${source.os.nvram.template}' '${nvram}'`);
+
+          if (restartSource) {
+            context.logger.info(`Starting '${name}' again...`);
+            await ssh(`virsh start '${name}'`);
+            restartSource = false;
+          }
+
+          const uuid = (await ssh(`cat /proc/sys/kernel/random/uuid`)).stdout.trim();
+          if (plan.seed) diskPaths[plan.seed.from] = plan.seed.to;
+          const { spec, macs } = cloneDomainSpec(source, {
+            name: newName, uuid, diskPaths, nvram, interfaces: nics ? domainInterfaces(nics) : undefined,
+          });
+
+          // A new instance-id makes cloud-init run again on the clone's first boot
+          let seedSha256;
+          if (plan.seed) {
+            seedSha256 = await rebuildCopySeed(keyFile, sshUser, sshHost, plan.seed, {
+              name: newName, macs, networkConfig: networkConfig ?? (nics ? networkConfigFor(nics) : undefined),
+            });
+            context.logger.info(`Seed rebuilt at ${plan.seed.to} (sha256 ${seedSha256}).`);
+          } else {
+            context.logger.info(`No cloud-init seed in ${sourceDir}; the clone keeps the source's hostname and instance-id.`);
+          }
+
+          await writeRemoteFile(keyFile, sshUser, sshHost, `${targetDir}/domain.xml`, buildDomainXml(spec));
+          await ssh(`virsh define '${targetDir}/domain.xml'`);
+          defined = true;
+          if (start) await ssh(`virsh start '${newName}'`);
+          const state = (await ssh(`virsh domstate '${newName}'`)).stdout.trim();
+          context.logger.info(`VM '${newName}' cloned from '${name}' (${state}). UUID: ${uuid}`);
+
+          const handle = await context.writeResource("vm", newName, {
+            name: newName, uuid, state,
+            diskPath: plan.copies[0]?.to,
+            cpus: spec.vcpus, memoryMiB: spec.memoryMiB, seedSha256,
+            networks: nics ?? interfaceNetworks(spec.devices.interfaces),
+            firmware: domainFirmware(spec),
+            tpm: spec.devices.tpms.length > 0,
+            clonedFrom: name,
+          });
+          return { dataHandles: [handle] };
+        } catch (err) {
+          // Until the domain is defined, the clone's directory is all there is to undo
+          if (created && !defined) await ssh(`rm -rf '${targetDir}'`, { allowFailure: true });
+          throw err;
+        } finally {
+          if (restartSource) await ssh(`virsh start '${name}'`, { allowFailure: true });
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
+    export: {
+      description: "Package a VM — flattened disks, seed, NVRAM, domain XML and a manifest — into a portable archive",
+      arguments: ExportArgsSchema,
+      execute: async (args, context) => {
+        const { sshHost, sshUser, sshPrivateKey, domainsDir } = context.globalArgs;
+        const { name } = args;
+        const date = new Date();
+        const archive = archivePath(args.dir ?? `${domainsDir}/.exports`, name, date);
+        const stagingDir = `${archive}.staging`;
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        const ssh = (cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts);
+        let restartSource = false;
+        let staged = false;
+        try {
+          const xml = (await ssh(`virsh dumpxml '${name}' --inactive`)).stdout;
+          const spec = parseDomainXml(xml);
+          const plan = clonePlan(spec, { sourceDir: `${domainsDir}/${name}`, targetDir: stagingDir });
+          restartSource = await shutDownForCopy(ssh, name, args, context.logger);
+
+          await ssh(`mkdir -p '${stagingDir}'`);
+          staged = true;
+          // Flattened disks carry no backing file, so the archive imports on hosts without our image cache
+          const sizes = {};
+          for (const copy of plan.copies) {
+            context.logger.info(`Flattening ${copy.target} (${copy.from})...`);
+            await ssh(copyDiskCommand(copy, { flatten: true }));
+            sizes[copy.target] = JSON.parse((await ssh(`qemu-img info --output=json '${copy.to}'`)).stdout)["virtual-size"];
+          }
+          if (plan.seed) await ssh(`cp '${plan.seed.from}' '${plan.seed.to}'`);
+          const nvram = spec.os.nvram && nvramPath(stagingDir);
+          if (nvram) await ssh(`cp '${spec.os.nvram.path}' '${nvram}' 2>/dev/null || cp '${spec.os.nvram.template}' '${nvram}'`);
+
+          if (restartSource) {
+            context.logger.info(`Starting '${name}' again...`);
+            await ssh(`virsh start '${name}'`);
+            restartSource = false;
+          }
+
+          const manifest = exportManifest(spec, plan, { firmware: domainFirmware(spec), sizes, nvram, date });
+          if (args.download) {
+            // Packing takes about as long as flattening did, so a download that can't fit stops here
+            const stagedBytes = Number((await ssh(`du -sb '${stagingDir}' | cut -f1`)).stdout);
+            if (stagedBytes > DOWNLOAD_LIMIT_BYTES) throw new Error(tooLargeToDownload(`The files to pack for '${name}' are`, stagedBytes));
+          }
+          await writeRemoteFile(keyFile, sshUser, sshHost, `${stagingDir}/domain.xml`, xml + "\n");
+          await writeRemoteFile(keyFile, sshUser, sshHost, `${stagingDir}/manifest.json`, JSON.stringify(manifest, null, 2) + "\n");
+          context.logger.info(`Packing ${archive}...`);
+          await ssh(archiveCommand(manifest, { stagingDir, archive }));
+          const sizeBytes = Number((await ssh(`stat -c %s '${archive}'`)).stdout);
+          context.logger.info(`Exported '${name}' to ${archive} (${Math.round(sizeBytes / 1048576)}MiB).`);
+
+          const handles = [
+            await context.writeResource("archive", name, { vm: name, path: archive, sizeBytes, createdAt: date.toISOString(), manifest }),
+          ];
+          if (args.download) {
+            if (sizeBytes > DOWNLOAD_LIMIT_BYTES) throw new Error(tooLargeToDownload(`${archive} is`, sizeBytes));
+            context.logger.info("Downloading the archive...");
+            const writer = await context.createFileWriter("archive", name);
+            handles.push(await writer.writeAll((await ssh(`cat '${archive}'`, { raw: true })).stdout));
+          }
+          return { dataHandles: handles };
+        } finally {
+          if (staged) await ssh(`rm -rf '${stagingDir}'`, { allowFailure: true });
+          if (restartSource) await ssh(`virsh start '${name}'`, { allowFailure: true });
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
+    import: {
+      description: "Recreate a VM under domainsDir from an export archive on the host or uploaded from a local file",
+      arguments: ImportArgsSchema,
+      execute: async (args, context) => {
+        const { sshHost, sshUser, sshPrivateKey, domainsDir } = context.globalArgs;
+        const archive = args.archive ?? `${domainsDir}/.exports/${args.localPath.slice(args.localPath.lastIndexOf("/") + 1)}`;
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        const ssh = (cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts);
+        let vmDir = null;
+        let defined = false;
+        try {
+          if (args.localPath) {
+            if ((await ssh(`test -e '${archive}'`, { allowFailure: true })).code === 0) {
+              throw new Error(`${archive} already exists on the host; import it with archive instead`);
+            }
+            context.logger.info(`Uploading ${args.localPath} to ${archive}...`);
+            await ssh(`mkdir -p '${domainsDir}/.exports'`);
+            const file = await Deno.open(args.localPath);
+            try {
+              await ssh(`cat > '${archive}.part' && mv '${archive}.part' '${archive}'`, { input: file.readable });
+            } finally {
+              // The stream closes the file once it is read to the end, but not when the upload fails first
+              try {
+                file.close();
+              } catch {
+                // already closed by the stream
+              }
+            }
+          }
+
+          // The manifest is packed first, so this stops before decompressing the disks
+          const res = await ssh(`tar -xzOf '${archive}' --occurrence=1 manifest.json`, { allowFailure: true });
+          if (res.code !== 0) throw new Error(`${archive} is not a VM export (no manifest.json): ${res.stderr}`);
+          const manifest = ExportManifestSchema.parse(JSON.parse(res.stdout));
+          const name = args.name ?? manifest.name;
+
+          if ((await ssh(`virsh dominfo '${name}'`, { allowFailure: true })).code === 0) throw new Error(`VM '${name}' already exists`);
+          if ((await ssh(`test -e '${domainsDir}/${name}'`, { allowFailure: true })).code === 0) throw new Error(`${domainsDir}/${name} already exists`);
+          // libvirt refuses a second domain with the same UUID. Under another name the import is a
+          // copy beside its source and gets its own identity; under the same one, say which VM has it.
+          const owner = await ssh(`virsh domname '${manifest.uuid}'`, { allowFailure: true });
+          const copy = owner.code === 0 && name !== manifest.name;
+          if (owner.code === 0 && !copy) {
+            throw new Error(`UUID ${manifest.uuid} already belongs to VM '${owner.stdout}' on this host; import under another name to make a copy`);
+          }
+
+          vmDir = `${domainsDir}/${name}`;
+          await ssh(`mkdir '${vmDir}'`);
+          context.logger.info(`Unpacking ${archive} into ${vmDir}...`);
+          await ssh(`tar -xzf '${archive}' -C '${vmDir}'`);
+          const spec = parseDomainXml((await ssh(`cat '${vmDir}/domain.xml'`)).stdout);
+
+          // The importing host may have a different QEMU, machine types and OVMF build
+          const [emulatorRes, machinesRes, firmwareRes] = await Promise.all([
+            ssh(EMULATOR_PROBE, { allowFailure: true }),
+            ssh(`virsh capabilities 2>/dev/null | grep -o 'pc-q35-[0-9.]*' | sort -uV`, { allowFailure: true }),
+            manifest.firmware === "bios" ? { stdout: "" } : ssh(firmwareProbeCommand()),
+          ]);
+          const { spec: imported, macs } = importDomainSpec(spec, {
+            name,
+            vmDir,
+            manifest,
+            uuid: copy ? (await ssh(`cat /proc/sys/kernel/random/uuid`)).stdout.trim() : undefined,
+            emulator: emulatorRes.stdout.trim() || undefined,
+            machines: machinesRes.stdout.split("\n").filter(Boolean),
+            ovmf: selectFirmware(firmwareRes.stdout, manifest),
+          });
+          // A new instance-id makes cloud-init run again on the copy's first boot
+          let seedSha256;
+          if (copy) {
+            context.logger.info(`'${owner.stdout}' has this VM's UUID; importing '${name}' as a copy with a new UUID and MACs.`);
+            if (manifest.seed) {
+              const seedPath = `${vmDir}/${manifest.seed.file}`;
+              seedSha256 = await rebuildCopySeed(keyFile, sshUser, sshHost, { from: seedPath, to: seedPath, format: manifest.seed.format }, { name, macs });
+              context.logger.info(`Seed rebuilt at ${seedPath} with a new instance-id (sha256 ${seedSha256}).`);
+            }
+          }
+          await writeRemoteFile(keyFile, sshUser, sshHost, `${vmDir}/domain.xml`, buildDomainXml(imported));
+          await ssh(`virsh define '${vmDir}/domain.xml'`);
+          defined = true;
+          if (args.start) await ssh(`virsh start '${name}'`);
+          const state = (await ssh(`virsh domstate '${name}'`)).stdout.trim();
+          context.logger.info(`Imported '${manifest.name}' from ${archive} as '${name}' (${state}).`);
+
+          const handle = await context.writeResource("vm", name, {
+            name, uuid: imported.uuid, state,
+            diskPath: manifest.disks[0] && `${vmDir}/${manifest.disks[0].file}`,
+            cpus: manifest.cpus, memoryMiB: manifest.memoryMiB, seedSha256,
+            networks: interfaceNetworks(imported.devices.interfaces),
+            firmware: manifest.firmware, tpm: manifest.tpm,
+            importedFrom: archive,
+          });
+          return { dataHandles: [handle] };
+        } catch (err) {
+          if (vmDir && !defined) await ssh(`rm -rf '${vmDir}'`, { allowFailure: true });
+          throw err;
+        } finally {
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
+    createSnapshot: {
+      description: "Take a libvirt snapshot of a VM — internal (with memory if running) or external disk-only overlays",
+      arguments: CreateSnapshotArgsSchema,
+      execute: async (args, context) => {
+        const { sshHost, sshUser, sshPrivateKey } = context.globalArgs;
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        try {
+          const snap = await createSnapshot((cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts), args.name, args);
+          context.logger.info(`Created ${snap.location} snapshot '${snap.name}' of '${args.name}' (state ${snap.state}, parent ${snap.parent ?? "-"})`);
+          const handle = await context.writeResource("snapshot", `${args.name}-${snap.name}`, snap);
+          return { dataHandles: [handle] };
+        } finally {
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
+    listSnapshots: {
+      description: "List a VM's snapshots, oldest first",
+      arguments: z.object({ name: z.string().describe("VM whose snapshots to list") }),
+      execute: async (args, context) => {
+        const { sshHost, sshUser, sshPrivateKey } = context.globalArgs;
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        try {
+          const snapshots = await listSnapshots((cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts), args.name);
+          const handles = [];
+          for (const snap of snapshots) {
+            context.logger.info(`  ${snap.current ? "*" : " "} ${snap.name}  ${snap.createdAt}  ${snap.state}  ${snap.location}  parent=${snap.parent ?? "-"}`);
+            handles.push(await context.writeResource("snapshot", `${args.name}-${snap.name}`, snap));
+          }
+          context.logger.info(`Found ${snapshots.length} snapshot(s) of '${args.name}'`);
+          return { dataHandles: handles };
+        } finally {
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
+    revertSnapshot: {
+      description: "Revert a VM to a snapshot, discarding changes made since",
+      arguments: RevertSnapshotArgsSchema,
+      execute: async (args, context) => {
+        const { sshHost, sshUser, sshPrivateKey } = context.globalArgs;
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        const ssh = (cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts);
+        try {
+          await revertSnapshot(ssh, args.name, args);
+          const snap = await readSnapshot(ssh, args.name, args.snapshot);
+          context.logger.info(`Reverted '${args.name}' to snapshot '${snap.name}' from ${snap.createdAt}`);
+          const handle = await context.writeResource("snapshot", `${args.name}-${snap.name}`, snap);
+          return { dataHandles: [handle] };
+        } finally {
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
+    deleteSnapshot: {
+      description: "Delete a snapshot (external overlays are merged back into their backing disk)",
+      arguments: DeleteSnapshotArgsSchema,
+      execute: async (args, context) => {
+        const { sshHost, sshUser, sshPrivateKey } = context.globalArgs;
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        try {
+          await deleteSnapshot((cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts), args.name, args);
+          context.logger.info(`Deleted snapshot '${args.snapshot}' of '${args.name}'${args.children ? " and its descendants" : ""}`);
+          const handle = await context.writeResource("result", "latest", { name: args.name, operation: "deleteSnapshot", success: true });
+          return { dataHandles: [handle] };
+        } finally {
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
+    resize: {
+      description: "Change a VM's vCPUs and/or memory — live where the running domain allows, otherwise at the next cold boot",
+      arguments: z.object({
+        name: z.string().describe("VM to resize"),
+        cpus: z.number().int().min(1).optional().describe("New number of vCPUs"),
+        memoryMiB: z.number().int().min(512).optional().describe("New RAM in MiB"),
+        restart: z.boolean().optional().describe("Gracefully shut down and start the VM if a change can't be applied live (default false)"),
+        timeoutSeconds: z.number().int().min(30).optional().describe("Max seconds to wait for the shutdown when restarting (default 300)"),
+      }),
+      execute: async (args, context) => {
+        const { sshHost, sshUser, sshPrivateKey } = context.globalArgs;
+        const { name, cpus, memoryMiB } = args;
+        if (cpus === undefined && memoryMiB === undefined) throw new Error("Provide cpus and/or memoryMiB");
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        const ssh = (cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts);
+        try {
+          let pendingRestart = await applyResize(ssh, name, { cpus, memoryMiB }, context.logger);
+
+          if (pendingRestart && args.restart) {
+            context.logger.info(`Restarting '${name}' to apply the new size...`);
+            await ssh(`virsh shutdown '${name}'`);
+            await waitForState(ssh, name, "shut off", { timeoutMs: (args.timeoutSeconds ?? 300) * 1000 });
+            await ssh(`virsh start '${name}'`);
+            pendingRestart = false;
+          } else if (pendingRestart) {
+            context.logger.info("Not all changes could be applied live; stop and start the VM (or rerun with restart: true) to apply them.");
+          }
+
+          // The whole resource, rebuilt from the domain, so the write doesn't drop its disks and NICs
+          const { spec, ...domain } = await readDomain(ssh, name);
+          const vm = { ...domainVm(spec, domain), pendingRestart };
+          context.logger.info(`'${name}' is now ${vm.cpus} vCPU, ${vm.memoryMiB}MiB RAM${pendingRestart ? " (pending restart)" : ""}.`);
+          const handle = await context.writeResource("vm", name, vm);
+          return { dataHandles: [handle] };
+        } finally {
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
+    resizeDisk: {
+      description: "Grow a VM disk (live via blockresize when running) and the filesystems on it via the guest agent",
+      arguments: z.object({
+        name: z.string().describe("VM whose disk to grow"),
+        target: z.string().optional().describe("Disk target, e.g. vdc for an attached data disk (default vda, the root disk)"),
+        sizeGb: z.number().int().min(1).describe("New disk size in GB (disks can only grow)"),
+        growFilesystem: z.boolean().optional().describe("Grow the partition and filesystem inside a running guest (default true)"),
+      }),
+      execute: async (args, context) => {
+        const { sshHost, sshUser, sshPrivateKey } = context.globalArgs;
+        const { name, sizeGb, target = "vda" } = args;
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        const ssh = (cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts);
+        try {
+          const disk = parseDomainDisks((await ssh(`virsh dumpxml '${name}'`)).stdout)
+            .find((d) => d.target === target && d.device === "disk");
+          if (!disk) throw new Error(`VM '${name}' has no disk '${target}'`);
+          if (disk.format !== "qcow2") throw new Error(`Disk '${target}' is ${disk.format}, only qcow2 disks can be resized`);
+
+          const current = JSON.parse((await ssh(`qemu-img info -U --output=json '${disk.source}'`)).stdout)["virtual-size"];
+          const running = (await ssh(`virsh domstate '${name}'`)).stdout.trim() === "running";
+          if (!checkGrowth(current, sizeGb)) {
+            context.logger.info(`Disk ${target} of '${name}' is already ${sizeGb}GB.`);
+          } else if (running) {
+            // blockresize tells the guest about the new capacity, no reboot needed
+            await ssh(`virsh blockresize '${name}' '${target}' ${sizeGb}G`);
+            context.logger.info(`Grew ${target} of '${name}' to ${sizeGb}GB (live).`);
+          } else {
+            await ssh(`qemu-img resize '${disk.source}' ${sizeGb}G`);
+            context.logger.info(`Grew ${target} of '${name}' to ${sizeGb}GB (offline).`);
+          }
+
+          const device = target === "vda" ? ROOT_DEVICE : disk.serial ? guestDiskPath(disk.serial) : null;
+          if (!running) {
+            // cloud-init's growpart and resizefs run on every boot, for the root disk only
+            if (target === "vda") context.logger.info("The root filesystem grows on next boot.");
+          } else if ((args.growFilesystem ?? true) && device) {
+            await waitForAgent(ssh, name, { timeoutMs: 60_000 });
+            const res = await guestExec(ssh, name, growFilesystemScript(device));
+            if (res.stdout) context.logger.info(res.stdout);
+            if (res.code !== 0) throw new Error(`Growing filesystems on ${target} failed (exit ${res.code}):\n${res.stderr}`);
+          } else if (!device) {
+            context.logger.info(`Disk ${target} has no serial, so it can't be found in the guest; grow its filesystem by hand.`);
+          }
+
+          const handle = await context.writeResource("disk", `${name}-${target}`, {
+            vm: name, target, path: disk.source, sizeGb, serial: disk.serial,
+            guestPath: disk.serial ? guestDiskPath(disk.serial) : undefined, attached: true,
+          });
+          return { dataHandles: [handle] };
+        } finally {
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
+    attachDisk: {
+      description: "Create a qcow2 data disk in the VM directory and hot-plug it (persistently) on the next free virtio target",
+      arguments: z.object({
+        name: z.string().describe("VM to attach the disk to"),
+        disk: DiskNameSchema.describe("Disk name — file data-<disk>.qcow2, and the serial the guest sees as /dev/disk/by-id/virtio-<disk>"),
+        sizeGb: z.number().int().min(1).describe("Disk size in GB (thin-provisioned)"),
+      }),
+      execute: async (args, context) => {
+        const { sshHost, sshUser, sshPrivateKey, domainsDir } = context.globalArgs;
+        const { name, disk, sizeGb } = args;
+        const path = dataDiskPath(`${domainsDir}/${name}`, disk);
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        const ssh = (cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts);
+        try {
+          const disks = parseDomainDisks((await ssh(`virsh dumpxml '${name}'`)).stdout);
+          if (disks.some((d) => d.source === path || d.serial === disk)) {
+            throw new Error(`VM '${name}' already has a disk '${disk}'`);
+          }
+          // An existing file may be a detached disk someone still wants — never overwrite it
+          if ((await ssh(`test -e '${path}'`, { allowFailure: true })).code === 0) {
+            throw new Error(`${path} already exists; detach and delete it first, or pick another name`);
+          }
+          const target = nextDiskTarget(disks);
+          const running = (await ssh(`virsh domstate '${name}'`)).stdout.trim() === "running";
+
+          await ssh(`qemu-img create -f qcow2 '${path}' ${sizeGb}G`);
+          const xmlPath = `${domainsDir}/${name}/data-${disk}.xml`;
+          await writeRemoteFile(keyFile, sshUser, sshHost, xmlPath, dataDiskXml({ path, target, serial: disk }));
+          await ssh(`virsh attach-device '${name}' '${xmlPath}' --config${running ? " --live" : ""}`);
+          context.logger.info(`Attached ${sizeGb}GB disk '${disk}' to '${name}' as ${target} (${guestDiskPath(disk)} in the guest).`);
+
+          const handle = await context.writeResource("disk", `${name}-${target}`, {
+            vm: name, target, path, sizeGb, serial: disk, guestPath: guestDiskPath(disk), attached: true,
+          });
+          return { dataHandles: [handle] };
+        } finally {
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
+    detachDisk: {
+      description: "Hot-unplug a data disk from a VM and remove it from the definition, optionally deleting its file",
+      arguments: z.object({
+        name: z.string().describe("VM to detach the disk from"),
+        disk: DiskNameSchema.describe("Disk name given to attachDisk"),
+        deleteFile: z.boolean().optional().describe("Delete data-<disk>.qcow2 after detaching (default false)"),
+      }),
+      execute: async (args, context) => {
+        const { sshHost, sshUser, sshPrivateKey, domainsDir } = context.globalArgs;
+        const { name, disk } = args;
+        const path = dataDiskPath(`${domainsDir}/${name}`, disk);
+        const keyFile = await setupKeyFile(sshPrivateKey);
+        const ssh = (cmd, opts) => runSsh(keyFile, sshUser, sshHost, cmd, opts);
+        try {
+          const found = parseDomainDisks((await ssh(`virsh dumpxml '${name}' --inactive`)).stdout).find((d) => d.source === path);
+          if (!found) throw new Error(`VM '${name}' has no data disk '${disk}' (${path})`);
+          const running = (await ssh(`virsh domstate '${name}'`)).stdout.trim() === "running";
+          const sizeBytes = JSON.parse((await ssh(`qemu-img info -U --output=json '${path}'`)).stdout)["virtual-size"];
+
+          // The guest must have unmounted it — a hot-unplug under a mounted filesystem loses writes
+          await ssh(`virsh detach-disk '${name}' '${found.target}' --config${running ? " --live" : ""}`);
+          context.logger.info(`Detached disk '${disk}' (${found.target}) from '${name}'.`);
+          await ssh(`rm -f '${domainsDir}/${name}/data-${disk}.xml'`);
+          if (args.deleteFile) {
+            await ssh(`rm -f '${path}'`);
+            context.logger.info(`Deleted ${path}.`);
+          }
+
+          const handle = await context.writeResource("disk", `${name}-${found.target}`, {
+            vm: name, target: found.target, path, sizeGb: Math.round(sizeBytes / 1024 ** 3), serial: found.serial, attached: false,
+          });
+          return { dataHandles: [handle] };
+        } finally {
+          await cleanupKeyFile(keyFile);
+        }
+      },
+    },
+
     start: {
       description: "Start a VM via virsh",
       arguments: z.object({ name: z.string().describe("VM name to start") }),
@@ -593,7 +1412,7 @@ ${mounts.map((m) => `    <filesystem type='mount' accessmode='passthrough'>
         try {
           context.logger.info(`Destroying VM: ${name}`);
           await ssh(`virsh destroy '${name}' 2>/dev/null; true`, { allowFailure: true });
-          await ssh(`virsh undefine '${name}' --nvram 2>/dev/null || virsh undefine '${name}'`, { allowFailure: true });
+          await ssh(undefineCommand(name), { allowFailure: true });
           await ssh(`rm -rf '${vmDir}'`);
           context.logger.info(`VM '${name}' destroyed.`);
         } finally {
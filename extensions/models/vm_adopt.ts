@@ -0,0 +1,105 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import { type DomainSpec, parseDomainXml } from "./libvirt_domain.ts";
+import type { SshRunner } from "./ssh.ts";
+import { domainFirmware, type Firmware } from "./vm_firmware.ts";
+import { interfaceNetworks } from "./vm_networks.ts";
+import { parseDomainSizing } from "./vm_resize.ts";
+
+// Adopting VMs defined outside swamp — through the Unraid UI, virt-manager or plain virsh. The
+// domain is only read: its definition and block devices are turned into the same vm resource
+// a provisioned VM has, so the day-2 methods can be pointed at it.
+
+// `virsh domblklist <name> --details` rows. Unlike the domain XML this covers every disk type
+// (pool volumes, network disks) with the path or name libvirt resolved; sources may contain
+// spaces, and an empty drive shows "-".
+export type BlockDevice = { type: string; device: string; target: string; source?: string; sizeBytes?: number };
+
+export function parseDomblklist(stdout: string): BlockDevice[] {
+  return stdout.split("\n").slice(2).map((line) => line.trim()).filter(Boolean).map((line) => {
+    const [type, device, target, ...rest] = line.split(/\s+/);
+    const source = rest.join(" ");
+    return { type, device, target, ...(source && source !== "-" ? { source } : {}) };
+  });
+}
+
+// What the vm resource of domain `name` is built from: the parsed saved definition (`spec`),
+// the raw saved and running definitions (liveXml null when the VM is off) and parseDomblklist()
+// rows with `sizeBytes` added where qemu-img could read the file
+export type DomainState = { spec: DomainSpec; state: string; xml: string; liveXml: string | null; disks: BlockDevice[] };
+
+export async function readDomain(ssh: SshRunner, name: string): Promise<DomainState> {
+  const [xmlRes, stateRes, blkRes] = await Promise.all([
+    ssh(`virsh dumpxml '${name}' --inactive`),
+    ssh(`virsh domstate '${name}'`),
+    ssh(`virsh domblklist '${name}' --details`),
+  ]);
+  const state = stateRes.stdout.trim();
+  const liveXml = state === "shut off" ? null : (await ssh(`virsh dumpxml '${name}'`)).stdout;
+  const disks = parseDomblklist(blkRes.stdout);
+  for (const disk of disks) {
+    if (!disk.source || (disk.type !== "file" && disk.type !== "block")) continue;
+    const info = await ssh(`qemu-img info -U --output=json '${disk.source}'`, { allowFailure: true });
+    if (info.code === 0) disk.sizeBytes = JSON.parse(info.stdout)["virtual-size"];
+  }
+  return { spec: parseDomainXml(xmlRes.stdout), state, xml: xmlRes.stdout, liveXml, disks };
+}
+
+// The vm resource as the domain describes it, for methods that change a VM without knowing how
+// it was created. Arguments are as readDomain returns them.
+export type DomainVm = {
+  name: string;
+  uuid?: string;
+  state: string;
+  diskPath?: string;
+  cpus: number;
+  memoryMiB: number;
+  disks: { target: string; device: string; source?: string; sizeGb?: number }[];
+  networks: ReturnType<typeof interfaceNetworks>;
+  firmware: Firmware;
+  tpm: boolean;
+  pendingRestart: boolean;
+  adopted?: boolean;
+};
+
+export function domainVm(
+  spec: DomainSpec,
+  { state, xml, liveXml = null, disks }: Omit<DomainState, "spec" | "liveXml"> & { liveXml?: string | null },
+): DomainVm {
+  const config = parseDomainSizing(xml);
+  const live = liveXml ? parseDomainSizing(liveXml) : null;
+  return {
+    name: spec.name,
+    uuid: spec.uuid,
+    state,
+    diskPath: disks.find((d) => d.device === "disk" && d.source)?.source,
+    cpus: config.cpus,
+    memoryMiB: config.memoryMiB,
+    disks: disks.map((d) => ({
+      target: d.target,
+      device: d.device,
+      ...(d.source ? { source: d.source } : {}),
+      ...(d.sizeBytes !== undefined ? { sizeGb: Math.round((d.sizeBytes / 1024 ** 3) * 10) / 10 } : {}),
+    })),
+    networks: interfaceNetworks(spec.devices.interfaces),
+    firmware: domainFirmware(spec),
+    tpm: spec.devices.tpms.length > 0,
+    pendingRestart: !!live && (live.cpus !== config.cpus || live.memoryMiB !== config.memoryMiB),
+  };
+}
+
+// The vm resource for an adopted domain
+export function adoptedVm(spec: DomainSpec, domain: Parameters<typeof domainVm>[1]): DomainVm {
+  return { ...domainVm(spec, domain), adopted: true };
+}
+
+// Day-2 methods that lean on pieces a cloud-init VM always has; an adopted VM may lack them
+export function adoptionWarnings(spec: DomainSpec): string[] {
+  const warnings = [];
+  if (!spec.devices.channels.some((c) => c.name === "org.qemu.guest_agent.0")) {
+    warnings.push("no QEMU guest agent channel: verify, createTemplate and filesystem growth in resizeDisk need one");
+  }
+  if (spec.devices.disks.some((d) => d.device === "disk" && d.format !== "qcow2")) {
+    warnings.push("non-qcow2 disks: internal snapshots and resizeDisk need qcow2");
+  }
+  return warnings;
+}
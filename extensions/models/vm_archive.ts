@@ -0,0 +1,114 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import { z } from "npm:zod@4";
+import type { DomainSpec } from "./libvirt_domain.ts";
+import { cloneDomainSpec, type clonePlan } from "./vm_clone.ts";
+import type { Firmware, OvmfBuild } from "./vm_firmware.ts";
+
+// Portable VM archives: a gzipped tar holding each writable disk flattened into a standalone
+// image, the seed, the NVRAM of UEFI guests, the domain XML as `virsh dumpxml --inactive` gave
+// it, and manifest.json describing the lot. The archive has no backing files, so it imports on
+// any host. Files sit at the top level of the archive, manifest first.
+
+export const ARCHIVE_FORMAT = "swamp-vm-export";
+
+const ArchiveFileSchema = z.object({
+  target: z.string().describe("Disk target in the domain, e.g. vda"),
+  file: z.string().regex(/^[^/]+$/, "must be a file name, not a path"),
+  format: z.string(),
+});
+
+export const ExportManifestSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.literal(1),
+  name: z.string(),
+  uuid: z.string(),
+  exportedAt: z.string(),
+  cpus: z.number(),
+  memoryMiB: z.number(),
+  firmware: z.enum(["bios", "uefi", "uefi-secure"]),
+  tpm: z.boolean(),
+  disks: z.array(ArchiveFileSchema.extend({ virtualSizeBytes: z.number() })),
+  seed: ArchiveFileSchema.optional(),
+  nvram: z.string().optional(),
+});
+
+export type ExportManifest = z.infer<typeof ExportManifestSchema>;
+
+const stamp = (date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+
+// Names carry the VM name and export time, so repeated exports never replace each other
+export function archivePath(dir: string, name: string, date: Date): string {
+  return `${dir}/${name}-${stamp(date)}.tar.gz`;
+}
+
+// `plan` is the clonePlan() of the domain into the staging directory; `sizes` maps each disk
+// target to its virtual size
+export function exportManifest(
+  spec: DomainSpec,
+  plan: ReturnType<typeof clonePlan>,
+  { firmware, sizes, nvram, date }: { firmware: Firmware; sizes: Record<string, number>; nvram?: string | null; date: Date },
+): ExportManifest {
+  const file = (path) => path.slice(path.lastIndexOf("/") + 1);
+  return ExportManifestSchema.parse({
+    format: ARCHIVE_FORMAT,
+    version: 1,
+    name: spec.name,
+    uuid: spec.uuid,
+    exportedAt: date.toISOString(),
+    cpus: spec.vcpus,
+    memoryMiB: spec.memoryMiB,
+    firmware,
+    tpm: spec.devices.tpms.length > 0,
+    disks: plan.copies.map((c) => ({ target: c.target, file: file(c.to), format: c.format, virtualSizeBytes: sizes[c.target] })),
+    seed: plan.seed
+      ? { target: spec.devices.disks.find((d) => d.source === plan.seed.from).target, file: file(plan.seed.to), format: plan.seed.format }
+      : undefined,
+    nvram: nvram ? file(nvram) : undefined,
+  });
+}
+
+// Host command packing the staged files into the archive, manifest first so import can read it
+// without unpacking the disks
+export function archiveCommand(manifest: ExportManifest, { stagingDir, archive }: { stagingDir: string; archive: string }): string {
+  const files = ["manifest.json", "domain.xml", ...manifest.disks.map((d) => d.file)];
+  if (manifest.seed) files.push(manifest.seed.file);
+  if (manifest.nvram) files.push(manifest.nvram);
+  return `tar -czf '${archive}.part' -C '${stagingDir}' ${files.map((f) => `'${f}'`).join(" ")} || { rm -f '${archive}.part'; exit 1; }; ` +
+    `mv '${archive}.part' '${archive}'`;
+}
+
+// The exported domain adjusted for the importing host: its new name and directory, that host's
+// emulator and OVMF build, and the newest q35 machine type when the exported one isn't available.
+// A copy imported beside its source is given `uuid` and fresh MACs, as cloneDomainSpec does;
+// returns the spec and the MAC mapping (empty when the VM keeps its identity).
+export function importDomainSpec(
+  spec: DomainSpec,
+  { name, vmDir, manifest, uuid, emulator, machines = [], ovmf = null }: {
+    name: string;
+    vmDir: string;
+    manifest: ExportManifest;
+    uuid?: string;
+    emulator?: string;
+    machines?: string[];
+    ovmf?: Pick<OvmfBuild, "code" | "vars"> | null;
+  },
+): { spec: DomainSpec; macs: Record<string, string> } {
+  const imported = structuredClone(spec);
+  const files = Object.fromEntries([...manifest.disks, ...(manifest.seed ? [manifest.seed] : [])].map((f) => [f.target, f.file]));
+  imported.name = name;
+  imported.devices.disks = imported.devices.disks.map((d) => (files[d.target] ? { ...d, source: `${vmDir}/${files[d.target]}` } : d));
+  if (emulator) imported.devices.emulator = emulator;
+  const machine = imported.os.machine;
+  if (machine?.startsWith("pc-q35-") && machines.length > 0 && !machines.includes(machine)) {
+    imported.os.machine = machines[machines.length - 1];
+  }
+  if (ovmf && imported.os.loader) imported.os.loader = { ...imported.os.loader, path: ovmf.code };
+  if (imported.os.nvram) {
+    imported.os.nvram = {
+      ...imported.os.nvram,
+      ...(manifest.nvram ? { path: `${vmDir}/${manifest.nvram}` } : {}),
+      ...(ovmf ? { template: ovmf.vars } : {}),
+    };
+  }
+  return uuid ? cloneDomainSpec(imported, { name, uuid, nvram: imported.os.nvram?.path }) : { spec: imported, macs: {} };
+}
@@ -0,0 +1,102 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import type { z } from "npm:zod@4";
+import { renderMetaData, toYaml } from "./cloud_config.ts";
+import type { DomainSpec, InterfaceSpecSchema } from "./libvirt_domain.ts";
+import { randomMac } from "./vm_networks.ts";
+
+// Full clones of an existing VM. Writable disks are copied into the clone's directory — either
+// flattened into standalone images or as new overlays on the source's backing file — and the
+// domain is redefined under a new name, UUID and MACs. The cloud-init seed is rebuilt with a new
+// instance-id and hostname, so cloud-init treats the clone's first boot as a new instance.
+
+const dec = new TextDecoder();
+
+const basename = (path) => path.slice(path.lastIndexOf("/") + 1);
+
+export type DiskCopy = { target: string; from: string; to: string; format?: string };
+
+// Which disks of a parsed source domain (see parseDomainXml) get copied, which is the seed to
+// rebuild, and which are shared as-is (read-only media). Writable block devices can't be copied
+// safely from here, so they stop the clone.
+export function clonePlan(
+  spec: DomainSpec,
+  { sourceDir, targetDir }: { sourceDir: string; targetDir: string },
+): { copies: DiskCopy[]; seed: { from: string; to: string; format: "vfat" | "iso" } | null } {
+  const copies = [];
+  let seed = null;
+  for (const disk of spec.devices.disks) {
+    if (!disk.source) continue;
+    if (disk.source === `${sourceDir}/seed.iso` || disk.source === `${sourceDir}/seed.img`) {
+      seed = { from: disk.source, to: `${targetDir}/${basename(disk.source)}`, format: disk.source.endsWith(".img") ? "vfat" : "iso" };
+    } else if (disk.readonly || disk.device === "cdrom") {
+      continue;
+    } else if (disk.type === "block") {
+      throw new Error(`Disk ${disk.target} is the block device ${disk.source}; only file-backed disks can be cloned`);
+    } else {
+      const to = `${targetDir}/${basename(disk.source)}`;
+      if (copies.some((c) => c.to === to)) throw new Error(`Disks ${disk.target} and ${copies.find((c) => c.to === to).target} share the file name ${basename(to)}`);
+      copies.push({ target: disk.target, from: disk.source, to, format: disk.format });
+    }
+  }
+  return { copies, seed };
+}
+
+// Host command copying one disk via a .part file. `backing` ({ path, format }) comes from
+// `qemu-img info`; with it the copy is a new overlay holding only the source's own clusters,
+// without it (or when flattening) a standalone image.
+export function copyDiskCommand(
+  { from, to, format }: Omit<DiskCopy, "target">,
+  { backing = null, flatten = false }: { backing?: { path: string; format: string } | null; flatten?: boolean } = {},
+): string {
+  const overlay = backing && !flatten ? ` -F ${backing.format} -B '${backing.path}'` : "";
+  return `qemu-img convert -O ${format}${overlay} '${from}' '${to}.part' || { rm -f '${to}.part'; exit 1; }; mv '${to}.part' '${to}'`;
+}
+
+// The clone's domain: the source spec under a new name and UUID, with copied disks and the seed
+// pointed at their new paths, its own NVRAM, and a fresh MAC on every NIC (or `interfaces`
+// replacing them). `macs` maps each old MAC to its replacement, for rewriting network-config.
+export function cloneDomainSpec(
+  spec: DomainSpec,
+  { name, uuid, diskPaths = {}, nvram, interfaces }: {
+    name: string;
+    uuid: string;
+    diskPaths?: Record<string, string>;
+    nvram?: string;
+    interfaces?: z.input<typeof InterfaceSpecSchema>[];
+  },
+): { spec: DomainSpec; macs: Record<string, string> } {
+  const clone = structuredClone(spec);
+  const macs = {};
+  clone.name = name;
+  clone.uuid = uuid;
+  delete clone.title;
+  clone.devices.disks = clone.devices.disks.map((d) => (d.source && diskPaths[d.source] ? { ...d, source: diskPaths[d.source] } : d));
+  if (clone.os.nvram) clone.os.nvram = { ...clone.os.nvram, path: nvram };
+  clone.devices.interfaces = interfaces ?? clone.devices.interfaces.map((i) => {
+    const mac = randomMac();
+    if (i.mac) macs[i.mac.toLowerCase()] = mac;
+    return { ...i, mac };
+  });
+  return { spec: clone, macs };
+}
+
+// Rewrite the source's NoCloud seed files for the clone: new meta-data (instance-id and
+// hostname), the hostname in cloud-config user-data, and MACs in network-config. A given
+// `networkConfig` replaces the source's; vendor-data is kept as-is.
+export function cloneSeedFiles(
+  files: Record<string, Uint8Array>,
+  { name, macs = {}, networkConfig }: { name: string; macs?: Record<string, string>; networkConfig?: string },
+): { userData: string; metaData: string; networkConfig?: string; vendorData?: string } {
+  const text = (path) => (files[path] ? dec.decode(files[path]) : undefined);
+  const userData = (text("user-data") ?? "").replace(/^hostname: .*$/m, () => toYaml({ hostname: name }).trimEnd());
+  let sourceNetworkConfig = text("network-config");
+  for (const [from, to] of Object.entries(macs)) {
+    sourceNetworkConfig = sourceNetworkConfig?.replace(new RegExp(from, "gi"), to);
+  }
+  return {
+    userData,
+    metaData: renderMetaData({ instanceId: name, hostname: name }),
+    networkConfig: networkConfig ?? sourceNetworkConfig,
+    vendorData: text("vendor-data"),
+  };
+}
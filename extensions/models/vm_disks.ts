@@ -0,0 +1,68 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import { z } from "npm:zod@4";
+import { diskNode, serializeXml } from "./libvirt_domain.ts";
+
+// Disk growth and extra data disks for existing VMs. Data disks are qcow2 files in the VM
+// directory, hot-plugged on the virtio bus with the disk name as serial so the guest sees a
+// stable /dev/disk/by-id/virtio-<name> regardless of probe order.
+
+const GiB = 1024 ** 3;
+
+// virtio-blk serials are limited to 20 bytes
+export const DiskNameSchema = z.string()
+  .regex(/^[A-Za-z0-9][A-Za-z0-9_-]{0,19}$/, "1-20 letters, digits, '_' or '-', starting with a letter or digit");
+
+export const dataDiskPath = (vmDir: string, disk: string): string => `${vmDir}/data-${disk}.qcow2`;
+
+export const guestDiskPath = (serial: string): string => `/dev/disk/by-id/virtio-${serial}`;
+
+// First free virtio target after the ones already in use (vda root, vdb a FAT seed, ...)
+export function nextDiskTarget(disks: { target?: string }[]): string {
+  const used = new Set(disks.map((d) => d.target));
+  for (let i = 0; i < 26; i++) {
+    const target = `vd${String.fromCharCode(97 + i)}`;
+    if (!used.has(target)) return target;
+  }
+  throw new Error("No free virtio disk target (vda-vdz all in use)");
+}
+
+export function dataDiskXml({ path, target, serial }: { path: string; target: string; serial: string }): string {
+  return serializeXml(diskNode({ format: "qcow2", cache: "writeback", source: path, target, bus: "virtio", serial })) + "\n";
+}
+
+// New size in whole GiB for a disk currently `currentBytes` long — disks only ever grow, since
+// shrinking under a filesystem destroys whatever lives past the new end
+export function checkGrowth(currentBytes: number, sizeGb: number): boolean {
+  if (sizeGb * GiB < currentBytes) {
+    throw new Error(`Disk is already ${Math.ceil(currentBytes / GiB)}GB; shrinking to ${sizeGb}GB is not supported`);
+  }
+  return sizeGb * GiB > currentBytes;
+}
+
+// Guest shell expression for the disk holding the root filesystem (vda as the guest names it)
+export const ROOT_DEVICE = `/dev/$(lsblk -no PKNAME "$(findmnt -n -o SOURCE /)")`;
+
+// Guest-side script that grows every mounted filesystem on a disk after the disk itself grew:
+// partitions first (growpart exits 1 for "nothing to do"), then ext*, xfs or btrfs. `device` is
+// a shell expression for the guest block device, e.g. ROOT_DEVICE or guestDiskPath(serial).
+export function growFilesystemScript(device: string): string {
+  return `set -e
+dev=$(readlink -f "${device}")
+for src in $(lsblk -lnpo NAME "$dev"); do
+  mnt=$(findmnt -n -o TARGET -S "$src" | head -1)
+  [ -n "$mnt" ] || continue
+  fstype=$(findmnt -n -o FSTYPE -S "$src" | head -1)
+  # Only filesystems that can grow online; the EFI partition and friends are left alone
+  case "$fstype" in ext2|ext3|ext4|xfs|btrfs) ;; *) continue ;; esac
+  if [ "$src" != "$dev" ]; then
+    growpart "$dev" "$(cat /sys/class/block/$(basename "$src")/partition)" || [ $? -eq 1 ]
+  fi
+  case "$fstype" in
+    ext*) resize2fs "$src" ;;
+    xfs) xfs_growfs "$mnt" ;;
+    btrfs) btrfs filesystem resize max "$mnt" ;;
+  esac
+  echo "grew $src ($fstype) on $mnt"
+done
+`;
+}
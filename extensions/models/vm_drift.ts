@@ -0,0 +1,225 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import { z } from "npm:zod@4";
+import { readIso9660, readVfat } from "./cloud_init_iso.ts";
+import { provisionCloudConfig, renderCloudConfig, renderMetaData } from "./cloud_config.ts";
+import { type DomainSpec, parseDomainXml } from "./libvirt_domain.ts";
+import type { SshRunner } from "./ssh.ts";
+import { dataDiskPath } from "./vm_disks.ts";
+import { domainFirmware, type Firmware } from "./vm_firmware.ts";
+import type { MountSchema } from "./vm_mounts.ts";
+import { domainInterfaces, type NetworkSchema, networkConfigFor, type ResolvedNetwork, resolveNetworks } from "./vm_networks.ts";
+import { type DomainSizing, parseDomainSizing } from "./vm_resize.ts";
+
+// Configuration drift: what a provisioned VM looks like now against what its provision arguments
+// would create — sizing, disks and backing image, NICs, mounts, firmware and the cloud-init
+// seed. Edits made in the Unraid web UI or with plain virsh show up here.
+
+const GiB = 1024 ** 3;
+
+const dec = new TextDecoder();
+
+export const DriftItemSchema = z.object({
+  path: z.string().describe("What drifted, e.g. cpus, disk/vda/sizeGb, networks/1/bridge, mounts/home, seed/user-data"),
+  status: z.enum(["missing", "unexpected", "changed"]),
+  expected: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  actual: z.union([z.string(), z.number(), z.boolean()]).optional(),
+});
+
+export type DriftItem = z.infer<typeof DriftItemSchema>;
+
+// `qemu-img info --output=json`, as far as drift reads it
+export type ImageInfo = { "virtual-size": number; "backing-filename"?: string; "full-backing-filename"?: string };
+
+// The backing a VM's root disk should have: a template's disk, or any version of a cached image
+export type ExpectedBacking = { path: string } | { cacheDir: string; fileName: string };
+
+const changed = (path, expected, actual) => (expected === actual ? [] : [{ path, status: "changed", expected, actual }]);
+
+// True when `path` is a cached version of the image (see versionedFileName in cloud_images.ts),
+// or the unversioned `<cacheDir>/<fileName>` that VMs provisioned before versioning sit on
+export function isImageVersion(path: string, cacheDir: string, fileName: string): boolean {
+  if (path === `${cacheDir}/${fileName}`) return true;
+  const dot = fileName.lastIndexOf(".");
+  const [stem, ext] = dot > 0 ? [fileName.slice(0, dot), fileName.slice(dot)] : [fileName, ""];
+  const escape = (s) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escape(`${cacheDir}/${stem}.`)}[0-9a-f]+${escape(ext)}$`).test(path);
+}
+
+// Drift of a parsed domain (`dumpxml --inactive`, see parseDomainXml) from the provision
+// arguments. `expected` holds cpus, memoryMiB, diskSizeGb, backing ({ path } for a template,
+// { cacheDir, fileName } for a cached image), interfaces (domainInterfaces form), mounts,
+// firmware and tpm; `root` is `qemu-img info` of vda. Data disks made by attachDisk are
+// expected, as is the seed at `seedPath`; any other writable disk is not.
+export function domainDrift(
+  spec: DomainSpec,
+  { sizing, root, vmDir, seedPath }: {
+    sizing: Pick<DomainSizing, "cpus" | "memoryMiB">;
+    root: ImageInfo | null;
+    vmDir: string;
+    seedPath: string;
+  },
+  expected: {
+    cpus: number;
+    memoryMiB: number;
+    diskSizeGb?: number;
+    backing?: ExpectedBacking;
+    interfaces: { type: string; source: string; mac?: string; model?: string }[];
+    mounts: z.input<typeof MountSchema>[];
+    firmware: string;
+    tpm: boolean;
+  },
+): DriftItem[] {
+  const drift = [
+    ...changed("cpus", expected.cpus, sizing.cpus),
+    ...changed("memoryMiB", expected.memoryMiB, sizing.memoryMiB),
+    ...changed("firmware", expected.firmware, domainFirmware(spec)),
+    ...changed("tpm", expected.tpm, spec.devices.tpms.length > 0),
+  ];
+
+  const vda = spec.devices.disks.find((d) => d.target === "vda");
+  if (!vda || !root) {
+    drift.push({ path: "disk/vda", status: "missing", expected: `${vmDir}/disk.qcow2` });
+  } else {
+    drift.push(...changed("disk/vda/path", `${vmDir}/disk.qcow2`, vda.source));
+    if (expected.diskSizeGb !== undefined) {
+      drift.push(...changed("disk/vda/sizeGb", expected.diskSizeGb, Math.round((root["virtual-size"] / GiB) * 10) / 10));
+    }
+    const backing = root["full-backing-filename"] ?? root["backing-filename"];
+    const { path, cacheDir, fileName } = expected.backing ?? {};
+    if (path ? backing !== path : fileName && !(backing && isImageVersion(backing, cacheDir, fileName))) {
+      drift.push({
+        path: "disk/vda/backing",
+        status: backing ? "changed" : "missing",
+        expected: path ?? `${cacheDir}/${fileName}`,
+        ...(backing ? { actual: backing } : {}),
+      });
+    }
+  }
+  if (!spec.devices.disks.some((d) => d.source === seedPath)) drift.push({ path: "disk/seed", status: "missing", expected: seedPath });
+  for (const d of spec.devices.disks) {
+    if (d.target === "vda" || d.source === seedPath || d.readonly || d.device !== "disk") continue;
+    if (d.serial && d.source === dataDiskPath(vmDir, d.serial)) continue;
+    drift.push({ path: `disk/${d.target}`, status: "unexpected", ...(d.source ? { actual: d.source } : {}) });
+  }
+
+  const actualNics = spec.devices.interfaces;
+  expected.interfaces.forEach((want, i) => {
+    const have = actualNics[i];
+    if (!have) {
+      drift.push({ path: `networks/${i}`, status: "missing", expected: `${want.type} ${want.source}` });
+      return;
+    }
+    drift.push(
+      ...changed(`networks/${i}/${want.type === "network" ? "libvirtNetwork" : "bridge"}`, `${want.type} ${want.source}`, `${have.type} ${have.source}`),
+      ...changed(`networks/${i}/model`, want.model ?? "virtio", have.model),
+      ...(want.mac ? changed(`networks/${i}/mac`, want.mac.toLowerCase(), have.mac?.toLowerCase()) : []),
+    );
+  });
+  for (const [i, have] of actualNics.entries()) {
+    if (i >= expected.interfaces.length) drift.push({ path: `networks/${i}`, status: "unexpected", actual: `${have.type} ${have.source}` });
+  }
+
+  const filesystems = new Map(spec.devices.filesystems.map((f) => [f.target, f]));
+  for (const m of expected.mounts) {
+    const have = filesystems.get(m.tag);
+    filesystems.delete(m.tag);
+    if (!have) {
+      drift.push({ path: `mounts/${m.tag}`, status: "missing", expected: m.hostPath });
+      continue;
+    }
+    drift.push(
+      ...changed(`mounts/${m.tag}/hostPath`, m.hostPath, have.source),
+      ...changed(`mounts/${m.tag}/driver`, m.driver ?? "9p", have.driver === "virtiofs" ? "virtiofs" : "9p"),
+    );
+  }
+  for (const [tag, have] of filesystems) drift.push({ path: `mounts/${tag}`, status: "unexpected", actual: have.source });
+  return drift;
+}
+
+// Drift of the seed on the host from the one the provision arguments render, file by file.
+// `expected` maps NoCloud file names to their content (undefined when not generated),
+// `actual` is the parsed seed's files.
+export function seedDrift(expected: Record<string, string | undefined>, actual: Record<string, Uint8Array>): DriftItem[] {
+  const drift = [];
+  for (const file of new Set([...Object.keys(expected), ...Object.keys(actual)])) {
+    const want = expected[file];
+    const have = actual[file] && dec.decode(actual[file]);
+    if (want === undefined && have === undefined) continue;
+    if (have === undefined) drift.push({ path: `seed/${file}`, status: "missing" });
+    else if (want === undefined) drift.push({ path: `seed/${file}`, status: "unexpected" });
+    else if (want !== have) drift.push({ path: `seed/${file}`, status: "changed" });
+  }
+  return drift;
+}
+
+// What diff and a repeated provision compare, read from the host: the saved definition,
+// `qemu-img info` of vda (null when unreadable) and the seed's bytes (null when missing)
+export type VmState = { xml: string; spec: DomainSpec; root: ImageInfo | null; seed: Uint8Array | null };
+
+export async function readVmState(ssh: SshRunner, name: string, seedPath: string): Promise<VmState> {
+  const xml = (await ssh(`virsh dumpxml '${name}' --inactive`)).stdout;
+  const spec = parseDomainXml(xml);
+  const vda = spec.devices.disks.find((d) => d.target === "vda");
+  const rootRes = vda?.source ? await ssh(`qemu-img info -U --output=json '${vda.source}'`, { allowFailure: true }) : null;
+  const seedRes = await ssh(`base64 -w0 '${seedPath}'`, { allowFailure: true });
+  return {
+    xml,
+    spec,
+    root: rootRes?.code === 0 ? JSON.parse(rootRes.stdout) : null,
+    seed: seedRes.code === 0 ? Uint8Array.from(atob(seedRes.stdout), (c) => c.charCodeAt(0)) : null,
+  };
+}
+
+// Drift of a VM read by readVmState from its provision arguments; `backing` is as for
+// domainDrift. MACs the arguments leave to chance come from the domain, so only fixed ones can
+// drift. Also returns the NICs so resolved and the seed files the arguments render.
+export function provisionDrift(
+  state: VmState,
+  args: Omit<Parameters<typeof provisionCloudConfig>[0], "hostname"> & {
+    name: string;
+    cpus: number;
+    memoryMiB: number;
+    diskSizeGb?: number;
+    networks?: z.input<typeof NetworkSchema>[];
+    networkConfig?: string;
+    vendorData?: string;
+    seedFormat?: "iso" | "vfat";
+    firmware?: Firmware;
+    tpm?: boolean;
+  },
+  { vmDir, seedPath, backing }: { vmDir: string; seedPath: string; backing?: ExpectedBacking },
+): {
+  drift: DriftItem[];
+  nics?: ResolvedNetwork[];
+  seed: { "user-data": string; "meta-data": string; "network-config"?: string; "vendor-data"?: string };
+} {
+  const { name, networks, networkConfig, vendorData, seedFormat = "iso" } = args;
+  const nics = networks
+    ? resolveNetworks(networks.map((n, i) => ({ ...n, mac: n.mac ?? state.spec.devices.interfaces[i]?.mac })))
+    : undefined;
+
+  const drift = domainDrift(state.spec, { sizing: parseDomainSizing(state.xml), root: state.root, vmDir, seedPath }, {
+    cpus: args.cpus,
+    memoryMiB: args.memoryMiB,
+    diskSizeGb: args.diskSizeGb,
+    backing,
+    interfaces: nics ? domainInterfaces(nics) : [{ type: "bridge", source: "br0" }],
+    mounts: args.mounts ?? [],
+    firmware: args.firmware ?? "bios",
+    tpm: args.tpm ?? false,
+  });
+
+  const seed = {
+    "user-data": renderCloudConfig(provisionCloudConfig({ ...args, hostname: name })),
+    "meta-data": renderMetaData({ instanceId: name, hostname: name }),
+    "network-config": networkConfig ?? (nics ? networkConfigFor(nics) : undefined),
+    "vendor-data": vendorData,
+  };
+  if (!state.seed) {
+    drift.push({ path: "seed", status: "missing", expected: seedPath });
+  } else {
+    const { files } = seedFormat === "vfat" ? readVfat(state.seed) : readIso9660(state.seed);
+    drift.push(...seedDrift(seed, files));
+  }
+  return { drift, nics, seed };
+}
@@ -0,0 +1,76 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import { z } from "npm:zod@4";
+import type { DomainSpec } from "./libvirt_domain.ts";
+
+// Guest firmware: SeaBIOS (libvirt's default), or OVMF with a per-VM copy of the vars template as
+// NVRAM, optionally with Secure Boot, plus an emulated TPM 2.0 backed by swtpm.
+
+// Provision arguments for firmware — spread into each model's ProvisionArgsSchema
+export const FirmwareArgs = {
+  firmware: z.enum(["bios", "uefi", "uefi-secure"]).optional()
+    .describe("bios (SeaBIOS, default), uefi (OVMF) or uefi-secure (OVMF with Secure Boot and Microsoft keys enrolled)"),
+  tpm: z.boolean().optional().describe("Add an emulated TPM 2.0 (needs swtpm on the host)"),
+};
+
+export type Firmware = NonNullable<z.infer<typeof FirmwareArgs.firmware>>;
+
+// OVMF builds in order of preference. Unraid ships its own under /usr/share/qemu/ovmf-x64 (the
+// -tpm pair adds measured boot); the rest are the Debian/Ubuntu, Fedora/RHEL and Arch packages.
+// Secure builds pair the SMM code with a vars template that has Microsoft's keys enrolled, so
+// shim-signed cloud images and Windows boot as-is.
+export type OvmfBuild = { code: string; vars: string; secure: boolean; tpm: boolean };
+
+export const OVMF_BUILDS: OvmfBuild[] = [
+  { code: "/usr/share/qemu/ovmf-x64/OVMF_CODE-pure-efi-tpm.fd", vars: "/usr/share/qemu/ovmf-x64/OVMF_VARS-pure-efi-tpm.fd", secure: false, tpm: true },
+  { code: "/usr/share/qemu/ovmf-x64/OVMF_CODE-pure-efi.fd", vars: "/usr/share/qemu/ovmf-x64/OVMF_VARS-pure-efi.fd", secure: false, tpm: false },
+  { code: "/usr/share/OVMF/OVMF_CODE_4M.secboot.fd", vars: "/usr/share/OVMF/OVMF_VARS_4M.ms.fd", secure: true, tpm: true },
+  { code: "/usr/share/OVMF/OVMF_CODE_4M.fd", vars: "/usr/share/OVMF/OVMF_VARS_4M.fd", secure: false, tpm: true },
+  { code: "/usr/share/OVMF/OVMF_CODE.secboot.fd", vars: "/usr/share/OVMF/OVMF_VARS.ms.fd", secure: true, tpm: true },
+  { code: "/usr/share/OVMF/OVMF_CODE.fd", vars: "/usr/share/OVMF/OVMF_VARS.fd", secure: false, tpm: true },
+  { code: "/usr/share/edk2/ovmf/OVMF_CODE.secboot.fd", vars: "/usr/share/edk2/ovmf/OVMF_VARS.secboot.fd", secure: true, tpm: true },
+  { code: "/usr/share/edk2/ovmf/OVMF_CODE.fd", vars: "/usr/share/edk2/ovmf/OVMF_VARS.fd", secure: false, tpm: true },
+  { code: "/usr/share/edk2/x64/OVMF_CODE.4m.fd", vars: "/usr/share/edk2/x64/OVMF_VARS.4m.fd", secure: false, tpm: true },
+];
+
+export const nvramPath = (vmDir: string): string => `${vmDir}/nvram.fd`;
+
+// Host command printing which OVMF files exist, one path per line
+export function firmwareProbeCommand(): string {
+  const paths = [...new Set(OVMF_BUILDS.flatMap((b) => [b.code, b.vars]))];
+  return `for f in ${paths.map((p) => `'${p}'`).join(" ")}; do [ -f "$f" ] && echo "$f"; done; true`;
+}
+
+// The OVMF build to use given the files firmwareProbeCommand() found: null for bios, otherwise
+// the first build whose code and vars both exist, preferring TPM-capable builds when a TPM is wanted
+export function selectFirmware(
+  probeOutput: string,
+  { firmware = "bios", tpm = false }: { firmware?: Firmware; tpm?: boolean },
+): OvmfBuild | null {
+  if (firmware === "bios") return null;
+  const present = new Set(probeOutput.split("\n").map((l) => l.trim()).filter(Boolean));
+  const secure = firmware === "uefi-secure";
+  const candidates = OVMF_BUILDS.filter((b) => b.secure === secure);
+  const ordered = tpm ? [...candidates.filter((b) => b.tpm), ...candidates.filter((b) => !b.tpm)] : candidates;
+  const build = ordered.find((b) => present.has(b.code) && present.has(b.vars));
+  if (!build) {
+    throw new Error(`No ${secure ? "Secure Boot " : ""}OVMF firmware found on the host (looked for ${candidates.map((b) => b.code).join(", ")})`);
+  }
+  return build;
+}
+
+// Undefine a domain along with its NVRAM and swtpm state. libvirt before 8.9 has no --tpm, and
+// refuses to undefine a UEFI domain without --nvram, so each fallback drops one flag at a time.
+export function undefineCommand(name: string): string {
+  return [
+    `virsh undefine '${name}' --nvram --tpm --snapshots-metadata 2>/dev/null`,
+    `virsh undefine '${name}' --nvram --snapshots-metadata 2>/dev/null`,
+    `virsh undefine '${name}' --snapshots-metadata`,
+  ].join(" || ");
+}
+
+// The `firmware` argument a parsed domain (see parseDomainXml) corresponds to — an explicit
+// OVMF loader, or libvirt's firmware autoselection (<os firmware='efi'>)
+export function domainFirmware(spec: DomainSpec): Firmware {
+  if (!spec.os.loader && spec.os.firmware !== "efi") return "bios";
+  return spec.os.loader?.secure ? "uefi-secure" : "uefi";
+}
@@ -0,0 +1,32 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import { z } from "npm:zod@4";
+
+// Host directories shared into the guest, over virtio-9p or virtiofs. virtiofs is much faster
+// and keeps host ownership and permissions intact, but needs virtiofsd on the host and the
+// guest's memory shared with it (see cloudInitDomain's memoryBacking).
+
+export const MountSchema = z.object({
+  hostPath: z.string().describe("Host path on Unraid to expose (e.g. /mnt/user/home/rob)"),
+  tag: z.string().describe("Mount tag — used as the device name when mounting inside the VM"),
+  mountPoint: z.string().optional().describe("Path inside the VM to automount via cloud-init (omit to skip)"),
+  driver: z.enum(["9p", "virtiofs"]).optional().describe("Share protocol (default 9p); virtiofs needs virtiofsd on the host"),
+});
+
+// Where distros install virtiofsd when it isn't on PATH: Fedora/RHEL and Unraid, the older
+// QEMU-bundled builds on Debian/Ubuntu, and Arch
+const VIRTIOFSD_PATHS = ["/usr/libexec/virtiofsd", "/usr/lib/qemu/virtiofsd", "/usr/libexec/qemu/virtiofsd", "/usr/lib/virtiofsd"];
+
+export const usesVirtiofs = (mounts: Array<{ driver?: string }>): boolean => mounts.some((m) => m.driver === "virtiofs");
+
+// Host command printing the virtiofsd binary path, or nothing when it isn't installed
+export function virtiofsdProbeCommand(): string {
+  return `command -v virtiofsd || for f in ${VIRTIOFSD_PATHS.map((p) => `'${p}'`).join(" ")}; do [ -x "$f" ] && echo "$f" && break; done; true`;
+}
+
+export function virtiofsdPath(probeOutput: string): string {
+  const path = probeOutput.split("\n").map((l) => l.trim()).find(Boolean);
+  if (!path) {
+    throw new Error(`virtiofs mounts need virtiofsd on the host, but it isn't on PATH or in ${VIRTIOFSD_PATHS.join(", ")}`);
+  }
+  return path;
+}
@@ -0,0 +1,86 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import { z } from "npm:zod@4";
+import { toYaml } from "./cloud_config.ts";
+import type { DomainSpec, InterfaceSpecSchema } from "./libvirt_domain.ts";
+
+// Guest NICs for provisioning. Every NIC gets a MAC up front — the one given, or a random one in
+// QEMU's 52:54:00 prefix — so the generated netplan matches interfaces by MAC instead of by the
+// name the guest kernel happens to give them.
+
+export const MacAddressSchema = z.string()
+  .regex(/^[0-9a-fA-F]{2}(:[0-9a-fA-F]{2}){5}$/, "must be a MAC address like 52:54:00:12:34:56")
+  .refine((mac) => (parseInt(mac.slice(0, 2), 16) & 1) === 0, "must be a unicast MAC address");
+
+export const NetworkSchema = z.object({
+  bridge: z.string().optional().describe("Host bridge to attach to (default br0)"),
+  libvirtNetwork: z.string().optional().describe("libvirt network to attach to instead of a host bridge"),
+  vlanTag: z.number().int().min(1).max(4094).optional()
+    .describe("802.1Q VLAN the guest tags on this NIC; the bridge must pass tagged frames (a plain Linux bridge does)"),
+  mac: MacAddressSchema.optional().describe("Fixed MAC, e.g. for a DHCP reservation (default: random 52:54:00:xx:xx:xx)"),
+  model: z.string().optional().describe("NIC model (default virtio)"),
+}).refine((n) => !(n.bridge && n.libvirtNetwork), "bridge and libvirtNetwork are mutually exclusive");
+
+// Provision arguments for NICs — spread into each model's ProvisionArgsSchema
+export const NetworkArgs = {
+  networks: z.array(NetworkSchema).min(1).optional()
+    .describe("NICs in guest order, each with DHCP in the generated network-config (default: one NIC on br0, cloud-init's own DHCP config)"),
+};
+
+export function randomMac(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(3));
+  return ["52", "54", "00", ...Array.from(bytes, (b) => b.toString(16).padStart(2, "0"))].join(":");
+}
+
+export type ResolvedNetwork = {
+  bridge?: string;
+  libvirtNetwork?: string;
+  vlanTag?: number;
+  mac: string;
+  model: string;
+};
+
+// Fill in defaults, including a MAC for every NIC; the result is what the vm resource records
+export function resolveNetworks(networks: z.input<typeof NetworkSchema>[]): ResolvedNetwork[] {
+  return networks.map((n) => ({
+    ...(n.libvirtNetwork ? { libvirtNetwork: n.libvirtNetwork } : { bridge: n.bridge ?? "br0" }),
+    ...(n.vlanTag !== undefined ? { vlanTag: n.vlanTag } : {}),
+    mac: (n.mac ?? randomMac()).toLowerCase(),
+    model: n.model ?? "virtio",
+  }));
+}
+
+// libvirt <interface> specs (see libvirt_domain.ts) for resolved networks
+export const domainInterfaces = (networks: ResolvedNetwork[]): z.input<typeof InterfaceSpecSchema>[] =>
+  networks.map((n) => ({
+    type: n.libvirtNetwork ? "network" : "bridge",
+    source: n.libvirtNetwork ?? n.bridge,
+    mac: n.mac,
+    model: n.model,
+  }));
+
+// netplan v2 network-config for resolved networks. Each NIC is matched by MAC and runs DHCP —
+// on its VLAN sub-interface when tagged, which inherits the MAC so reservations still apply.
+// With several NICs, route metrics follow NIC order so the first one keeps the default route.
+export function networkConfigFor(networks: ResolvedNetwork[]): string {
+  const ethernets = {};
+  const vlans = {};
+  networks.forEach((n, i) => {
+    const id = `nic${i}`;
+    const dhcp = {
+      dhcp4: true,
+      ...(networks.length > 1 ? { "dhcp4-overrides": { "route-metric": 100 * (i + 1) } } : {}),
+    };
+    ethernets[id] = { match: { macaddress: n.mac }, ...(n.vlanTag === undefined ? dhcp : { dhcp4: false }) };
+    if (n.vlanTag !== undefined) vlans[`${id}.${n.vlanTag}`] = { id: n.vlanTag, link: id, ...dhcp };
+  });
+  return toYaml({ network: { version: 2, ethernets, ...(Object.keys(vlans).length > 0 ? { vlans } : {}) } });
+}
+
+// The reverse of domainInterfaces: what the vm resource records for a defined domain's NICs.
+// macvtap (direct) interfaces have no equivalent here and are left out.
+export const interfaceNetworks = (interfaces: DomainSpec["devices"]["interfaces"]): z.input<typeof NetworkSchema>[] =>
+  interfaces.filter((i) => i.type !== "direct").map((i) => ({
+    ...(i.type === "network" ? { libvirtNetwork: i.source } : { bridge: i.source }),
+    ...(i.mac ? { mac: i.mac } : {}),
+    model: i.model,
+  }));
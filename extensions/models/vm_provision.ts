@@ -0,0 +1,156 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import { makeCloudInitIso, makeCloudInitVfat, sha256Hex } from "./cloud_init_iso.ts";
+import { provisionCloudConfig, renderCloudConfig, renderMetaData } from "./cloud_config.ts";
+import { buildDomainXml, cloudInitDomain } from "./libvirt_domain.ts";
+import type { SshRunner } from "./ssh.ts";
+import type { ExpectedBacking } from "./vm_drift.ts";
+import { firmwareProbeCommand, nvramPath, selectFirmware } from "./vm_firmware.ts";
+import { usesVirtiofs, virtiofsdPath, virtiofsdProbeCommand } from "./vm_mounts.ts";
+import { domainInterfaces, networkConfigFor, resolveNetworks } from "./vm_networks.ts";
+import { provisionRollback, type ProvisionedVm, reconcileVm } from "./vm_reconcile.ts";
+
+// The provision flow both provision models run: a cloud-init VM as a qcow2 overlay on a backing
+// disk the model chooses (a cached cloud image, a template), with its seed, firmware and domain.
+// A VM that already exists is reconciled with the arguments instead (see reconcileVm), and a
+// fresh one is rolled back if any step fails, so provision can safely be run again.
+
+const enc = new TextEncoder();
+
+// Host command printing the QEMU emulator path: taken from an existing domain (most reliable —
+// reuses what already works), falling back to the x86_64 entry in virsh capabilities
+export const EMULATOR_PROBE: string =
+  `virsh list --all --name 2>/dev/null | grep -v '^$' | head -1 | xargs -r -I{} virsh dumpxml '{}' 2>/dev/null | grep -m1 '<emulator>' | sed 's|.*<emulator>||;s|</emulator>.*||' | grep -v '^$'` +
+  ` || virsh capabilities 2>/dev/null | awk '/x86_64/{f=1} f && /<emulator>/{sub(/.*<emulator>/,""); sub(/<\\/emulator>.*/,""); print; exit}'` +
+  ` || which qemu-system-x86_64 2>/dev/null || echo /usr/local/sbin/qemu`;
+
+// What the VM's disk is an overlay on. `resolve(ssh)` fetches or finds it and is only called for
+// a fresh VM, before anything is created in its directory; `expected` is the backing file an
+// existing VM should have.
+export type ProvisionBacking = {
+  expected: ExpectedBacking;
+  resolve(ssh: SshRunner): Promise<{ path: string; format: string; label: string; diskSizeGb: number }>;
+};
+
+// Provision VM `args.name` in `vmDir`, or reconcile the one that exists, and start it. Returns
+// the fields of the vm resource; what the disk was built from is for the caller to add.
+export async function provisionVm(
+  ssh: SshRunner,
+  args: Parameters<typeof reconcileVm>[1],
+  { vmDir, backing }: { vmDir: string; backing: ProvisionBacking },
+  logger: { info(message: string): void },
+): Promise<ProvisionedVm> {
+  const { name, cpus, memoryMiB, mounts = [], networks, networkConfig, vendorData, seedFormat = "iso" } = args;
+  const { firmware = "bios", tpm = false } = args;
+  const seedPath = `${vmDir}/${seedFormat === "vfat" ? "seed.img" : "seed.iso"}`;
+
+  // Validate and render cloud-init documents up front — a bad config fails here, before
+  // anything is created on the host
+  const userData = renderCloudConfig(provisionCloudConfig({ ...args, hostname: name }));
+  const metaData = renderMetaData({ instanceId: name, hostname: name });
+  // MACs are fixed here so the domain and the generated netplan agree on them
+  const nics = networks ? resolveNetworks(networks) : undefined;
+
+  // Run again for an existing VM: no-op when it matches, otherwise reconcile in place
+  if ((await ssh(`virsh dominfo '${name}'`, { allowFailure: true })).code === 0) {
+    logger.info(`VM '${name}' already exists; reconciling it with the provision arguments...`);
+    return await reconcileVm(ssh, args, { vmDir, backing: backing.expected }, logger);
+  }
+  // qemu-img create would overwrite it: a disk without a domain may still hold someone's data
+  if ((await ssh(`test -e '${vmDir}/disk.qcow2'`, { allowFailure: true })).code === 0) {
+    throw new Error(`${vmDir}/disk.qcow2 exists but no VM '${name}' is defined; move it aside or remove it first`);
+  }
+
+  const rollback = provisionRollback(ssh, { name, vmDir });
+  try {
+    // 1. Resolve the backing disk — a verified cloud image or a template — before touching the VM dir
+    const base = await backing.resolve(ssh);
+    const { diskSizeGb } = base;
+    logger.info(`Provisioning ${name}: ${base.label}, ${cpus} vCPU, ${memoryMiB}MiB RAM, ${diskSizeGb}GB disk`);
+
+    // 2. Directories
+    await rollback.makeDir();
+    logger.info("Directories ready.");
+
+    // 3. Create VM disk (qcow2 overlay on the backing disk — efficient, no full copy)
+    logger.info(`Creating ${diskSizeGb}GB qcow2 disk...`);
+    rollback.track(`${vmDir}/disk.qcow2`);
+    await ssh(`qemu-img create -f qcow2 -F ${base.format} -b '${base.path}' '${vmDir}/disk.qcow2' ${diskSizeGb}G`);
+
+    // 4. Build cloud-init seed (ISO or FAT image) locally and upload — no remote tools required
+    logger.info(`Building cloud-init seed (${seedFormat})...`);
+    const seedNetworkConfig = networkConfig ?? (nics ? networkConfigFor(nics) : undefined);
+    const seedBytes = seedFormat === "vfat"
+      ? makeCloudInitVfat(userData, metaData, { networkConfig: seedNetworkConfig, vendorData })
+      : makeCloudInitIso(userData, metaData, { networkConfig: seedNetworkConfig, vendorData });
+    const seedSha256 = await sha256Hex(seedBytes);
+    rollback.track(seedPath);
+    await ssh(`cat > '${seedPath}'`, { input: seedBytes });
+    logger.info(`Seed uploaded to ${seedPath} (${seedBytes.length} bytes, sha256 ${seedSha256}).`);
+
+    // 5. Resolve emulator path, machine type, OVMF firmware, virtiofsd, and generate UUID in parallel
+    logger.info("Resolving QEMU emulator, machine type, firmware, and UUID...");
+    const [emulatorRes, uuidRes, machineRes, firmwareRes, virtiofsdRes] = await Promise.all([
+      ssh(EMULATOR_PROBE, { allowFailure: true }),
+      ssh(`cat /proc/sys/kernel/random/uuid`),
+      ssh(`virsh capabilities 2>/dev/null | grep -o 'pc-q35-[0-9.]*' | sort -V | tail -1 || echo pc-q35-8.2`, { allowFailure: true }),
+      firmware === "bios" ? { stdout: "" } : ssh(firmwareProbeCommand()),
+      usesVirtiofs(mounts) ? ssh(virtiofsdProbeCommand()) : null,
+    ]);
+
+    const emulator = emulatorRes.stdout.trim() || "/usr/local/sbin/qemu";
+    const uuid = uuidRes.stdout;
+    const machine = machineRes.stdout.trim() || "pc-q35-8.2";
+    logger.info(`Emulator: ${emulator}  Machine: ${machine}  UUID: ${uuid}`);
+
+    const virtiofsd = virtiofsdRes && virtiofsdPath(virtiofsdRes.stdout);
+    if (virtiofsd) logger.info(`virtiofsd: ${virtiofsd}`);
+
+    // UEFI guests get their own NVRAM, copied from the firmware's vars template
+    const ovmf = selectFirmware(firmwareRes.stdout, { firmware, tpm });
+    const uefi = ovmf && { ...ovmf, nvram: nvramPath(vmDir) };
+    if (uefi) {
+      logger.info(`Firmware: ${uefi.code}  NVRAM: ${uefi.nvram}`);
+      rollback.track(uefi.nvram);
+      await ssh(`cp '${uefi.vars}' '${uefi.nvram}'`);
+    }
+
+    // 6. Write libvirt domain XML and define it
+    logger.info("Defining VM in libvirt...");
+    const domainXml = buildDomainXml(cloudInitDomain({
+      name,
+      uuid: uuid.trim(),
+      cpus,
+      memoryMiB,
+      machine,
+      emulator,
+      diskPath: `${vmDir}/disk.qcow2`,
+      seedPath,
+      seedFormat,
+      mounts,
+      interfaces: nics ? domainInterfaces(nics) : undefined,
+      uefi,
+      tpm,
+      virtiofsd,
+    }));
+
+    rollback.track(`${vmDir}/domain.xml`);
+    await ssh(`cat > '${vmDir}/domain.xml'`, { input: enc.encode(domainXml) });
+    await ssh(`virsh define '${vmDir}/domain.xml'`);
+    rollback.markDefined();
+
+    // 7. Start VM
+    logger.info("Starting VM...");
+    await ssh(`virsh start '${name}'`);
+
+    logger.info(`VM '${name}' provisioned and started. UUID: ${uuid}`);
+    return {
+      name, uuid, state: "RUNNING",
+      diskPath: `${vmDir}/disk.qcow2`,
+      cpus, memoryMiB, seedSha256, networks: nics, firmware, tpm,
+    };
+  } catch (err) {
+    // Undo this run's changes so a failed provision can simply be run again
+    await rollback.undo(logger);
+    throw err;
+  }
+}
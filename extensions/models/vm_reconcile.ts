@@ -0,0 +1,160 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import { makeCloudInitIso, makeCloudInitVfat, sha256Hex } from "./cloud_init_iso.ts";
+import type { SshRunner } from "./ssh.ts";
+import { type DriftItem, type ExpectedBacking, provisionDrift, readVmState } from "./vm_drift.ts";
+import { undefineCommand } from "./vm_firmware.ts";
+import type { ResolvedNetwork } from "./vm_networks.ts";
+import { applyResize } from "./vm_resize.ts";
+
+// Making provision safe to run again. For a VM that already exists it is a no-op when the VM
+// matches its provision arguments, otherwise the drift (see vm_drift.ts) is brought back in
+// line where that can be done in place; a fresh provision that fails is rolled back. Shared by
+// both provision models; helpers take an `ssh(cmd, opts)` runner.
+
+// Records what a fresh provision creates on the host so undo() can remove it again. Files are
+// tracked before the step that writes them, as a failed step may leave part of one behind; the
+// VM directory is only removed when makeDir() created it.
+export type ProvisionRollback = {
+  makeDir(): Promise<void>;
+  track(path: string): void;
+  markDefined(): void;
+  undo(logger: { info(message: string): void }): Promise<void>;
+};
+
+export function provisionRollback(ssh: SshRunner, { name, vmDir }: { name: string; vmDir: string }): ProvisionRollback {
+  let createdDir = false;
+  let defined = false;
+  const files = [];
+  return {
+    async makeDir() {
+      createdDir = (await ssh(`test -d '${vmDir}' || { mkdir -p '${vmDir}' && echo created; }`)).stdout === "created";
+    },
+    track(path) {
+      files.push(path);
+    },
+    markDefined() {
+      defined = true;
+    },
+    async undo(logger) {
+      if (!createdDir && files.length === 0) return;
+      logger.info(`Provisioning '${name}' failed; rolling back...`);
+      if (defined) {
+        await ssh(`virsh destroy '${name}'`, { allowFailure: true });
+        await ssh(undefineCommand(name), { allowFailure: true });
+      }
+      await ssh(createdDir ? `rm -rf '${vmDir}'` : `rm -f ${files.map((p) => `'${p}'`).join(" ")}`, { allowFailure: true });
+    },
+  };
+}
+
+// Sort drift into what a repeated provision changes in place — vCPUs and memory, a root disk
+// smaller than asked for, the cloud-init seed — and what it doesn't: `kept` is drift left alone
+// on purpose (disks only grow, and disks provision didn't create hold data), `blockers` what
+// only a destroy and fresh provision can change (backing image, firmware, NICs, mounts, ...).
+export type ReconcilePlan = { resize: boolean; growDisk: boolean; seed: boolean; kept: DriftItem[]; blockers: DriftItem[] };
+
+export function reconcilePlan(drift: DriftItem[]): ReconcilePlan {
+  const plan = { resize: false, growDisk: false, seed: false, kept: [], blockers: [] };
+  for (const d of drift) {
+    if (d.path === "cpus" || d.path === "memoryMiB") plan.resize = true;
+    else if (d.path === "disk/vda/sizeGb" && d.expected > d.actual) plan.growDisk = true;
+    else if (d.path === "seed" || d.path.startsWith("seed/")) plan.seed = true;
+    else if (d.path === "disk/vda/sizeGb" || (d.path.startsWith("disk/") && d.status === "unexpected")) plan.kept.push(d);
+    else plan.blockers.push(d);
+  }
+  return plan;
+}
+
+function describeDrift(d) {
+  const values = [
+    ...(d.expected !== undefined ? [`expected ${d.expected}`] : []),
+    ...(d.actual !== undefined ? [`actual ${d.actual}`] : []),
+  ];
+  return `${d.path} ${d.status}${values.length > 0 ? ` (${values.join(", ")})` : ""}`;
+}
+
+// The vm resource fields of a provisioned or reconciled VM
+export type ProvisionedVm = {
+  name: string;
+  uuid?: string;
+  state: string;
+  diskPath: string;
+  cpus: number;
+  memoryMiB: number;
+  seedSha256?: string;
+  networks?: ResolvedNetwork[];
+  firmware: string;
+  tpm: boolean;
+  pendingRestart?: boolean;
+};
+
+// Bring the existing VM `args.name` in line with its provision arguments and start it if it is
+// shut off. Throws before changing anything when reconcilePlan finds blockers. `backing` is as
+// for domainDrift; returns the fields of the vm resource.
+export async function reconcileVm(
+  ssh: SshRunner,
+  args: Parameters<typeof provisionDrift>[1],
+  { vmDir, backing }: { vmDir: string; backing?: ExpectedBacking },
+  logger: { info(message: string): void },
+): Promise<ProvisionedVm> {
+  const { name, cpus, memoryMiB, diskSizeGb, seedFormat = "iso" } = args;
+  const seedPath = `${vmDir}/${seedFormat === "vfat" ? "seed.img" : "seed.iso"}`;
+  const state = await readVmState(ssh, name, seedPath);
+  const { drift, nics, seed } = provisionDrift(state, args, { vmDir, seedPath, backing });
+  const plan = reconcilePlan(drift);
+  if (plan.blockers.length > 0) {
+    throw new Error(
+      `VM '${name}' already exists and differs from the provision arguments in ways provision can't change in place: ` +
+        `${plan.blockers.map(describeDrift).join("; ")}. Destroy it and provision again, or change the arguments to match.`,
+    );
+  }
+  for (const d of plan.kept) logger.info(`Leaving ${describeDrift(d)} as it is.`);
+  if (drift.length === plan.kept.length) logger.info(`VM '${name}' already matches its provision arguments.`);
+
+  let pendingRestart = false;
+  if (plan.resize) {
+    logger.info(`Resizing '${name}' to ${cpus} vCPU, ${memoryMiB}MiB RAM...`);
+    pendingRestart = await applyResize(ssh, name, { cpus, memoryMiB }, logger);
+  }
+
+  const status = (await ssh(`virsh domstate '${name}'`)).stdout.trim();
+  if (plan.growDisk) {
+    // blockresize tells an active guest about the new capacity; cloud-init's growpart and
+    // resizefs grow the root filesystem on the next boot
+    await ssh(status === "shut off"
+      ? `qemu-img resize '${vmDir}/disk.qcow2' ${diskSizeGb}G`
+      : `virsh blockresize '${name}' vda ${diskSizeGb}G`);
+    logger.info(`Grew vda of '${name}' to ${diskSizeGb}GB; the root filesystem grows on next boot.`);
+  }
+
+  let seedBytes = state.seed;
+  if (plan.seed) {
+    const options = { networkConfig: seed["network-config"], vendorData: seed["vendor-data"] };
+    seedBytes = seedFormat === "vfat"
+      ? makeCloudInitVfat(seed["user-data"], seed["meta-data"], options)
+      : makeCloudInitIso(seed["user-data"], seed["meta-data"], options);
+    // Moved into place, so a running guest keeps reading the seed it booted with
+    await ssh(`cat > '${seedPath}.part' && mv '${seedPath}.part' '${seedPath}'`, { input: seedBytes });
+    logger.info(`Seed rewritten at ${seedPath}. The instance-id is unchanged, so cloud-init only applies it in per-boot modules.`);
+  }
+
+  if (status === "shut off") {
+    logger.info(`Starting '${name}'...`);
+    await ssh(`virsh start '${name}'`);
+    pendingRestart = false;
+  }
+
+  return {
+    name,
+    uuid: state.spec.uuid,
+    state: (await ssh(`virsh domstate '${name}'`)).stdout.trim(),
+    diskPath: `${vmDir}/disk.qcow2`,
+    cpus,
+    memoryMiB,
+    seedSha256: seedBytes ? await sha256Hex(seedBytes) : undefined,
+    networks: nics,
+    firmware: args.firmware ?? "bios",
+    tpm: args.tpm ?? false,
+    pendingRestart,
+  };
+}
@@ -0,0 +1,87 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import type { SshRunner } from "./ssh.ts";
+
+// vCPU and memory changes for existing domains. The saved definition always changes; the running
+// domain only within the maximums it was started with — vCPUs by hotplug, memory by balloon.
+
+export type DomainSizing = { maxCpus: number; cpus: number; maxMemoryMiB: number; memoryMiB: number };
+
+type ResizeTarget = { cpus?: number; memoryMiB?: number };
+
+const UNITS = { b: 1, bytes: 1, KiB: 1024, k: 1024, MiB: 1024 ** 2, M: 1024 ** 2, GiB: 1024 ** 3, G: 1024 ** 3 };
+
+const toMiB = (value, unit = "KiB") => Math.round((Number(value) * (UNITS[unit] ?? 1024)) / 1024 ** 2);
+
+// vCPU and memory sizing from `virsh dumpxml`: current values and the maximums they can reach
+export function parseDomainSizing(xml: string): DomainSizing {
+  const vcpu = xml.match(/<vcpu\b([^>]*)>\s*(\d+)\s*<\/vcpu>/);
+  const memory = xml.match(/<memory\b(?:[^>]*\bunit=['"](\w+)['"])?[^>]*>\s*(\d+)\s*<\/memory>/);
+  const current = xml.match(/<currentMemory\b(?:[^>]*\bunit=['"](\w+)['"])?[^>]*>\s*(\d+)\s*<\/currentMemory>/);
+  if (!vcpu || !memory) throw new Error("Domain XML has no <vcpu> or <memory> element");
+  const maxCpus = Number(vcpu[2]);
+  const maxMemoryMiB = toMiB(memory[2], memory[1]);
+  return {
+    maxCpus,
+    cpus: Number(vcpu[1].match(/\bcurrent=['"](\d+)['"]/)?.[1] ?? maxCpus),
+    maxMemoryMiB,
+    memoryMiB: current ? toMiB(current[2], current[1]) : maxMemoryMiB,
+  };
+}
+
+// virsh commands to resize domain `name`. `config` rewrites the saved definition so the maximum
+// equals the new size, like a freshly provisioned VM, ordering each pair so current never
+// exceeds maximum. `live` (when `running` describes the running domain) holds the commands that
+// fit inside its current maximums; `restartNeeded` says the rest only applies after a cold boot.
+export function resizePlan(
+  name: string,
+  { config, running = null }: { config: DomainSizing; running?: DomainSizing | null },
+  { cpus, memoryMiB }: ResizeTarget,
+): { config: string[]; live: string[]; restartNeeded: boolean } {
+  const plan = { config: [], live: [], restartNeeded: false };
+  if (cpus !== undefined && (cpus !== config.cpus || cpus !== config.maxCpus)) {
+    const max = `virsh setvcpus '${name}' ${cpus} --config --maximum`;
+    const cur = `virsh setvcpus '${name}' ${cpus} --config`;
+    plan.config.push(...(cpus > config.maxCpus ? [max, cur] : [cur, max]));
+  }
+  if (memoryMiB !== undefined && (memoryMiB !== config.memoryMiB || memoryMiB !== config.maxMemoryMiB)) {
+    const max = `virsh setmaxmem '${name}' ${memoryMiB}M --config`;
+    const cur = `virsh setmem '${name}' ${memoryMiB}M --config`;
+    plan.config.push(...(memoryMiB > config.maxMemoryMiB ? [max, cur] : [cur, max]));
+  }
+  if (running) {
+    if (cpus !== undefined && cpus !== running.cpus) {
+      if (cpus <= running.maxCpus) plan.live.push(`virsh setvcpus '${name}' ${cpus} --live`);
+      else plan.restartNeeded = true;
+    }
+    if (memoryMiB !== undefined && memoryMiB !== running.memoryMiB) {
+      if (memoryMiB <= running.maxMemoryMiB) plan.live.push(`virsh setmem '${name}' ${memoryMiB}M --live`);
+      else plan.restartNeeded = true;
+    }
+  }
+  return plan;
+}
+
+// Resize domain `name` as resizePlan lays out. vCPU hot-unplug needs guest cooperation and can
+// be refused, which leaves that change for a cold boot; returns whether one is needed.
+export async function applyResize(
+  ssh: SshRunner,
+  name: string,
+  { cpus, memoryMiB }: ResizeTarget,
+  logger: { info(message: string): void },
+): Promise<boolean> {
+  const isRunning = (await ssh(`virsh domstate '${name}'`)).stdout.trim() === "running";
+  const config = parseDomainSizing((await ssh(`virsh dumpxml '${name}' --inactive`)).stdout);
+  const running = isRunning ? parseDomainSizing((await ssh(`virsh dumpxml '${name}'`)).stdout) : null;
+  const plan = resizePlan(name, { config, running }, { cpus, memoryMiB });
+
+  for (const cmd of plan.config) await ssh(cmd);
+  let pendingRestart = plan.restartNeeded;
+  for (const cmd of plan.live) {
+    const res = await ssh(cmd, { allowFailure: true });
+    if (res.code !== 0) {
+      logger.info(`Live change refused (${res.stderr}); it applies at the next cold boot.`);
+      pendingRestart = true;
+    }
+  }
+  return pendingRestart;
+}
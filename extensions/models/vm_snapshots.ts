@@ -0,0 +1,147 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import { z } from "npm:zod@4";
+import { shellQuote } from "./ssh.ts";
+import { parseDisk, parseXml } from "./libvirt_domain.ts";
+import type { SshRunner } from "./ssh.ts";
+
+// libvirt snapshots — internal (qcow2-embedded, with memory state when the VM is running) or
+// external disk-only overlays. Shared by both provision models; every helper takes an
+// `ssh(cmd, opts)` runner for the hypervisor host.
+
+export const SnapshotNameSchema = z.string()
+  .regex(/^[A-Za-z0-9][A-Za-z0-9._-]*$/, "letters, digits, '.', '_' and '-' only, starting with a letter or digit");
+
+export const CreateSnapshotArgsSchema = z.object({
+  name: z.string().describe("VM to snapshot"),
+  snapshot: SnapshotNameSchema.describe("Snapshot name"),
+  description: z.string().optional().describe("Free-text description stored with the snapshot"),
+  external: z.boolean().optional().describe("Disk-only snapshot into new qcow2 overlays beside each disk, instead of internal (default false)"),
+  quiesce: z.boolean().optional().describe("Freeze guest filesystems via the guest agent while an external snapshot is taken"),
+});
+
+export const RevertSnapshotArgsSchema = z.object({
+  name: z.string().describe("VM to revert"),
+  snapshot: SnapshotNameSchema.describe("Snapshot to revert to"),
+  state: z.enum(["running", "paused"]).optional().describe("Force the VM into this state after reverting (default: the state recorded in the snapshot)"),
+});
+
+export const DeleteSnapshotArgsSchema = z.object({
+  name: z.string().describe("VM owning the snapshot"),
+  snapshot: SnapshotNameSchema.describe("Snapshot to delete"),
+  children: z.boolean().optional().describe("Also delete every snapshot descended from this one"),
+});
+
+export const SnapshotSchema = z.object({
+  vm: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  parent: z.string().optional(),
+  createdAt: z.string(),
+  state: z.string().describe("VM state captured: running, paused, shutoff or disk-snapshot"),
+  location: z.enum(["internal", "external"]),
+  current: z.boolean(),
+});
+
+export type Snapshot = z.infer<typeof SnapshotSchema>;
+
+type SnapshotOptions = { snapshot: string; description?: string; external?: boolean; quiesce?: boolean };
+
+const unescapeXml = (s) =>
+  s.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, "&");
+
+const attr = (tag, name) => tag.match(new RegExp(`\\b${name}=['"]([^'"]*)['"]`))?.[1];
+
+export type DomainDisk = { device: string; format?: string; source?: string; target?: string; serial?: string; readonly: boolean };
+
+// Disks from `virsh dumpxml`
+export function parseDomainDisks(xml: string): DomainDisk[] {
+  const devices = parseXml(xml).children.find((c) => c.name === "devices");
+  return (devices?.children ?? []).filter((c) => c.name === "disk").map((node) => {
+    const { device, format, source, target, serial, readonly } = parseDisk(node);
+    return { device, format, source, target, serial, readonly: readonly === true };
+  });
+}
+
+// Only writable qcow2 disks can hold an internal snapshot or take an external overlay — the
+// cloud-init seed (raw ISO or FAT image) and anything else is left out of the snapshot
+export function snapshotCreateCommand(
+  domain: string,
+  disks: DomainDisk[],
+  { snapshot, description, external = false, quiesce = false }: SnapshotOptions,
+): string {
+  if (quiesce && !external) throw new Error("quiesce applies only to external snapshots");
+  const specs = disks.filter((d) => d.target).map((d) => {
+    if (d.device !== "disk" || d.format !== "qcow2" || d.readonly) return `--diskspec ${d.target},snapshot=no`;
+    if (!external) return `--diskspec ${d.target},snapshot=internal`;
+    const dir = d.source.slice(0, d.source.lastIndexOf("/"));
+    return `--diskspec ${d.target},snapshot=external,file=${dir}/${d.target}-${snapshot}.qcow2`;
+  });
+  return [
+    `virsh snapshot-create-as '${domain}' '${snapshot}'`,
+    ...(description ? [`--description ${shellQuote(description)}`] : []),
+    "--atomic",
+    ...(external ? ["--disk-only"] : []),
+    ...(quiesce ? ["--quiesce"] : []),
+    ...specs,
+  ].join(" ");
+}
+
+// Parse `virsh snapshot-dumpxml`. The snapshot embeds a full copy of the domain XML, whose own
+// <name> and <description> must not be mistaken for the snapshot's.
+export function parseSnapshotXml(xml: string): Omit<Snapshot, "vm" | "current"> {
+  const own = xml.replace(/<(domain|inactiveDomain)\b[\s\S]*<\/\1>/g, "");
+  const text = (tag) => {
+    const m = own.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+    return m ? unescapeXml(m[1].trim()) : undefined;
+  };
+  const parent = own.match(/<parent>\s*<name>([\s\S]*?)<\/name>\s*<\/parent>/)?.[1];
+  const external = attr(own.match(/<memory\b[^>]*>/)?.[0] ?? "", "snapshot") === "external" ||
+    /<disk\b[^>]*\bsnapshot=['"]external['"]/.test(own);
+  return {
+    name: text("name"),
+    description: text("description"),
+    parent: parent === undefined ? undefined : unescapeXml(parent),
+    createdAt: new Date(Number(text("creationTime")) * 1000).toISOString(),
+    state: text("state"),
+    location: external ? "external" : "internal",
+  };
+}
+
+export async function readSnapshot(ssh: SshRunner, domain: string, snapshot: string): Promise<Snapshot> {
+  const [xmlRes, currentRes] = await Promise.all([
+    ssh(`virsh snapshot-dumpxml '${domain}' '${snapshot}'`),
+    ssh(`virsh snapshot-current '${domain}' --name`, { allowFailure: true }),
+  ]);
+  return { vm: domain, ...parseSnapshotXml(xmlRes.stdout), current: currentRes.stdout.trim() === snapshot };
+}
+
+export async function createSnapshot(ssh: SshRunner, domain: string, options: SnapshotOptions): Promise<Snapshot> {
+  const disks = parseDomainDisks((await ssh(`virsh dumpxml '${domain}'`)).stdout);
+  await ssh(snapshotCreateCommand(domain, disks, options));
+  return await readSnapshot(ssh, domain, options.snapshot);
+}
+
+// Snapshots of a domain, oldest first
+export async function listSnapshots(ssh: SshRunner, domain: string): Promise<Snapshot[]> {
+  const names = (await ssh(`virsh snapshot-list '${domain}' --name --topological`)).stdout
+    .split("\n").map((l) => l.trim()).filter(Boolean);
+  const snapshots = [];
+  for (const name of names) snapshots.push(await readSnapshot(ssh, domain, name));
+  return snapshots;
+}
+
+export async function revertSnapshot(
+  ssh: SshRunner,
+  domain: string,
+  { snapshot, state }: { snapshot: string; state?: "running" | "paused" },
+): Promise<void> {
+  await ssh(`virsh snapshot-revert '${domain}' '${snapshot}'${state ? ` --${state}` : ""}`);
+}
+
+export async function deleteSnapshot(
+  ssh: SshRunner,
+  domain: string,
+  { snapshot, children = false }: { snapshot: string; children?: boolean },
+): Promise<void> {
+  await ssh(`virsh snapshot-delete '${domain}' '${snapshot}'${children ? " --children" : ""}`);
+}
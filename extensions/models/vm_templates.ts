@@ -0,0 +1,83 @@
+// @ts-nocheck — swamp extension models run without type checking; only exported signatures are annotated, for callers
+import { z } from "npm:zod@4";
+import { shellQuote } from "./ssh.ts";
+
+// Golden-image templates — a provisioned VM is customized, sealed so clones boot as fresh
+// instances, and flattened into a standalone read-only qcow2 that linked clones use as their
+// backing file.
+
+const GiB = 1024 ** 3;
+
+export const TemplateNameSchema = z.string()
+  .regex(/^[A-Za-z0-9][A-Za-z0-9._-]*$/, "letters, digits, '.', '_' and '-' only, starting with a letter or digit");
+
+// Templates live beside the VM directories, hidden like the image cache
+export function templatePaths(domainsDir: string, name: string): { dir: string; disk: string; meta: string } {
+  const dir = `${domainsDir}/.templates`;
+  return { dir, disk: `${dir}/${name}.qcow2`, meta: `${dir}/${name}.json` };
+}
+
+// Kernel modules, sysctls and swap settings k3s (and kubelet in general) expects on a node
+const K3S_PREREQUISITES = [
+  "printf 'overlay\\nbr_netfilter\\n' > /etc/modules-load.d/k3s.conf",
+  "modprobe overlay && modprobe br_netfilter",
+  "printf 'net.bridge.bridge-nf-call-iptables = 1\\nnet.bridge.bridge-nf-call-ip6tables = 1\\nnet.ipv4.ip_forward = 1\\n' > /etc/sysctl.d/90-k3s.conf",
+  "sysctl -p /etc/sysctl.d/90-k3s.conf >/dev/null",
+  "swapoff -a && sed -i '/\\sswap\\s/s/^/#/' /etc/fstab",
+];
+
+// Guest-side script that customizes the source VM before it is sealed: packages through whichever
+// package manager the distro has, the k3s node prerequisites, then arbitrary commands in order
+export function customizeScript(
+  { packages = [], k3sPrerequisites = false, commands = [] }: { packages?: string[]; k3sPrerequisites?: boolean; commands?: string[] } = {},
+): string {
+  const pkgs = [...packages, ...(k3sPrerequisites ? ["curl", "nfs-common", "open-iscsi"] : [])];
+  const lines = ["set -e"];
+  if (pkgs.length > 0) {
+    const list = pkgs.map(shellQuote).join(" ");
+    // RPM distros name the iSCSI/NFS clients differently
+    const rpmList = list.replace("'nfs-common'", "'nfs-utils'").replace("'open-iscsi'", "'iscsi-initiator-utils'");
+    lines.push(
+      `if command -v apt-get >/dev/null 2>&1; then export DEBIAN_FRONTEND=noninteractive; apt-get update -q && apt-get install -y -q ${list}; ` +
+        `elif command -v dnf >/dev/null 2>&1; then dnf install -y ${rpmList}; ` +
+        `elif command -v zypper >/dev/null 2>&1; then zypper --non-interactive install ${list.replace("'nfs-common'", "'nfs-client'")}; ` +
+        `else echo 'no supported package manager' >&2; exit 1; fi`,
+    );
+  }
+  if (k3sPrerequisites) lines.push(...K3S_PREREQUISITES);
+  lines.push(...commands);
+  return lines.join("\n") + "\n";
+}
+
+// Guest-side script that strips per-instance identity so every clone is a new instance to
+// cloud-init: instance state and seed cache, machine-id, SSH host keys, DHCP leases and shell
+// history. cloud-init regenerates the host keys and user accounts on each clone's first boot.
+export function sealScript({ removeUsers = [] }: { removeUsers?: string[] } = {}): string {
+  return [
+    "set -e",
+    // Never seal mid-provision — a half-applied cloud-config would be baked into every clone
+    "cloud-init status --wait >/dev/null 2>&1 || true",
+    ...removeUsers.map((u) => `if id '${u}' >/dev/null 2>&1; then pkill -KILL -u '${u}' || true; userdel -r '${u}' 2>/dev/null || userdel '${u}'; fi`),
+    ...(removeUsers.length > 0 ? ["rm -f /etc/sudoers.d/90-cloud-init-users"] : []),
+    "cloud-init clean --logs --seed",
+    // Empty (not missing) machine-id makes systemd generate a fresh one on first boot
+    "truncate -s 0 /etc/machine-id",
+    "if [ -e /var/lib/dbus/machine-id ] && [ ! -L /var/lib/dbus/machine-id ]; then rm -f /var/lib/dbus/machine-id; ln -s /etc/machine-id /var/lib/dbus/machine-id; fi",
+    "rm -f /etc/ssh/ssh_host_*",
+    "rm -f /var/lib/dhcp/*.leases /var/lib/NetworkManager/*.lease /var/lib/systemd/network/*.lease 2>/dev/null || true",
+    "rm -f /root/.bash_history /home/*/.bash_history",
+    "rm -rf /tmp/* /var/tmp/*",
+    "sync",
+  ].join("\n") + "\n";
+}
+
+// Disk size for a clone: the requested size, or the template's own size when omitted. A linked
+// clone smaller than its backing file would cut off the end of the template's filesystem.
+export function cloneDiskSizeGb(virtualSizeBytes: number, requestedGb?: number): number {
+  const minGb = Math.ceil(virtualSizeBytes / GiB);
+  if (requestedGb === undefined) return minGb;
+  if (requestedGb * GiB < virtualSizeBytes) {
+    throw new Error(`diskSizeGb ${requestedGb} is smaller than the template disk (${minGb}GB)`);
+  }
+  return requestedGb;
+}
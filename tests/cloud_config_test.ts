@@ -0,0 +1,272 @@
+import { assert, assertEquals, assertStringIncludes, assertThrows } from "jsr:@std/assert";
+import { parse } from "jsr:@std/yaml";
+import {
+  composeUserData,
+  detectUserDataType,
+  mergeCloudConfig,
+  provisionCloudConfig,
+  renderCloudConfig,
+  renderMetaData,
+  SshPublicKeySchema,
+  toYaml,
+} from "../extensions/models/cloud_config.ts";
+
+const KEY = "ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIGx0ZXN0a2V5bWF0ZXJpYWwrL2Jhc2U2NA rob@host";
+
+// --- toYaml ---
+
+Deno.test("toYaml round-trips nested maps and sequences", () => {
+  const doc = {
+    hostname: "vm1",
+    users: [{ name: "rob", groups: ["adm", "sudo"], lock_passwd: false }],
+    mounts: [["share", "/mnt/share", "9p", "trans=virtio,rw,nofail", 0, 0]],
+    empty: [],
+    nested: { a: { b: 1 } },
+  };
+  assertEquals(parse(toYaml(doc)), doc);
+});
+
+Deno.test("toYaml quotes strings that would change type or break structure", () => {
+  const values = ["yes", "no", "on", "off", "null", "~", "24.04", "0644", "1:20", "-x", "a: b", "# not a comment",
+    "trailing ", " leading", ".inf", "[flow]", "{map}", "a, b", "*alias", "&anchor", "!tag", "%dir", "@at", "`tick", "'", '"', ""];
+  for (const value of values) {
+    assertEquals(parse(toYaml({ value })), { value }, `value ${JSON.stringify(value)}`);
+  }
+  const yaml = toYaml({ v: "yes" });
+  assertEquals(yaml, 'v: "yes"\n');
+});
+
+Deno.test("toYaml leaves ordinary strings plain", () => {
+  assertEquals(toYaml({ cmd: "systemctl enable qemu-guest-agent", path: "/etc/hosts" }), "cmd: systemctl enable qemu-guest-agent\npath: /etc/hosts\n");
+});
+
+Deno.test("toYaml writes multi-line strings as literal blocks with exact chomping", () => {
+  for (const content of ["line one\nline two\n", "no newline\nat end", "kept\n\n\n", "  indented first\nline\n", "a\n  b\n\tc\n"]) {
+    const doc = { write_files: [{ path: "/etc/x", content }] };
+    assertEquals(parse(toYaml(doc)), doc, JSON.stringify(content));
+  }
+  assertStringIncludes(toYaml({ content: "a\nb\n" }), "content: |\n  a\n  b\n");
+});
+
+Deno.test("toYaml serializes scalars and control characters", () => {
+  assertEquals(parse(toYaml({ n: 3, f: 1.5, t: true, z: null, ctl: "bell\u0007" })), { n: 3, f: 1.5, t: true, z: null, ctl: "bell\u0007" });
+  assertThrows(() => toYaml({ n: NaN }), Error, "Cannot serialize");
+});
+
+// --- renderCloudConfig ---
+
+Deno.test("renderCloudConfig emits the #cloud-config header", () => {
+  const yaml = renderCloudConfig({ hostname: "vm1", package_update: true });
+  assert(yaml.startsWith("#cloud-config\n"));
+  assertEquals(parse(yaml), { hostname: "vm1", package_update: true });
+});
+
+Deno.test("renderCloudConfig passes through modules it does not model", () => {
+  const yaml = renderCloudConfig({ hostname: "vm1", ntp: { enabled: true, servers: ["pool.ntp.org"] } });
+  assertEquals(parse(yaml), { hostname: "vm1", ntp: { enabled: true, servers: ["pool.ntp.org"] } });
+});
+
+Deno.test("renderCloudConfig rejects invalid users, files and mounts with their paths", () => {
+  const err = assertThrows(() =>
+    renderCloudConfig({
+      hostname: "bad_host",
+      users: [{ name: "Rob", ssh_authorized_keys: ["not a key"] }],
+      write_files: [{ path: "relative/path", content: "x", permissions: "rw-r--r--" }],
+      mounts: [[]],
+      runcmd: [""],
+    })
+  ) as Error;
+  for (const path of ["hostname", "users.0.name", "users.0.ssh_authorized_keys.0", "write_files.0.path", "write_files.0.permissions", "mounts.0", "runcmd.0"]) {
+    assertStringIncludes(err.message, `  ${path}:`);
+  }
+});
+
+Deno.test("renderCloudConfig rejects unknown user and write_files keys", () => {
+  assertThrows(() => renderCloudConfig({ users: [{ name: "rob", sudoers: "ALL" }] }), Error, "users.0");
+  assertThrows(() => renderCloudConfig({ write_files: [{ path: "/x", contents: "typo" }] }), Error, "write_files.0");
+});
+
+Deno.test("SshPublicKeySchema rejects multi-line and injected keys", () => {
+  assert(SshPublicKeySchema.safeParse(KEY).success);
+  assert(SshPublicKeySchema.safeParse(KEY + "\n").success, "trailing newline is trimmed");
+  assert(!SshPublicKeySchema.safeParse(`${KEY}\nruncmd: [reboot]`).success);
+  assert(!SshPublicKeySchema.safeParse("ssh-ed25519 AAAA\"; rm -rf /").success);
+});
+
+// --- provision config ---
+
+Deno.test("provisionCloudConfig renders the provision user, agent and mounts", () => {
+  const yaml = renderCloudConfig(provisionCloudConfig({
+    hostname: "vm1",
+    username: "rob",
+    sshPublicKey: KEY,
+    mounts: [{ hostPath: "/mnt/user/home", tag: "home", mountPoint: "/home/rob/share" }, { hostPath: "/mnt/x", tag: "x" }],
+  }));
+  const doc = parse(yaml) as Record<string, unknown>;
+  assertEquals(doc.hostname, "vm1");
+  assertEquals(doc.users, [{ name: "rob", ssh_authorized_keys: [KEY], sudo: "ALL=(ALL) NOPASSWD:ALL", shell: "/bin/bash" }]);
+  assertEquals(doc.packages, ["qemu-guest-agent"]);
+  assertEquals(doc.mounts, [["home", "/home/rob/share", "9p", "trans=virtio,rw,nofail", 0, 0]]);
+  assertEquals(doc.runcmd, ["systemctl enable qemu-guest-agent", "systemctl start qemu-guest-agent", ["mkdir", "-p", "/home/rob/share"]]);
+});
+
+Deno.test("provisionCloudConfig mounts virtiofs shares with the virtiofs fstab type", () => {
+  const doc = parse(renderCloudConfig(provisionCloudConfig({
+    hostname: "vm1",
+    username: "rob",
+    sshPublicKey: KEY,
+    mounts: [{ hostPath: "/mnt/user/home", tag: "home", mountPoint: "/home/rob/share", driver: "virtiofs" }],
+  }))) as Record<string, unknown>;
+  assertEquals(doc.mounts, [["home", "/home/rob/share", "virtiofs", "rw,nofail", 0, 0]]);
+});
+
+Deno.test("provisionCloudConfig omits mounts when none have a mount point", () => {
+  const doc = parse(renderCloudConfig(provisionCloudConfig({ hostname: "vm1", username: "rob", sshPublicKey: KEY }))) as Record<string, unknown>;
+  assertEquals("mounts" in doc, false);
+});
+
+Deno.test("provisionCloudConfig appends extra packages, users, files and commands", () => {
+  const doc = parse(renderCloudConfig(provisionCloudConfig({
+    hostname: "vm1",
+    username: "rob",
+    sshPublicKey: KEY,
+    packages: ["docker.io", "ca-certificates"],
+    users: [{ name: "deploy", groups: ["docker"], shell: "/bin/bash" }],
+    writeFiles: [{ path: "/etc/docker/daemon.json", content: "{\"log-driver\": \"journald\"}\n", permissions: "0644" }],
+    runcmd: ["systemctl enable --now docker"],
+    timezone: "Europe/London",
+    locale: "en_GB.UTF-8",
+  }))) as Record<string, unknown>;
+  assertEquals(doc.packages, ["qemu-guest-agent", "docker.io", "ca-certificates"]);
+  assertEquals((doc.users as { name: string }[]).map((u) => u.name), ["rob", "deploy"]);
+  assertEquals(doc.write_files, [{ path: "/etc/docker/daemon.json", content: "{\"log-driver\": \"journald\"}\n", permissions: "0644" }]);
+  assertEquals((doc.runcmd as unknown[]).at(-1), "systemctl enable --now docker");
+  assertEquals([doc.timezone, doc.locale], ["Europe/London", "en_GB.UTF-8"]);
+});
+
+Deno.test("provisionCloudConfig deep-merges raw user-data", () => {
+  const doc = parse(renderCloudConfig(provisionCloudConfig({
+    hostname: "vm1",
+    username: "rob",
+    sshPublicKey: KEY,
+    userDataMerge: { packages: ["jq"], package_upgrade: true, apt: { proxy: "http://proxy:3128" } },
+  }))) as Record<string, unknown>;
+  assertEquals(doc.packages, ["qemu-guest-agent", "jq"]);
+  assertEquals(doc.package_upgrade, true);
+  assertEquals(doc.apt, { proxy: "http://proxy:3128" });
+});
+
+Deno.test("provisionCloudConfig rejects a duplicate primary user and invalid merged config", () => {
+  assertThrows(
+    () => provisionCloudConfig({ hostname: "vm1", username: "rob", sshPublicKey: KEY, users: [{ name: "rob" }] }),
+    Error,
+    "duplicates the primary username",
+  );
+  assertThrows(
+    () => renderCloudConfig(provisionCloudConfig({ hostname: "vm1", username: "rob", sshPublicKey: KEY, userDataMerge: { packages: ["two words"] } })),
+    Error,
+    "packages.1",
+  );
+});
+
+Deno.test("mergeCloudConfig recurses into maps, appends lists and replaces scalars", () => {
+  assertEquals(
+    mergeCloudConfig({ a: { b: 1, c: [1] }, d: "x", e: [1] }, { a: { c: [2], f: true }, d: "y", e: "scalar" }),
+    { a: { b: 1, c: [1, 2], f: true }, d: "y", e: "scalar" },
+  );
+});
+
+Deno.test("renderMetaData writes instance-id and local-hostname", () => {
+  assertEquals(renderMetaData({ instanceId: "vm1", hostname: "vm1" }), "instance-id: vm1\nlocal-hostname: vm1\n");
+});
+
+// --- Multipart user-data ---
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+function parseMultipart(doc: string): { boundary: string; parts: MimePart[] } {
+  const [head] = doc.split("\n\n", 1);
+  const boundary = head.match(/boundary="([^"]+)"/)![1];
+  const sections = doc.split(`\n--${boundary}`);
+  assertEquals(sections.at(-1), "--\n", "closing delimiter");
+  const parts = sections.slice(1, -1).map((section) => {
+    const split = section.indexOf("\n\n");
+    const headers = Object.fromEntries(section.slice(1, split).split("\n").map((l) => l.split(/: (.*)/s).slice(0, 2)));
+    return { headers, body: section.slice(split + 2) };
+  });
+  return { boundary, parts };
+}
+
+Deno.test("composeUserData builds multipart/mixed with one part per input", () => {
+  const doc = composeUserData([
+    { content: "#cloud-config\npackages: [curl]\n" },
+    { content: "#!/bin/sh\necho hi\n" },
+    { type: "boothook", content: "#cloud-boothook\necho early\n" },
+    { content: "#include\nhttps://example.com/extra.yaml\n" },
+  ]);
+  assert(doc.startsWith("Content-Type: multipart/mixed; boundary="));
+  const { parts } = parseMultipart(doc);
+  assertEquals(parts.map((p) => p.headers["Content-Type"].split(";")[0]), [
+    "text/cloud-config",
+    "text/x-shellscript",
+    "text/cloud-boothook",
+    "text/x-include-url",
+  ]);
+  assertEquals(parts[1].body, "#!/bin/sh\necho hi\n", "content survives byte-for-byte");
+  assertEquals(parts.map((p) => p.headers["Content-Disposition"]), [
+    'attachment; filename="part-001.txt"',
+    'attachment; filename="part-002.sh"',
+    'attachment; filename="part-003.txt"',
+    'attachment; filename="part-004.txt"',
+  ]);
+});
+
+Deno.test("composeUserData adds the jinja header and Merge-Type", () => {
+  const { parts } = parseMultipart(composeUserData([
+    { type: "jinja", content: "#cloud-config\nhostname: {{ v1.local_hostname }}\n", mergeType: "list(append)+dict(recurse_array)+str()" },
+  ]));
+  assertEquals(parts[0].headers["Content-Type"], 'text/jinja2; charset="us-ascii"');
+  assertEquals(parts[0].headers["Merge-Type"], "list(append)+dict(recurse_array)+str()");
+  assert(parts[0].body.startsWith("## template: jinja\n#cloud-config\n"));
+});
+
+Deno.test("composeUserData base64-encodes non-ASCII parts", () => {
+  const content = "#cloud-config\nwrite_files:\n  - path: /etc/motd\n    content: \"h\u00e9llo \u2603\"\n";
+  const { parts } = parseMultipart(composeUserData([{ content }, { content: "#!/bin/sh\n" }]));
+  assertEquals(parts[0].headers["Content-Transfer-Encoding"], "base64");
+  const bytes = Uint8Array.from(atob(parts[0].body.replaceAll("\n", "")), (c) => c.charCodeAt(0));
+  assertEquals(new TextDecoder().decode(bytes), content);
+});
+
+Deno.test("composeUserData picks a boundary absent from every part", () => {
+  const first = parseMultipart(composeUserData([{ content: "#!/bin/sh\n" }])).boundary;
+  const { boundary, parts } = parseMultipart(composeUserData([{ content: `#!/bin/sh\n# --${first}\n` }]));
+  assert(boundary !== first);
+  assertEquals(parts[0].body, `#!/bin/sh\n# --${first}\n`);
+});
+
+Deno.test("composeUserData is deterministic", () => {
+  const parts = [{ content: "#cloud-config\n" }, { content: "#!/bin/sh\n" }];
+  assertEquals(composeUserData(parts), composeUserData(parts));
+});
+
+Deno.test("composeUserData rejects undetectable parts and duplicate filenames", () => {
+  assertThrows(() => composeUserData([{ content: "plain text" }]), Error, "set type explicitly");
+  assertThrows(() => composeUserData([]), Error, "At least one");
+  assertThrows(
+    () => composeUserData([{ content: "#!/bin/sh\n", filename: "a.sh" }, { content: "#!/bin/sh\n", filename: "a.sh" }]),
+    Error,
+    "unique",
+  );
+});
+
+Deno.test("detectUserDataType follows cloud-init's content prefixes", () => {
+  assertEquals(detectUserDataType("#cloud-config-archive\n"), "cloud-config-archive");
+  assertEquals(detectUserDataType("#include-once\n"), "include-once-url");
+  assertEquals(detectUserDataType("## template: jinja\n"), "jinja");
+  assertEquals(detectUserDataType("#!/usr/bin/env python3\n"), "shellscript");
+  assertEquals(detectUserDataType("hello"), null);
+});
@@ -0,0 +1,356 @@
+import { assert, assertEquals, assertRejects, assertThrows } from "jsr:@std/assert";
+import {
+  checkGpgStatus,
+  ensureImage,
+  IMAGE_CATALOG,
+  listCachedImages,
+  parseBackingChains,
+  parseChecksums,
+  resolveImage,
+  unusedImages,
+  versionedFileName,
+} from "../extensions/models/cloud_images.ts";
+
+const HEX256 = "a".repeat(64);
+const HEX512 = "b".repeat(128);
+
+// --- resolveImage ---
+
+Deno.test("resolveImage maps ubuntuVersion onto the Ubuntu catalog entry", () => {
+  const image = resolveImage({ ubuntuVersion: "24.04" });
+  assertEquals(image.name, "ubuntu-24.04");
+  assertEquals(image.url, "https://cloud-images.ubuntu.com/noble/current/noble-server-cloudimg-amd64.img");
+  assertEquals(image.checksumUrl, "https://cloud-images.ubuntu.com/noble/current/SHA256SUMS");
+  assertEquals(image.signatureUrl, "https://cloud-images.ubuntu.com/noble/current/SHA256SUMS.gpg");
+  assertEquals(image.osVariant, "ubuntu24.04");
+});
+
+Deno.test("resolveImage covers every catalog entry for both architectures", () => {
+  for (const name of Object.keys(IMAGE_CATALOG)) {
+    for (const arch of ["x86_64", "aarch64"]) {
+      const image = resolveImage({ image: name }, arch);
+      assert(image.url.startsWith("https://"), name);
+      assert(image.checksumUrl!.startsWith("https://"), name);
+      assertEquals(image.fileName, image.url.split("/").pop());
+      assertEquals(image.arch, arch);
+    }
+  }
+});
+
+Deno.test("resolveImage picks per-arch checksum files and clearsigned Fedora sums", () => {
+  const image = resolveImage({ image: "fedora-42" }, "aarch64");
+  assert(image.checksumUrl!.endsWith("/Fedora-Cloud-42-1.1-aarch64-CHECKSUM"));
+  assertEquals(image.signatureUrl, null);
+  assert(image.gpgKeyUrl);
+  assertEquals(resolveImage({ image: "opensuse-leap-15.6" }).checksumUrl, resolveImage({ image: "opensuse-leap-15.6" }).url + ".sha256");
+  assertEquals(resolveImage({ image: "debian-12" }).algorithm, "sha512");
+});
+
+Deno.test("resolveImage prefers customImage and splits its pinned digest", () => {
+  const image = resolveImage({
+    image: "debian-12",
+    customImage: { url: "https://example.com/images/disk.raw?token=x", checksum: `SHA256:${HEX256.toUpperCase()}`, format: "raw" },
+  });
+  assertEquals(image.name, "custom");
+  assertEquals(image.fileName, "disk.raw");
+  assertEquals([image.algorithm, image.digest, image.format], ["sha256", HEX256, "raw"]);
+});
+
+Deno.test("resolveImage rejects missing and unknown images", () => {
+  assertThrows(() => resolveImage({}), Error, "Specify image");
+  assertThrows(() => resolveImage({ image: "beos-5" }), Error, "Unknown image");
+});
+
+// --- parseChecksums / checkGpgStatus ---
+
+Deno.test("parseChecksums reads GNU, binary-mode and BSD formats", () => {
+  const sums = [
+    "-----BEGIN PGP SIGNED MESSAGE-----",
+    "Hash: SHA256",
+    "",
+    `${HEX256} *noble-server-cloudimg-amd64.img`,
+    `${HEX512}  debian-12-genericcloud-amd64.qcow2`,
+    `SHA256 (Fedora-Cloud-Base-Generic-42-1.1.x86_64.qcow2) = ${"C".repeat(64)}`,
+    `${"d".repeat(64)}  ./rocky.qcow2`,
+    "-----BEGIN PGP SIGNATURE-----",
+  ].join("\n");
+  assertEquals(parseChecksums(sums, "noble-server-cloudimg-amd64.img"), HEX256);
+  assertEquals(parseChecksums(sums, "debian-12-genericcloud-amd64.qcow2"), HEX512);
+  assertEquals(parseChecksums(sums, "Fedora-Cloud-Base-Generic-42-1.1.x86_64.qcow2"), "c".repeat(64));
+  assertEquals(parseChecksums(sums, "rocky.qcow2"), "d".repeat(64));
+  assertEquals(parseChecksums(sums, "noble-server-cloudimg-arm64.img"), null);
+});
+
+Deno.test("checkGpgStatus requires a valid signature from the pinned key", () => {
+  const fpr = "D2EB44626FDDC30B513D5BB71A5D6C4C7DB87C81";
+  const good = `[GNUPG:] GOODSIG 1A5D6C4C7DB87C81 UEC Image Automatic Signing Key\n[GNUPG:] VALIDSIG ${"E".repeat(40)} 2024-01-01 1704067200 0 4 0 1 10 00 ${fpr}`;
+  assert(checkGpgStatus(good, fpr));
+  assert(checkGpgStatus(good, "D2EB 4462 6FDD C30B 513D  5BB7 1A5D 6C4C 7DB8 7C81"));
+  assert(checkGpgStatus(good));
+  assert(!checkGpgStatus(good, "F".repeat(40)));
+  assert(!checkGpgStatus(`[GNUPG:] BADSIG 1A5D6C4C7DB87C81 x\n${good}`, fpr));
+  assert(!checkGpgStatus("[GNUPG:] NO_PUBKEY 1A5D6C4C7DB87C81", fpr));
+});
+
+// --- ensureImage against a local "host" ---
+
+const dec = new TextDecoder();
+const hasTools = ["curl", "sha256sum"].every((tool) => {
+  try {
+    return new Deno.Command("sh", { args: ["-c", `command -v ${tool}`] }).outputSync().success;
+  } catch {
+    return false;
+  }
+});
+
+// Stands in for runSsh: runs the command with a local shell
+async function localSsh(command: string, { allowFailure = false } = {}) {
+  const result = await new Deno.Command("sh", { args: ["-c", command], stdout: "piped", stderr: "piped" }).output();
+  const out = { stdout: dec.decode(result.stdout).trim(), stderr: dec.decode(result.stderr).trim(), code: result.code };
+  if (!allowFailure && result.code !== 0) throw new Error(`failed: ${command}\n${out.stderr}`);
+  return out;
+}
+
+async function sha256(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  return [...new Uint8Array(await crypto.subtle.digest("SHA-256", bytes))].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function fixture() {
+  const dir = await Deno.makeTempDir();
+  const bytes = new TextEncoder().encode("qcow2 image bytes\n".repeat(100));
+  await Deno.mkdir(`${dir}/mirror`);
+  await Deno.writeFile(`${dir}/mirror/base.qcow2`, bytes);
+  await Deno.writeTextFile(`${dir}/mirror/SHA256SUMS`, `${await sha256(bytes)}  base.qcow2\n`);
+  const image = {
+    label: "test image",
+    url: `file://${dir}/mirror/base.qcow2`,
+    fileName: "base.qcow2",
+    format: "qcow2",
+    algorithm: "sha256",
+    checksumUrl: `file://${dir}/mirror/SHA256SUMS`,
+  };
+  const logs: string[] = [];
+  return { dir, bytes, image, cache: `${dir}/cache`, logger: { info: (m: string) => logs.push(m) }, logs };
+}
+
+Deno.test({
+  name: "ensureImage downloads, verifies and then reuses the cached image",
+  ignore: !hasTools,
+  fn: async () => {
+    const { dir, bytes, image, cache, logger, logs } = await fixture();
+    try {
+      const path = await ensureImage(localSsh, cache, image, { logger });
+      assertEquals(await Deno.readFile(path), bytes);
+      assertEquals((await Deno.readTextFile(`${path}.sha256`)).trim(), await sha256(bytes));
+      await ensureImage(localSsh, cache, image, { logger });
+      assert(logs.at(-1)!.startsWith("Using cached test image"));
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  },
+});
+
+Deno.test({
+  name: "ensureImage stores images under digest-versioned names",
+  ignore: !hasTools,
+  fn: async () => {
+    const { dir, bytes, image, cache, logger } = await fixture();
+    try {
+      const path = await ensureImage(localSsh, cache, image, { logger });
+      assertEquals(path, `${cache}/base.${(await sha256(bytes)).slice(0, 12)}.qcow2`);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  },
+});
+
+Deno.test({
+  name: "ensureImage keeps the old version when upstream changes",
+  ignore: !hasTools,
+  fn: async () => {
+    const { dir, bytes, image, cache, logger } = await fixture();
+    try {
+      const oldPath = await ensureImage(localSsh, cache, image, { logger });
+      const newer = new TextEncoder().encode("rebuilt upstream image\n");
+      await Deno.writeFile(`${dir}/mirror/base.qcow2`, newer);
+      await Deno.writeTextFile(`${dir}/mirror/SHA256SUMS`, `${await sha256(newer)}  base.qcow2\n`);
+      const newPath = await ensureImage(localSsh, cache, image, { logger });
+      assert(newPath !== oldPath);
+      assertEquals(await Deno.readFile(oldPath), bytes, "existing overlays keep their backing file");
+      assertEquals(await Deno.readFile(newPath), newer);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  },
+});
+
+Deno.test({
+  name: "ensureImage replaces a truncated cached image",
+  ignore: !hasTools,
+  fn: async () => {
+    const { dir, bytes, image, cache, logger } = await fixture();
+    try {
+      await Deno.mkdir(cache);
+      const versioned = `${cache}/${versionedFileName("base.qcow2", await sha256(bytes))}`;
+      await Deno.writeFile(versioned, bytes.subarray(0, 100));
+      const path = await ensureImage(localSsh, cache, image, { logger });
+      assertEquals(path, versioned);
+      assertEquals(await Deno.readFile(path), bytes);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  },
+});
+
+Deno.test({
+  name: "ensureImage never moves a download that fails verification into the cache",
+  ignore: !hasTools,
+  fn: async () => {
+    const { dir, image, cache, logger } = await fixture();
+    try {
+      await Deno.writeTextFile(`${dir}/mirror/SHA256SUMS`, `${HEX256}  base.qcow2\n`);
+      await assertRejects(() => ensureImage(localSsh, cache, image, { logger }), Error, "failed sha256 verification");
+      const left = [...Deno.readDirSync(cache)].map((e) => e.name);
+      assertEquals(left.filter((name) => name.endsWith(".qcow2") || name.endsWith(".part")), []);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  },
+});
+
+Deno.test({
+  name: "ensureImage fails when the image is missing from the checksum list",
+  ignore: !hasTools,
+  fn: async () => {
+    const { dir, image, cache, logger } = await fixture();
+    try {
+      await assertRejects(() => ensureImage(localSsh, cache, { ...image, fileName: "other.qcow2" }, { logger }), Error, "is not listed");
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  },
+});
+
+Deno.test({
+  name: "ensureImage without verification reuses the newest cached version",
+  ignore: !hasTools,
+  fn: async () => {
+    const { dir, bytes, image, cache, logger } = await fixture();
+    try {
+      const first = await ensureImage(localSsh, cache, { ...image, checksumUrl: undefined }, { verify: "none", logger });
+      assertEquals(first, `${cache}/${versionedFileName("base.qcow2", await sha256(bytes))}`);
+      await Deno.writeTextFile(`${dir}/mirror/base.qcow2`, "changed");
+      assertEquals(await ensureImage(localSsh, cache, image, { verify: "none", logger }), first);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  },
+});
+
+const hasGpg = new Deno.Command("sh", { args: ["-c", "command -v gpg && command -v gpgconf"] }).outputSync().success;
+
+Deno.test({
+  name: "ensureImage with gpg takes digests only from the signed part of a clearsigned list",
+  ignore: !hasTools || !hasGpg,
+  fn: async () => {
+    const { dir, bytes, image, cache, logger } = await fixture();
+    const keyring = `${dir}/signer`;
+    const gpg = `gpg --batch --homedir '${keyring}'`;
+    try {
+      await localSsh(`mkdir -m 700 '${keyring}' && ${gpg} --passphrase '' --quick-gen-key 'Mirror <m@example.com>' ed25519 sign never`);
+      const fingerprint = (await localSsh(`${gpg} --with-colons --list-keys | awk -F: '$1=="fpr" {print $10; exit}'`)).stdout;
+      await localSsh(`${gpg} --armor --export > '${dir}/mirror/key.asc'`);
+      await localSsh(`cd '${dir}/mirror' && ${gpg} --clearsign --output CHECKSUM SHA256SUMS`);
+      // An unsigned line ahead of the signed block, naming the image with a forged digest
+      const signed = await Deno.readTextFile(`${dir}/mirror/CHECKSUM`);
+      await Deno.writeTextFile(`${dir}/mirror/CHECKSUM`, `${"f".repeat(64)}  base.qcow2\n${signed}`);
+      const path = await ensureImage(localSsh, cache, {
+        ...image,
+        checksumUrl: `file://${dir}/mirror/CHECKSUM`,
+        signatureUrl: null,
+        gpgFingerprint: fingerprint,
+        gpgKeyUrl: `file://${dir}/mirror/key.asc`,
+      }, { verify: "gpg", logger });
+      assertEquals(await Deno.readFile(path), bytes);
+    } finally {
+      await localSsh(`gpgconf --homedir '${keyring}' --kill gpg-agent; gpgconf --homedir '${cache}/.gnupg' --kill gpg-agent`, { allowFailure: true });
+      await Deno.remove(dir, { recursive: true });
+    }
+  },
+});
+
+// --- Cache inventory ---
+
+Deno.test("versionedFileName inserts the short digest before the extension", () => {
+  assertEquals(versionedFileName("noble-server-cloudimg-amd64.img", HEX256), "noble-server-cloudimg-amd64.aaaaaaaaaaaa.img");
+  assertEquals(versionedFileName("image", HEX256), "image.aaaaaaaaaaaa");
+});
+
+Deno.test("parseBackingChains maps images to holders and collects errors", () => {
+  const { users, errors } = parseBackingChains([
+    "vm1\t/d/vm1/disk.qcow2",
+    "vm1\t/d/.cloud-images/noble.aaaaaaaaaaaa.img",
+    "vm2\t/d/.cloud-images/noble.aaaaaaaaaaaa.img",
+    "/d/.templates/t.qcow2\t/d/.cloud-images/old.img",
+    "!error\tvm3\t/d/vm3/disk.qcow2",
+  ].join("\n"));
+  assertEquals([...users.get("/d/.cloud-images/noble.aaaaaaaaaaaa.img")!], ["vm1", "vm2"]);
+  assertEquals([...users.get("/d/.cloud-images/old.img")!], ["/d/.templates/t.qcow2"]);
+  assertEquals(errors, ["vm3: /d/vm3/disk.qcow2"]);
+});
+
+Deno.test("parseBackingChains joins Unraid pool and user-share paths to one file", () => {
+  const { users } = parseBackingChains("vm1\t/mnt/cache/domains/.cloud-images/noble.aaaaaaaaaaaa.img");
+  assertEquals([...users.get("/mnt/user/domains/.cloud-images/noble.aaaaaaaaaaaa.img")!], ["vm1"]);
+});
+
+Deno.test({
+  name: "listCachedImages finds users through any disk name and symlinked backing paths",
+  ignore: !hasTools,
+  fn: async () => {
+    const dir = await Deno.makeTempDir();
+    const domains = `${dir}/domains`;
+    const cache = `${domains}/.cloud-images`;
+    try {
+      await Deno.mkdir(cache, { recursive: true });
+      await Deno.mkdir(`${domains}/vm1`);
+      await Deno.mkdir(`${dir}/bin`);
+      await Deno.symlink(domains, `${dir}/alias`);
+      for (const file of ["noble.aaaaaaaaaaaa.img", "noble.bbbbbbbbbbbb.img"]) await Deno.writeTextFile(`${cache}/${file}`, "image");
+      // An Unraid-style overlay of an undefined domain, backed through a symlinked path
+      await Deno.writeTextFile(`${domains}/vm1/vdisk1.img`, "overlay");
+      await Deno.writeTextFile(`${dir}/bin/virsh`, "#!/bin/sh\ntrue\n", { mode: 0o755 });
+      await Deno.writeTextFile(
+        `${dir}/bin/qemu-img`,
+        `#!/bin/sh\necho "image: $4"\ncase "$4" in *vdisk1.img) echo "image: ${dir}/alias/.cloud-images/noble.aaaaaaaaaaaa.img";; esac\n`,
+        { mode: 0o755 },
+      );
+      const ssh = (command: string, opts?: { allowFailure?: boolean }) => localSsh(`PATH='${dir}/bin':$PATH; ${command}`, opts);
+      const { images, errors } = await listCachedImages(ssh, domains, cache);
+      assertEquals(errors, []);
+      assertEquals(images.map((i) => [i.file, i.usedBy]), [
+        ["noble.aaaaaaaaaaaa.img", [`${domains}/vm1/vdisk1.img`]],
+        ["noble.bbbbbbbbbbbb.img", []],
+      ]);
+      assertEquals(unusedImages(images, { keepLatest: false }).map((i) => i.file), ["noble.bbbbbbbbbbbb.img"]);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  },
+});
+
+Deno.test("unusedImages spares used images and the newest version of each", () => {
+  const img = (file: string, modifiedAt: string, usedBy: string[] = []) => ({ file, path: `/c/${file}`, sizeBytes: 1, modifiedAt, ageDays: 0, usedBy });
+  const images = [
+    img("noble.aaaaaaaaaaaa.img", "2026-01-01T00:00:00Z", ["vm1"]),
+    img("noble.bbbbbbbbbbbb.img", "2026-02-01T00:00:00Z"),
+    img("noble.cccccccccccc.img", "2026-03-01T00:00:00Z"),
+    img("legacy.img", "2025-01-01T00:00:00Z"),
+  ];
+  assertEquals(unusedImages(images).map((i) => i.file), ["noble.bbbbbbbbbbbb.img", "legacy.img"]);
+  assertEquals(unusedImages(images, { keepLatest: false }).map((i) => i.file), [
+    "noble.bbbbbbbbbbbb.img",
+    "noble.cccccccccccc.img",
+    "legacy.img",
+  ]);
+});
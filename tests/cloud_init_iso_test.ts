@@ -1,5 +1,14 @@
-import { assert, assertEquals, assertGreater } from "jsr:@std/assert";
-import { makeCloudInitIso } from "../extensions/models/cloud_init_iso.ts";
+import { assert, assertEquals, assertGreater, assertThrows } from "jsr:@std/assert";
+import {
+  buildIso9660,
+  buildVfat,
+  makeCloudInitIso,
+  makeCloudInitVfat,
+  makeConfigDrive,
+  readIso9660,
+  readVfat,
+  sha256Hex,
+} from "../extensions/models/cloud_init_iso.ts";
 
 const SECTOR = 2048;
 const dec = new TextDecoder();
@@ -27,30 +36,64 @@ interface DirEntry {
   extentLba: number;
   dataLen: number;
   isDir: boolean;
+  systemUse: Uint8Array;
 }
 
-function parseRootDir(iso: Uint8Array, lba: number): DirEntry[] {
-  const sector = iso.subarray(lba * SECTOR, (lba + 1) * SECTOR);
+interface SuspEntry {
+  sig: string;
+  data: Uint8Array;
+}
+
+function parseDir(iso: Uint8Array, lba: number, size: number): DirEntry[] {
+  const sector = iso.subarray(lba * SECTOR, lba * SECTOR + size);
   const entries: DirEntry[] = [];
   let off = 0;
-  while (off < SECTOR) {
+  while (off < size) {
     const recLen = sector[off];
-    if (recLen === 0) break;
+    if (recLen === 0) {
+      // Records never cross a sector boundary; the rest of this sector is padding
+      off = (Math.floor(off / SECTOR) + 1) * SECTOR;
+      continue;
+    }
     const extentLba = u32le(sector, off + 2);
     const dataLen = u32le(sector, off + 10);
     const flags = sector[off + 25];
     const nameLen = sector[off + 32];
     const name = str(sector, off + 33, nameLen);
-    entries.push({ name, extentLba, dataLen, isDir: (flags & 2) !== 0 });
+    const suStart = off + 33 + nameLen + (nameLen % 2 === 0 ? 1 : 0);
+    const systemUse = sector.subarray(suStart, off + recLen);
+    entries.push({ name, extentLba, dataLen, isDir: (flags & 2) !== 0, systemUse });
     off += recLen;
   }
   return entries;
 }
 
+function parseRootDir(iso: Uint8Array, lba: number): DirEntry[] {
+  return parseDir(iso, lba, SECTOR);
+}
+
 function fileContent(iso: Uint8Array, entry: DirEntry): string {
   return dec.decode(iso.subarray(entry.extentLba * SECTOR, entry.extentLba * SECTOR + entry.dataLen));
 }
 
+function parseSusp(su: Uint8Array): SuspEntry[] {
+  const entries: SuspEntry[] = [];
+  let off = 0;
+  while (off + 4 <= su.length) {
+    const len = su[off + 2];
+    if (len < 4) break;
+    entries.push({ sig: str(su, off, 2), data: su.subarray(off + 4, off + len) });
+    off += len;
+  }
+  return entries;
+}
+
+function ucs2(buf: Uint8Array, off: number, len: number): string {
+  let s = "";
+  for (let i = 0; i < len; i += 2) s += String.fromCharCode(u16be(buf, off + i));
+  return s;
+}
+
 // --- Tests ---
 
 Deno.test("output length is a multiple of the sector size", () => {
@@ -170,3 +213,519 @@ Deno.test("empty strings produce a valid minimal ISO", () => {
   assertGreater(iso.length, 16 * SECTOR);
   assertEquals(iso.subarray(16 * SECTOR)[0], 1, "PVD type");
 });
+
+// --- Rock Ridge / SUSP ---
+
+Deno.test("root dot entry starts with a SUSP SP entry", () => {
+  const iso = makeCloudInitIso("test", "test");
+  const dot = parseRootDir(iso, 18)[0];
+  const sp = parseSusp(dot.systemUse)[0];
+  assertEquals(sp.sig, "SP");
+  assertEquals([sp.data[0], sp.data[1], sp.data[2]], [0xBE, 0xEF, 0]);
+});
+
+Deno.test("root dot entry CE continuation area holds the RRIP_1991A ER entry", () => {
+  const iso = makeCloudInitIso("test", "test");
+  const dot = parseRootDir(iso, 18)[0];
+  const ce = parseSusp(dot.systemUse).find((e) => e.sig === "CE")!;
+  assert(ce, "CE entry missing");
+  const area = iso.subarray(u32le(ce.data, 0) * SECTOR + u32le(ce.data, 8));
+  const er = parseSusp(area.subarray(0, u32le(ce.data, 16)))[0];
+  assertEquals(er.sig, "ER");
+  assertEquals(str(er.data, 4, er.data[0]), "RRIP_1991A");
+});
+
+Deno.test("Rock Ridge NM entries carry lowercase file names", () => {
+  const iso = makeCloudInitIso("test", "test");
+  const names = parseRootDir(iso, 18)
+    .filter((e) => !e.isDir)
+    .map((e) => parseSusp(e.systemUse).find((s) => s.sig === "NM")!)
+    .map((nm) => str(nm.data, 1, nm.data.length - 1));
+  assertEquals(names, ["meta-data", "user-data"]);
+});
+
+Deno.test("Rock Ridge PX entries mark files read-only regular files", () => {
+  const iso = makeCloudInitIso("test", "test");
+  for (const f of parseRootDir(iso, 18).filter((e) => !e.isDir)) {
+    const px = parseSusp(f.systemUse).find((s) => s.sig === "PX")!;
+    assertEquals(u32le(px.data, 0), 0o100444, `${f.name} mode`);
+  }
+});
+
+Deno.test("directory records stay even-length with system use data", () => {
+  const iso = makeCloudInitIso("test", "test");
+  const sector = iso.subarray(18 * SECTOR);
+  let off = 0;
+  while (sector[off] !== 0) {
+    assertEquals(sector[off] % 2, 0, `record at ${off}`);
+    off += sector[off];
+  }
+});
+
+Deno.test("rockRidge: false omits system use entries", () => {
+  const iso = makeCloudInitIso("test", "test", { rockRidge: false });
+  for (const e of parseRootDir(iso, 18)) {
+    assertEquals(e.systemUse.length, 0, `${JSON.stringify(e.name)} has system use data`);
+  }
+});
+
+// --- Joliet ---
+
+Deno.test("joliet: true adds a supplementary volume descriptor at LBA 17", () => {
+  const iso = makeCloudInitIso("test", "test", { joliet: true });
+  const svd = iso.subarray(17 * SECTOR);
+  assertEquals(svd[0], 2, "type must be 2 (Supplementary Volume Descriptor)");
+  assertEquals(str(svd, 1, 5), "CD001");
+  assertEquals(str(svd, 88, 3), "%/E", "UCS-2 level 3 escape sequence");
+  assertEquals(ucs2(svd, 40, 12), "CIDATA");
+  assertEquals(iso.subarray(18 * SECTOR)[0], 255, "VDST follows the SVD");
+});
+
+Deno.test("Joliet root directory lists lowercase UCS-2 names sharing file extents", () => {
+  const iso = makeCloudInitIso("userdata", "metadata", { joliet: true });
+  const pvdRoot = u32le(iso.subarray(16 * SECTOR), 156 + 2);
+  const svdRoot = u32le(iso.subarray(17 * SECTOR), 156 + 2);
+  const primary = parseRootDir(iso, pvdRoot).filter((e) => !e.isDir);
+  const joliet = parseRootDir(iso, svdRoot).filter((e) => !e.isDir);
+  const sector = iso.subarray(svdRoot * SECTOR);
+  const jolietNames = joliet.map((e) => {
+    let off = 0;
+    while (u32le(sector, off + 2) !== e.extentLba) off += sector[off];
+    return ucs2(sector, off + 33, sector[off + 32]);
+  });
+  assertEquals(jolietNames, ["meta-data", "user-data"]);
+  assertEquals(joliet.map((e) => e.extentLba), primary.map((e) => e.extentLba));
+  assertEquals(fileContent(iso, joliet[1]), "userdata");
+});
+
+// --- network-config / vendor-data ---
+
+Deno.test("network-config and vendor-data are omitted unless provided", () => {
+  const iso = makeCloudInitIso("user", "meta");
+  const names = parseRootDir(iso, 18).filter((e) => !e.isDir).map((e) => e.name);
+  assertEquals(names, ["META-DATA", "USER-DATA"]);
+});
+
+Deno.test("network-config and vendor-data are written in sorted order", () => {
+  const iso = makeCloudInitIso("user", "meta", { networkConfig: "network: {version: 2}\n", vendorData: "#cloud-config\n" });
+  const names = parseRootDir(iso, 18).filter((e) => !e.isDir).map((e) => e.name);
+  assertEquals(names, ["META-DATA", "NETWORK-CONFIG", "USER-DATA", "VENDOR-DATA"]);
+});
+
+Deno.test("network-config content round-trips with its Rock Ridge name", () => {
+  const networkConfig = "network:\n  version: 2\n  ethernets:\n    enp1s0:\n      addresses: [192.168.1.50/24]\n";
+  const iso = makeCloudInitIso("user", "meta", { networkConfig });
+  const entry = parseRootDir(iso, 18).find((e) => e.name === "NETWORK-CONFIG")!;
+  assertEquals(fileContent(iso, entry), networkConfig);
+  const nm = parseSusp(entry.systemUse).find((s) => s.sig === "NM")!;
+  assertEquals(str(nm.data, 1, nm.data.length - 1), "network-config");
+});
+
+Deno.test("vendor-data content round-trips correctly", () => {
+  const vendorData = "#cloud-config\npackages: [htop]\n";
+  const iso = makeCloudInitIso("user", "meta", { vendorData });
+  const entry = parseRootDir(iso, 18).find((e) => e.name === "VENDOR-DATA")!;
+  assertEquals(fileContent(iso, entry), vendorData);
+});
+
+// --- buildIso9660 ---
+
+const enc = new TextEncoder();
+
+function lookup(iso: Uint8Array, path: string): DirEntry {
+  const pvd = iso.subarray(16 * SECTOR);
+  let dir = { lba: u32le(pvd, 156 + 2), size: u32le(pvd, 156 + 10) };
+  const parts = path.split("/");
+  for (let i = 0; i < parts.length; i++) {
+    const entry = parseDir(iso, dir.lba, dir.size).find((e) => e.name === parts[i]);
+    assert(entry, `${parts.slice(0, i + 1).join("/")} not found`);
+    if (i === parts.length - 1) return entry;
+    dir = { lba: entry.extentLba, size: entry.dataLen };
+  }
+  throw new Error("unreachable");
+}
+
+Deno.test("buildIso9660 writes the requested volume ID", () => {
+  const iso = buildIso9660({ volumeId: "EXTRAS", files: [{ path: "a.txt", bytes: enc.encode("a") }] });
+  assertEquals(str(iso.subarray(16 * SECTOR), 40, 32).trimEnd(), "EXTRAS");
+});
+
+Deno.test("buildIso9660 creates nested directories implicitly", () => {
+  const iso = buildIso9660({
+    volumeId: "EXTRAS",
+    files: [
+      { path: "scripts/bootstrap.sh", bytes: enc.encode("#!/bin/sh\n") },
+      { path: "certs/ca/root.pem", bytes: enc.encode("PEM") },
+    ],
+  });
+  assert(lookup(iso, "SCRIPTS").isDir);
+  assert(lookup(iso, "CERTS/CA").isDir);
+  assertEquals(fileContent(iso, lookup(iso, "SCRIPTS/BOOTSTRAP.SH")), "#!/bin/sh\n");
+  assertEquals(fileContent(iso, lookup(iso, "CERTS/CA/ROOT.PEM")), "PEM");
+});
+
+Deno.test("subdirectory dot and dotdot entries point at the directory and its parent", () => {
+  const iso = buildIso9660({ volumeId: "EXTRAS", files: [{ path: "sub/file", bytes: enc.encode("x") }] });
+  const sub = lookup(iso, "SUB");
+  const [dot, dotdot] = parseDir(iso, sub.extentLba, sub.dataLen);
+  assertEquals(dot.extentLba, sub.extentLba);
+  assertEquals(dotdot.extentLba, 18);
+});
+
+Deno.test("directories larger than one sector span multiple sectors", () => {
+  const files = Array.from({ length: 100 }, (_, i) => ({ path: `dir/file-${i}.txt`, bytes: enc.encode(`content ${i}`) }));
+  const iso = buildIso9660({ volumeId: "EXTRAS", files });
+  const dir = lookup(iso, "DIR");
+  assertGreater(dir.dataLen, SECTOR);
+  assertEquals(dir.dataLen % SECTOR, 0);
+  const entries = parseDir(iso, dir.extentLba, dir.dataLen).filter((e) => !e.isDir);
+  assertEquals(entries.length, 100);
+  assertEquals(fileContent(iso, lookup(iso, "DIR/FILE-99.TXT")), "content 99");
+});
+
+Deno.test("directory records are sorted by identifier", () => {
+  const iso = buildIso9660({
+    volumeId: "EXTRAS",
+    files: ["zeta", "alpha", "mid"].map((path) => ({ path, bytes: enc.encode(path) })),
+  });
+  const names = parseRootDir(iso, 18).filter((e) => !e.isDir).map((e) => e.name);
+  assertEquals(names, ["ALPHA", "MID", "ZETA"]);
+});
+
+Deno.test("L and M path tables list every directory with its parent", () => {
+  const iso = buildIso9660({
+    volumeId: "EXTRAS",
+    files: [{ path: "a/b/file", bytes: enc.encode("x") }, { path: "c/file", bytes: enc.encode("y") }],
+  });
+  const pvd = iso.subarray(16 * SECTOR);
+  const size = u32le(pvd, 132);
+  const readTable = (lba: number, le: boolean) => {
+    const t = iso.subarray(lba * SECTOR, lba * SECTOR + size);
+    const rows = [];
+    for (let off = 0; off < size;) {
+      const len = t[off];
+      const lbaVal = le ? u32le(t, off + 2) : (t[off + 2] << 24 | t[off + 3] << 16 | t[off + 4] << 8 | t[off + 5]) >>> 0;
+      const parent = le ? u16le(t, off + 6) : u16be(t, off + 6);
+      rows.push({ name: str(t, off + 8, len), lba: lbaVal, parent });
+      off += 8 + len + (len % 2);
+    }
+    return rows;
+  };
+  const l = readTable(u32le(pvd, 140), true);
+  const m = readTable((pvd[148] << 24 | pvd[149] << 16 | pvd[150] << 8 | pvd[151]) >>> 0, false);
+  assertEquals(l.map((r) => [r.name, r.parent]), [["\x00", 1], ["A", 1], ["C", 1], ["B", 2]]);
+  assertEquals(m, l);
+  assertEquals(l[3].lba, lookup(iso, "A/B").extentLba);
+});
+
+Deno.test("Rock Ridge NM entries preserve case in subdirectories", () => {
+  const iso = buildIso9660({ volumeId: "EXTRAS", files: [{ path: "Scripts/Install.sh", bytes: enc.encode("x") }] });
+  const nmName = (e: DirEntry) => {
+    const nm = parseSusp(e.systemUse).find((s) => s.sig === "NM")!;
+    return str(nm.data, 1, nm.data.length - 1);
+  };
+  assertEquals(nmName(lookup(iso, "SCRIPTS")), "Scripts");
+  assertEquals(nmName(lookup(iso, "SCRIPTS/INSTALL.SH")), "Install.sh");
+});
+
+Deno.test("primary identifiers that collide after uppercasing are disambiguated", () => {
+  const iso = buildIso9660({
+    volumeId: "EXTRAS",
+    files: [{ path: "readme", bytes: enc.encode("lower") }, { path: "README", bytes: enc.encode("upper") }],
+  });
+  const names = parseRootDir(iso, 18).filter((e) => !e.isDir).map((e) => e.name);
+  assertEquals(new Set(names).size, 2);
+});
+
+Deno.test("buildIso9660 rejects duplicate paths and file/directory conflicts", () => {
+  assertThrows(() => buildIso9660({ volumeId: "X", files: [{ path: "a", bytes: enc.encode("1") }, { path: "a", bytes: enc.encode("2") }] }), Error, "Duplicate");
+  assertThrows(() => buildIso9660({ volumeId: "X", files: [{ path: "a", bytes: enc.encode("1") }, { path: "a/b", bytes: enc.encode("2") }] }), Error, "both a file and a directory");
+});
+
+// --- Config drive (config-2) ---
+
+Deno.test("config drive uses the config-2 volume ID", () => {
+  const iso = makeConfigDrive({ metaData: { uuid: "abc" } });
+  assertEquals(str(iso.subarray(16 * SECTOR), 40, 32).trimEnd(), "config-2");
+});
+
+Deno.test("config drive writes the openstack/latest layout", () => {
+  const iso = makeConfigDrive({
+    metaData: { uuid: "abc", hostname: "vm1" },
+    userData: "#cloud-config\n",
+    networkData: { links: [], networks: [], services: [] },
+    vendorData: {},
+  });
+  const latest = lookup(iso, "OPENSTACK/LATEST");
+  const names = parseDir(iso, latest.extentLba, latest.dataLen).filter((e) => !e.isDir).map((e) => e.name);
+  assertEquals(names, ["META_DATA.JSON", "NETWORK_DATA.JSON", "USER_DATA", "VENDOR_DATA.JSON"]);
+  assertEquals(JSON.parse(fileContent(iso, lookup(iso, "OPENSTACK/LATEST/META_DATA.JSON"))), { uuid: "abc", hostname: "vm1" });
+  assertEquals(fileContent(iso, lookup(iso, "OPENSTACK/LATEST/USER_DATA")), "#cloud-config\n");
+});
+
+Deno.test("config drive omits optional documents that are not provided", () => {
+  const iso = makeConfigDrive({ metaData: "{\"uuid\":\"abc\"}" });
+  const latest = lookup(iso, "OPENSTACK/LATEST");
+  const names = parseDir(iso, latest.extentLba, latest.dataLen).filter((e) => !e.isDir).map((e) => e.name);
+  assertEquals(names, ["META_DATA.JSON"]);
+  assertEquals(fileContent(iso, lookup(iso, "OPENSTACK/LATEST/META_DATA.JSON")), "{\"uuid\":\"abc\"}");
+});
+
+Deno.test("config drive includes a Joliet tree by default", () => {
+  const iso = makeConfigDrive({ metaData: { uuid: "abc" } });
+  assertEquals(iso.subarray(17 * SECTOR)[0], 2, "Supplementary Volume Descriptor");
+});
+
+Deno.test("config drive requires meta_data.json", () => {
+  assertThrows(() => makeConfigDrive({ userData: "x" }), Error, "meta_data.json");
+});
+
+// --- readIso9660 ---
+
+Deno.test("readIso9660 round-trips a seed ISO with Rock Ridge names", () => {
+  const iso = makeCloudInitIso("#cloud-config\n", "instance-id: vm1\n", { networkConfig: "network: {version: 2}\n" });
+  const parsed = readIso9660(iso);
+  assertEquals(parsed.volumeId, "CIDATA");
+  assert(parsed.rockRidge);
+  assertEquals(Object.keys(parsed.files), ["meta-data", "network-config", "user-data"]);
+  assertEquals(dec.decode(parsed.files["user-data"]), "#cloud-config\n");
+  assertEquals(dec.decode(parsed.files["meta-data"]), "instance-id: vm1\n");
+});
+
+Deno.test("readIso9660 returns the nested directory tree", () => {
+  const iso = buildIso9660({
+    volumeId: "EXTRAS",
+    files: [{ path: "scripts/Install.sh", bytes: enc.encode("x") }, { path: "top", bytes: enc.encode("yz") }],
+  });
+  const { tree, files } = readIso9660(iso);
+  assertEquals(tree.children.map((c) => c.name), ["scripts", "top"]);
+  const scripts = tree.children[0];
+  assert(scripts.isDir);
+  assertEquals(scripts.children!.map((c) => [c.path, c.size]), [["scripts/Install.sh", 1]]);
+  assertEquals(Object.keys(files).sort(), ["scripts/Install.sh", "top"]);
+});
+
+Deno.test("readIso9660 falls back to Joliet names without Rock Ridge", () => {
+  const iso = buildIso9660({ volumeId: "EXTRAS", files: [{ path: "Mixed-Case.txt", bytes: enc.encode("x") }], rockRidge: false, joliet: true });
+  const parsed = readIso9660(iso);
+  assert(!parsed.rockRidge);
+  assert(parsed.joliet);
+  assertEquals(Object.keys(parsed.files), ["Mixed-Case.txt"]);
+  assertEquals(parsed.volumeId, "EXTRAS");
+});
+
+Deno.test("readIso9660 uses primary identifiers when no extensions are present", () => {
+  const iso = buildIso9660({ volumeId: "EXTRAS", files: [{ path: "sub/file.txt", bytes: enc.encode("x") }], rockRidge: false });
+  assertEquals(Object.keys(readIso9660(iso).files), ["SUB/FILE.TXT"]);
+});
+
+Deno.test("readIso9660 reads files from multi-sector directories", () => {
+  const files = Array.from({ length: 80 }, (_, i) => ({ path: `d/f${i}`, bytes: enc.encode(String(i)) }));
+  const parsed = readIso9660(buildIso9660({ volumeId: "EXTRAS", files }));
+  assertEquals(Object.keys(parsed.files).length, 80);
+  assertEquals(dec.decode(parsed.files["d/f79"]), "79");
+});
+
+Deno.test("readIso9660 rejects data that is not an ISO image", () => {
+  assertThrows(() => readIso9660(new Uint8Array(40 * SECTOR)), Error, "Not an ISO 9660 image");
+});
+
+// --- readVfat ---
+
+Deno.test("readVfat round-trips a vfat seed and nested directories", () => {
+  const seed = readVfat(makeCloudInitVfat("#cloud-config\n", "instance-id: vm1\n", { networkConfig: "network: {version: 2}\n" }));
+  assertEquals(seed.label, "CIDATA");
+  assertEquals(Object.keys(seed.files).sort(), ["meta-data", "network-config", "user-data"]);
+  assertEquals(dec.decode(seed.files["meta-data"]), "instance-id: vm1\n");
+
+  const img = buildVfat({ label: "config-2", files: [{ path: "openstack/latest/meta_data.json", bytes: enc.encode("{}") }] });
+  assertEquals(Object.keys(readVfat(img).files), ["openstack/latest/meta_data.json"]);
+  assertEquals(dec.decode(readVfat(img).files["openstack/latest/meta_data.json"]), "{}");
+  assertThrows(() => readVfat(new Uint8Array(1024)), Error, "Not a FAT image");
+});
+
+// --- Timestamps and volume metadata ---
+
+Deno.test("identical inputs produce byte-for-byte identical images", async () => {
+  const a = makeCloudInitIso("#cloud-config\n", "instance-id: vm1\n", { joliet: true });
+  const b = makeCloudInitIso("#cloud-config\n", "instance-id: vm1\n", { joliet: true });
+  assertEquals(await sha256Hex(a), await sha256Hex(b));
+});
+
+Deno.test("timestamp sets directory record and volume descriptor dates", () => {
+  const iso = makeCloudInitIso("u", "m", { timestamp: "2025-07-04T12:34:56Z" });
+  const rec = iso.subarray(18 * SECTOR);
+  assertEquals([...rec.subarray(18, 25)], [125, 7, 4, 12, 34, 56, 0]);
+  const pvd = iso.subarray(16 * SECTOR);
+  assertEquals(str(pvd, 813, 16), "2025070412345600", "creation date");
+  assertEquals(str(pvd, 830, 16), "2025070412345600", "modification date");
+  assertEquals(str(pvd, 847, 16), "0000000000000000", "expiration unset");
+});
+
+Deno.test("numeric timestamp is seconds since the epoch", () => {
+  const iso = makeCloudInitIso("u", "m", { timestamp: 0 });
+  assertEquals(str(iso.subarray(16 * SECTOR), 813, 16), "1970010100000000");
+});
+
+Deno.test("SOURCE_DATE_EPOCH is the default timestamp", () => {
+  const prev = Deno.env.get("SOURCE_DATE_EPOCH");
+  Deno.env.set("SOURCE_DATE_EPOCH", "1700000000");
+  try {
+    const iso = makeCloudInitIso("u", "m");
+    assertEquals(readIso9660(iso).createdAt, "2023-11-14T22:13:20.000Z");
+  } finally {
+    if (prev === undefined) Deno.env.delete("SOURCE_DATE_EPOCH");
+    else Deno.env.set("SOURCE_DATE_EPOCH", prev);
+  }
+});
+
+Deno.test("different timestamps change the image hash", async () => {
+  const a = makeCloudInitIso("u", "m", { timestamp: 1 });
+  const b = makeCloudInitIso("u", "m", { timestamp: 2 });
+  assert(await sha256Hex(a) !== await sha256Hex(b));
+});
+
+Deno.test("volume, publisher and application IDs are written and read back", () => {
+  const iso = makeCloudInitIso("u", "m", { volumeId: "cidata", publisherId: "RJESCHMI", applicationId: "SWAMP", joliet: true });
+  const pvd = iso.subarray(16 * SECTOR);
+  assertEquals(str(pvd, 318, 128).trimEnd(), "RJESCHMI");
+  assertEquals(str(pvd, 574, 128).trimEnd(), "SWAMP");
+  const parsed = readIso9660(iso);
+  assertEquals([parsed.volumeId, parsed.publisherId, parsed.applicationId], ["cidata", "RJESCHMI", "SWAMP"]);
+});
+
+Deno.test("invalid timestamps are rejected", () => {
+  assertThrows(() => makeCloudInitIso("u", "m", { timestamp: "not a date" }), Error, "Invalid ISO timestamp");
+});
+
+// --- VFAT ---
+
+interface FatEntry {
+  name: string;
+  attr: number;
+  cluster: number;
+  size: number;
+}
+
+// Minimal FAT12/16 reader: geometry from the BPB, long names from LFN entries, data via the FAT chain
+function fatGeometry(img: Uint8Array) {
+  const bytesPerSector = u16le(img, 11);
+  const spc = img[13];
+  const reserved = u16le(img, 14);
+  const rootEntries = u16le(img, 17);
+  const fatSectors = u16le(img, 22);
+  const rootOffset = (reserved + 2 * fatSectors) * bytesPerSector;
+  const dataOffset = rootOffset + rootEntries * 32;
+  const fat16 = str(img, 54, 8) === "FAT16   ";
+  return { clusterBytes: spc * bytesPerSector, fatOffset: reserved * bytesPerSector, rootOffset, rootEntries, dataOffset, fat16 };
+}
+
+function fatChain(img: Uint8Array, cluster: number): number[] {
+  const g = fatGeometry(img);
+  const chain = [];
+  while (cluster >= 2 && cluster < (g.fat16 ? 0xFFF8 : 0xFF8)) {
+    chain.push(cluster);
+    if (g.fat16) {
+      cluster = u16le(img, g.fatOffset + cluster * 2);
+    } else {
+      const v = u16le(img, g.fatOffset + Math.floor(cluster * 1.5));
+      cluster = cluster % 2 === 0 ? v & 0xFFF : v >> 4;
+    }
+  }
+  return chain;
+}
+
+function fatReadDir(img: Uint8Array, cluster = 0): FatEntry[] {
+  const g = fatGeometry(img);
+  const raw = cluster === 0
+    ? img.subarray(g.rootOffset, g.rootOffset + g.rootEntries * 32)
+    : concatBytes(fatChain(img, cluster).map((c) => img.subarray(g.dataOffset + (c - 2) * g.clusterBytes, g.dataOffset + (c - 1) * g.clusterBytes)));
+  const entries: FatEntry[] = [];
+  let lfn = "";
+  for (let off = 0; off < raw.length && raw[off] !== 0; off += 32) {
+    if (raw[off + 11] === 0x0F) {
+      let part = "";
+      for (const o of [1, 3, 5, 7, 9, 14, 16, 18, 20, 22, 24, 28, 30]) {
+        const c = u16le(raw, off + o);
+        if (c === 0 || c === 0xFFFF) break;
+        part += String.fromCharCode(c);
+      }
+      lfn = part + lfn;
+      continue;
+    }
+    const short = str(raw, off, 8).trimEnd() + (str(raw, off + 8, 3).trim() ? "." + str(raw, off + 8, 3).trim() : "");
+    entries.push({ name: lfn || short, attr: raw[off + 11], cluster: u16le(raw, off + 26), size: u32le(raw, off + 28) });
+    lfn = "";
+  }
+  return entries;
+}
+
+function fatReadFile(img: Uint8Array, entry: FatEntry): string {
+  const g = fatGeometry(img);
+  const data = concatBytes(fatChain(img, entry.cluster).map((c) => img.subarray(g.dataOffset + (c - 2) * g.clusterBytes, g.dataOffset + (c - 1) * g.clusterBytes)));
+  return dec.decode(data.subarray(0, entry.size));
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let off = 0;
+  for (const p of parts) {
+    out.set(p, off);
+    off += p.length;
+  }
+  return out;
+}
+
+Deno.test("vfat seed has a boot signature and CIDATA label", () => {
+  const img = makeCloudInitVfat("#cloud-config\n", "instance-id: vm1\n");
+  assertEquals([img[510], img[511]], [0x55, 0xAA]);
+  assertEquals(u16le(img, 11), 512);
+  assertEquals(str(img, 43, 11), "CIDATA     ");
+  assertEquals(str(img, 54, 8), "FAT12   ");
+  const label = fatReadDir(img).find((e) => e.attr === 0x08);
+  assertEquals(label?.name, "CIDATA");
+});
+
+Deno.test("vfat seed files have long names and correct content", () => {
+  const img = makeCloudInitVfat("#cloud-config\nhostname: vm1\n", "instance-id: vm1\n", { networkConfig: "network: {version: 2}\n" });
+  const files = fatReadDir(img).filter((e) => e.attr === 0x20);
+  assertEquals(files.map((e) => e.name).sort(), ["meta-data", "network-config", "user-data"]);
+  const userData = files.find((e) => e.name === "user-data")!;
+  assertEquals(fatReadFile(img, userData), "#cloud-config\nhostname: vm1\n");
+  assertEquals(fatReadFile(img, files.find((e) => e.name === "network-config")!), "network: {version: 2}\n");
+});
+
+Deno.test("buildVfat creates nested directories", () => {
+  const img = buildVfat({ label: "config-2", files: [{ path: "openstack/latest/meta_data.json", bytes: enc.encode("{}") }] });
+  const openstack = fatReadDir(img).find((e) => e.name === "openstack")!;
+  assertEquals(openstack.attr, 0x10);
+  const latest = fatReadDir(img, openstack.cluster).find((e) => e.name === "latest")!;
+  const [dot, dotdot] = fatReadDir(img, latest.cluster);
+  assertEquals([dot.name, dot.cluster], [".", latest.cluster]);
+  assertEquals([dotdot.name, dotdot.cluster], ["..", openstack.cluster]);
+  const meta = fatReadDir(img, latest.cluster).find((e) => e.name === "meta_data.json")!;
+  assertEquals(fatReadFile(img, meta), "{}");
+});
+
+Deno.test("buildVfat switches to FAT16 for larger payloads", () => {
+  const big = new Uint8Array(3_000_000).fill(7);
+  const img = buildVfat({ label: "DATA", files: [{ path: "big.bin", bytes: big }] });
+  assertEquals(str(img, 54, 8), "FAT16   ");
+  const entry = fatReadDir(img).find((e) => e.name === "big.bin")!;
+  assertEquals(entry.size, big.length);
+  const g = fatGeometry(img);
+  assertEquals(fatChain(img, entry.cluster).length, Math.ceil(big.length / g.clusterBytes));
+});
+
+Deno.test("vfat output is deterministic for a fixed timestamp", async () => {
+  const a = makeCloudInitVfat("u", "m", { timestamp: "2025-01-01T00:00:00Z" });
+  const b = makeCloudInitVfat("u", "m", { timestamp: "2025-01-01T00:00:00Z" });
+  const c = makeCloudInitVfat("u", "m", { timestamp: "2025-01-02T00:00:00Z" });
+  assertEquals(await sha256Hex(a), await sha256Hex(b));
+  assert(await sha256Hex(a) !== await sha256Hex(c));
+});
+
+Deno.test("buildVfat rejects long labels and pre-1980 timestamps", () => {
+  assertThrows(() => buildVfat({ label: "TWELVE_CHARS", files: [] }), Error, "exceeds 11 characters");
+  assertThrows(() => makeCloudInitVfat("u", "m", { timestamp: 0 }), Error, "FAT timestamp out of range");
+});
@@ -0,0 +1,53 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import { guestExec, waitForState } from "../extensions/models/guest_agent.ts";
+
+const b64 = (s: string) => btoa(s);
+
+// Fake host runner answering `virsh qemu-agent-command` / `virsh domstate` from a script of replies
+function fakeSsh(replies: Array<{ stdout: string; code?: number }>) {
+  const commands: string[] = [];
+  const ssh = (command: string) => {
+    commands.push(command);
+    const reply = replies.shift() ?? { stdout: "" };
+    return Promise.resolve({ stdout: reply.stdout, stderr: "", code: reply.code ?? 0 });
+  };
+  return { ssh, commands };
+}
+
+Deno.test("guestExec sends the script base64-encoded and polls until it exits", async () => {
+  const { ssh, commands } = fakeSsh([
+    { stdout: JSON.stringify({ return: { pid: 42 } }) },
+    { stdout: JSON.stringify({ return: { exited: false } }) },
+    { stdout: JSON.stringify({ return: { exited: true, exitcode: 0, "out-data": b64("hello\n"), "err-data": "" } }) },
+  ]);
+  const script = "echo 'héllo' && cat /etc/os-release\n";
+  const res = await guestExec(ssh, "vm1", script, { pollMs: 0 });
+  assertEquals(res, { code: 0, stdout: "hello", stderr: "" });
+
+  // The script crosses both shells without quoting: only base64 appears in the agent command
+  const sent = JSON.parse(commands[0].match(/^virsh qemu-agent-command 'vm1' '(.*)'$/)![1]);
+  assertEquals(sent.execute, "guest-exec");
+  const encoded = sent.arguments.arg[1].match(/^echo (\S+) \| base64 -d \| \/bin\/sh$/)[1];
+  assertEquals(new TextDecoder().decode(Uint8Array.from(atob(encoded), (c) => c.charCodeAt(0))), script);
+  assertEquals(commands.slice(1).map((c) => JSON.parse(c.split("' '")[1].slice(0, -1)).arguments.pid), [42, 42]);
+});
+
+Deno.test("guestExec reports the exit code and stderr of a failed command", async () => {
+  const { ssh } = fakeSsh([
+    { stdout: JSON.stringify({ return: { pid: 7 } }) },
+    { stdout: JSON.stringify({ return: { exited: true, exitcode: 3, "err-data": b64("boom\n") } }) },
+  ]);
+  assertEquals(await guestExec(ssh, "vm1", "exit 3", { pollMs: 0 }), { code: 3, stdout: "", stderr: "boom" });
+});
+
+Deno.test("waitForState polls domstate and times out with the last state", async () => {
+  const { ssh } = fakeSsh([{ stdout: "running" }, { stdout: "in shutdown" }, { stdout: "shut off" }]);
+  await waitForState(ssh, "vm1", "shut off", { pollMs: 0 });
+
+  const stuck = fakeSsh(Array(50).fill({ stdout: "running" }));
+  await assertRejects(
+    () => waitForState(stuck.ssh, "vm1", "shut off", { timeoutMs: 0, pollMs: 0 }),
+    Error,
+    "now 'running'",
+  );
+});
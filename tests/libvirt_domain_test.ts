@@ -0,0 +1,359 @@
+import { assert, assertEquals, assertStringIncludes, assertThrows } from "jsr:@std/assert";
+import {
+  buildDomainXml,
+  cloudInitDomain,
+  interfaceNode,
+  parseDomainXml,
+  parseXml,
+  serializeXml,
+} from "../extensions/models/libvirt_domain.ts";
+
+// Trimmed `virsh dumpxml` of a provisioned VM after libvirt filled in its defaults: KiB units,
+// PCI addresses, controllers, memballoon and a seclabel the spec doesn't model
+const DUMPXML = `<?xml version='1.0' encoding='UTF-8'?>
+<domain type='kvm' id='7'>
+  <name>k3s-1</name>
+  <uuid>0b8c3d4e-1111-2222-3333-444455556666</uuid>
+  <metadata>
+    <vmtemplate xmlns="unraid" name="Linux" icon="linux.png"/>
+  </metadata>
+  <memory unit='KiB'>4194304</memory>
+  <currentMemory unit='KiB'>4194304</currentMemory>
+  <vcpu placement='static'>2</vcpu>
+  <resource>
+    <partition>/machine</partition>
+  </resource>
+  <os>
+    <type arch='x86_64' machine='pc-q35-8.2'>hvm</type>
+    <boot dev='hd'/>
+  </os>
+  <features>
+    <acpi/>
+    <apic/>
+  </features>
+  <cpu mode='host-passthrough' check='none' migratable='on'/>
+  <clock offset='utc'/>
+  <on_poweroff>destroy</on_poweroff>
+  <on_reboot>restart</on_reboot>
+  <on_crash>restart</on_crash>
+  <devices>
+    <emulator>/usr/local/sbin/qemu</emulator>
+    <disk type='file' device='disk'>
+      <driver name='qemu' type='qcow2' cache='writeback'/>
+      <source file='/mnt/user/domains/k3s-1/disk.qcow2' index='2'/>
+      <backingStore/>
+      <target dev='vda' bus='virtio'/>
+      <alias name='virtio-disk0'/>
+      <address type='pci' domain='0x0000' bus='0x03' slot='0x00' function='0x0'/>
+    </disk>
+    <disk type='network' device='disk'>
+      <source protocol='rbd' name='pool/img'/>
+      <target dev='vdb' bus='virtio'/>
+    </disk>
+    <controller type='usb' index='0' model='qemu-xhci' ports='15'/>
+    <interface type='bridge'>
+      <mac address='52:54:00:AB:cd:01'/>
+      <source bridge='br0'/>
+      <target dev='vnet3'/>
+      <model type='virtio'/>
+      <address type='pci' domain='0x0000' bus='0x01' slot='0x00' function='0x0'/>
+    </interface>
+    <channel type='unix'>
+      <source mode='bind' path='/run/libvirt/qemu/channel/7-k3s-1/org.qemu.guest_agent.0'/>
+      <target type='virtio' name='org.qemu.guest_agent.0' state='connected'/>
+    </channel>
+    <graphics type='vnc' port='5903' autoport='yes' websocket='5703' listen='0.0.0.0' sharePolicy='ignore'>
+      <listen type='address' address='0.0.0.0'/>
+    </graphics>
+    <memballoon model='virtio'>
+      <address type='pci' domain='0x0000' bus='0x05' slot='0x00' function='0x0'/>
+    </memballoon>
+  </devices>
+  <seclabel type='dynamic' model='dac' relabel='yes'/>
+</domain>
+`;
+
+Deno.test("parseXml handles declarations, comments, CDATA, entities and self-closing tags", () => {
+  const node = parseXml(`<?xml version="1.0"?><!-- hi --><a x="1 &amp; 2" y='&apos;q&apos;'><b/><c>t &lt;3&#33;</c><d><![CDATA[<raw>]]></d></a>`);
+  assertEquals(node, {
+    name: "a",
+    attrs: { x: "1 & 2", y: "'q'" },
+    children: [
+      { name: "b", attrs: {}, children: [] },
+      { name: "c", attrs: {}, children: [], text: "t <3!" },
+      { name: "d", attrs: {}, children: [], text: "<raw>" },
+    ],
+  });
+  assertThrows(() => parseXml("<a><b></a>"), Error, "unexpected </a>");
+  assertThrows(() => parseXml("<a>"), Error, "never closed");
+  assertThrows(() => parseXml("<a/><b/>"), Error, "more than one root");
+  assertThrows(() => parseXml("<a><</a>"), Error, "Malformed XML");
+});
+
+Deno.test("serializeXml escapes attribute values and text", () => {
+  const xml = serializeXml({ name: "source", attrs: { dir: `/mnt/it's <"a&b">` }, children: [], text: "x</source><evil/>" });
+  assertEquals(xml, `<source dir='/mnt/it&apos;s &lt;&quot;a&amp;b&quot;&gt;'>x&lt;/source&gt;&lt;evil/&gt;</source>`);
+  assertEquals(parseXml(xml), { name: "source", attrs: { dir: `/mnt/it's <"a&b">` }, children: [], text: "x</source><evil/>" });
+});
+
+Deno.test("parseDomainXml reads virsh dumpxml, keeping unmodelled elements raw", () => {
+  const spec = parseDomainXml(DUMPXML);
+  assertEquals(spec.name, "k3s-1");
+  assertEquals([spec.memoryMiB, spec.currentMemoryMiB, spec.vcpus], [4096, 4096, 2]);
+  assertEquals(spec.devices.disks, [{
+    type: "file",
+    device: "disk",
+    format: "qcow2",
+    cache: "writeback",
+    source: "/mnt/user/domains/k3s-1/disk.qcow2",
+    target: "vda",
+    bus: "virtio",
+    address: { type: "pci", domain: "0x0000", bus: "0x03", slot: "0x00", function: "0x0" },
+  }]);
+  assertEquals(spec.devices.interfaces[0].mac, "52:54:00:ab:cd:01");
+  assertEquals(spec.devices.graphics[0].websocket, 5703);
+  assertEquals(spec.devices.other.map((n) => n.name), ["disk", "controller", "memballoon"]);
+  assertEquals(spec.other.map((n) => n.name), ["metadata", "resource", "seclabel"]);
+});
+
+Deno.test("parse → build → parse is stable for dumpxml output", () => {
+  const spec = parseDomainXml(DUMPXML);
+  const rebuilt = buildDomainXml(spec);
+  assertEquals(parseDomainXml(rebuilt), spec);
+  assertStringIncludes(rebuilt, `<vmtemplate xmlns='unraid' name='Linux' icon='linux.png'/>`);
+  assertStringIncludes(rebuilt, `<source protocol='rbd' name='pool/img'/>`);
+  assertStringIncludes(rebuilt, `<mac address='52:54:00:ab:cd:01'/>`);
+});
+
+// What the Unraid VM manager defines for Windows 11: Hyper-V enlightenments, clock timers, a
+// QXL display with its memory sizes, and no <cpu> element at all
+const WINDOWS_XML = `<domain type='kvm'>
+  <name>Windows 11</name>
+  <uuid>5d0c7a2e-8f41-4b6a-9c3d-2e1f0a9b8c7d</uuid>
+  <metadata>
+    <vmtemplate xmlns="unraid" name="Windows 11" icon="windows11.png" os="windowstpm"/>
+  </metadata>
+  <memory unit='KiB'>8388608</memory>
+  <currentMemory unit='KiB'>8388608</currentMemory>
+  <memoryBacking>
+    <nosharepages/>
+  </memoryBacking>
+  <vcpu placement='static'>4</vcpu>
+  <os>
+    <type arch='x86_64' machine='pc-q35-7.2'>hvm</type>
+    <loader readonly='yes' type='pflash'>/usr/share/qemu/ovmf-x64/OVMF_CODE-pure-efi-tpm.fd</loader>
+    <nvram>/etc/libvirt/qemu/nvram/5d0c7a2e-8f41-4b6a-9c3d-2e1f0a9b8c7d_VARS-pure-efi-tpm.fd</nvram>
+  </os>
+  <features>
+    <acpi/>
+    <apic/>
+    <hyperv mode='custom'>
+      <relaxed state='on'/>
+      <vapic state='on'/>
+      <spinlocks state='on' retries='8191'/>
+      <vendor_id state='on' value='none'/>
+    </hyperv>
+  </features>
+  <clock offset='localtime'>
+    <timer name='hypervclock' present='yes'/>
+    <timer name='hpet' present='no'/>
+  </clock>
+  <on_poweroff>destroy</on_poweroff>
+  <on_reboot>restart</on_reboot>
+  <on_crash>restart</on_crash>
+  <devices>
+    <emulator>/usr/local/sbin/qemu</emulator>
+    <disk type='file' device='disk'>
+      <driver name='qemu' type='raw' cache='writeback'/>
+      <source file='/mnt/user/domains/Windows 11/vdisk1.img'/>
+      <target dev='hdc' bus='virtio'/>
+      <boot order='1'/>
+      <address type='pci' domain='0x0000' bus='0x03' slot='0x00' function='0x0'/>
+    </disk>
+    <interface type='bridge'>
+      <mac address='52:54:00:3c:9e:12'/>
+      <source bridge='br0'/>
+      <model type='virtio-net'/>
+      <address type='pci' domain='0x0000' bus='0x01' slot='0x00' function='0x0'/>
+    </interface>
+    <tpm model='tpm-tis'>
+      <backend type='emulator' version='2.0'/>
+    </tpm>
+    <video>
+      <model type='qxl' ram='65536' vram='65536' vgamem='16384' heads='1' primary='yes'/>
+      <address type='pci' domain='0x0000' bus='0x00' slot='0x01' function='0x0'/>
+    </video>
+  </devices>
+</domain>
+`;
+
+Deno.test("parse → build keeps a Unraid-UI Windows domain intact", () => {
+  const spec = parseDomainXml(WINDOWS_XML);
+  assertEquals([spec.cpu, spec.clock!.offset, Object.keys(spec.features!)], [null, "localtime", ["acpi", "apic"]]);
+  const rebuilt = buildDomainXml(spec);
+  assertEquals(parseDomainXml(rebuilt), spec);
+  assertStringIncludes(
+    rebuilt,
+    `<features>
+    <acpi/>
+    <apic/>
+    <hyperv mode='custom'>
+      <relaxed state='on'/>
+      <vapic state='on'/>
+      <spinlocks state='on' retries='8191'/>
+      <vendor_id state='on' value='none'/>
+    </hyperv>
+  </features>`,
+  );
+  assertStringIncludes(
+    rebuilt,
+    `<clock offset='localtime'>
+    <timer name='hypervclock' present='yes'/>
+    <timer name='hpet' present='no'/>
+  </clock>`,
+  );
+  assertStringIncludes(rebuilt, `<model type='qxl' ram='65536' vram='65536' vgamem='16384' heads='1' primary='yes'/>`);
+  assertStringIncludes(rebuilt, `<nosharepages/>`);
+  assert(!rebuilt.includes("<cpu"), "no <cpu> is added to a domain that had none");
+
+  // Only a new domain gets the defaults
+  const fresh = parseDomainXml(buildDomainXml({ name: "new", memoryMiB: 1024, vcpus: 1 }));
+  assertEquals([fresh.cpu?.mode, fresh.clock?.offset, fresh.features, fresh.onPoweroff], ["host-passthrough", "utc", { acpi: {}, apic: {} }, "destroy"]);
+});
+
+// An inactive Unraid domain with settings inside modelled elements that the spec has no field for
+const TUNED_XML = `<domain type='kvm' xmlns:qemu='http://libvirt.org/schemas/domain/qemu/1.0'>
+  <name>tuned</name>
+  <uuid>9a8b7c6d-1111-2222-3333-444455556666</uuid>
+  <memory unit='KiB'>4194304</memory>
+  <currentMemory unit='KiB'>4194304</currentMemory>
+  <vcpu placement='static' cpuset='2-5'>4</vcpu>
+  <os>
+    <type arch='x86_64' machine='pc-q35-9.2'>hvm</type>
+  </os>
+  <cpu mode='host-passthrough' check='none' migratable='on' match='exact'>
+    <topology sockets='1' dies='1' cores='2' threads='2'/>
+    <cache mode='passthrough'/>
+  </cpu>
+  <clock offset='utc'/>
+  <devices>
+    <emulator>/usr/local/sbin/qemu</emulator>
+    <disk type='file' device='disk'>
+      <driver name='qemu' type='qcow2' cache='writeback' discard='unmap' io='threads'/>
+      <source file='/mnt/user/domains/tuned/vdisk1.qcow2'/>
+      <target dev='hdc' bus='virtio'/>
+      <boot order='1'/>
+    </disk>
+    <filesystem type='mount' accessmode='passthrough'>
+      <driver type='virtiofs' queue='1024'/>
+      <binary path='/usr/libexec/virtiofsd' xattr='on'>
+        <cache mode='always'/>
+      </binary>
+      <source dir='/mnt/user/appdata'/>
+      <target dir='appdata'/>
+    </filesystem>
+    <interface type='bridge'>
+      <mac address='52:54:00:3c:9e:13'/>
+      <source bridge='br0'/>
+      <model type='virtio'/>
+      <driver name='vhost' queues='4'/>
+      <link state='down'/>
+      <boot order='2'/>
+    </interface>
+    <serial type='file'>
+      <source path='/mnt/user/domains/tuned/serial.log'/>
+      <target type='isa-serial' port='0'/>
+    </serial>
+    <channel type='unix'>
+      <source mode='bind' path='/var/run/tuned.agent'/>
+      <target type='virtio' name='org.qemu.guest_agent.0'/>
+      <address type='virtio-serial' controller='0' bus='0' port='1'/>
+    </channel>
+    <tpm model='tpm-crb'>
+      <backend type='emulator' version='2.0' persistent_state='yes'/>
+    </tpm>
+    <graphics type='vnc' port='-1' autoport='yes'>
+      <listen type='network' network='default'/>
+    </graphics>
+  </devices>
+  <qemu:commandline>
+    <qemu:arg value='-S'/>
+  </qemu:commandline>
+</domain>
+`;
+
+Deno.test("parse → build keeps settings inside modelled elements that the spec doesn't model", () => {
+  const spec = parseDomainXml(TUNED_XML);
+  assertEquals(spec.devices.disks[0].source, "/mnt/user/domains/tuned/vdisk1.qcow2");
+  assertEquals(spec.devices.other, []);
+  const rebuilt = buildDomainXml(spec);
+  assertEquals(parseDomainXml(rebuilt), spec);
+  for (
+    const kept of [
+      `<domain type='kvm' xmlns:qemu='http://libvirt.org/schemas/domain/qemu/1.0'>`,
+      `<vcpu placement='static' cpuset='2-5'>4</vcpu>`,
+      `<cpu mode='host-passthrough' check='none' migratable='on' match='exact'>`,
+      `<driver name='qemu' type='qcow2' cache='writeback' discard='unmap' io='threads'/>`,
+      `<driver type='virtiofs' queue='1024'/>`,
+      `<binary path='/usr/libexec/virtiofsd' xattr='on'>
+        <cache mode='always'/>
+      </binary>`,
+      `<driver name='vhost' queues='4'/>`,
+      `<link state='down'/>`,
+      `<boot order='2'/>`,
+      `<source path='/mnt/user/domains/tuned/serial.log'/>`,
+      `<source mode='bind' path='/var/run/tuned.agent'/>`,
+      `<address type='virtio-serial' controller='0' bus='0' port='1'/>`,
+      `<backend type='emulator' version='2.0' persistent_state='yes'/>`,
+      `<listen type='network' network='default'/>`,
+    ]
+  ) assertStringIncludes(rebuilt, kept);
+
+  // A changed field still wins over what was kept beside it
+  spec.devices.disks[0].cache = "none";
+  assertStringIncludes(buildDomainXml(spec), `<driver name='qemu' type='qcow2' cache='none' discard='unmap' io='threads'/>`);
+});
+
+Deno.test("parseDomainXml drops what libvirt adds to a running domain's devices", () => {
+  const live = TUNED_XML.replace("<domain type='kvm'", "<domain type='kvm' id='3'")
+    .replace("<model type='virtio'/>", "<model type='virtio'/><target dev='vnet7'/><alias name='net0'/>")
+    .replace(
+      /<serial type='file'>[\s\S]*?<\/serial>/,
+      `<serial type='pty'><source path='/dev/pts/2'/><target type='isa-serial' port='0'/><alias name='serial0'/></serial>
+    <console type='pty' tty='/dev/pts/2'><source path='/dev/pts/2'/><target type='serial' port='0'/></console>`,
+    )
+    .replace(
+      "<source mode='bind' path='/var/run/tuned.agent'/>",
+      "<source mode='bind' path='/run/libvirt/qemu/channel/3-tuned/org.qemu.guest_agent.0'/>",
+    )
+    .replace("name='org.qemu.guest_agent.0'/>", "name='org.qemu.guest_agent.0' state='connected'/>");
+  const rebuilt = buildDomainXml(parseDomainXml(live));
+  for (const runtime of ["id=", "vnet7", "alias", "/dev/pts", "/run/libvirt", "state='connected'"]) {
+    assert(!rebuilt.includes(runtime), `${runtime} is not kept`);
+  }
+  assertStringIncludes(rebuilt, `<serial type='pty'>`);
+  assertStringIncludes(rebuilt, `<source mode='bind'/>`);
+});
+
+Deno.test("cloudInitDomain builds the provision models' domain", () => {
+  const base = { name: "k3s-1", uuid: "u-1", cpus: 2, memoryMiB: 4096, machine: "pc-q35-8.2", emulator: "/usr/bin/qemu", diskPath: "/d/disk.qcow2" };
+  const iso = cloudInitDomain({ ...base, seedPath: "/d/seed.iso", mounts: [{ hostPath: "/mnt/a&b", tag: "data" }] });
+  assertEquals(iso.devices.disks.map((d) => [d.target, d.bus, d.device, d.format, d.readonly]), [
+    ["vda", "virtio", "disk", "qcow2", undefined],
+    ["sda", "sata", "cdrom", "raw", true],
+  ]);
+  assertStringIncludes(buildDomainXml(iso), `<source dir='/mnt/a&amp;b'/>`);
+  assertEquals(parseDomainXml(buildDomainXml(iso)), iso);
+
+  const vfat = cloudInitDomain({ ...base, seedPath: "/d/seed.img", seedFormat: "vfat", interfaces: [{ type: "network", source: "default" }] });
+  assertEquals(vfat.devices.disks[1], { type: "file", device: "disk", format: "raw", source: "/d/seed.img", target: "vdb", bus: "virtio" });
+  assertEquals(vfat.devices.interfaces, [{ type: "network", source: "default", model: "virtio" }]);
+});
+
+Deno.test("interfaceNode writes the source attribute for each interface type", () => {
+  const xml = (nic: Parameters<typeof interfaceNode>[0]) => serializeXml(interfaceNode(nic));
+  assertStringIncludes(xml({ type: "network", source: "default" }), `<source network='default'/>`);
+  assertStringIncludes(xml({ type: "direct", source: "eth0", mode: "bridge" }), `<source dev='eth0' mode='bridge'/>`);
+  assertStringIncludes(xml({ source: "br0", vlan: 20, mtu: 9000 }), `<vlan>\n    <tag id='20'/>\n  </vlan>`);
+  assertThrows(() => interfaceNode({ source: "br0", mac: "nope" }));
+});
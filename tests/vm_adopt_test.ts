@@ -0,0 +1,104 @@
+import { assertEquals } from "jsr:@std/assert";
+import { parseDomainXml } from "../extensions/models/libvirt_domain.ts";
+import { adoptedVm, adoptionWarnings, domainVm, parseDomblklist, readDomain } from "../extensions/models/vm_adopt.ts";
+
+// Roughly what the Unraid VM manager defines for a Linux guest
+const UNRAID_XML = `<domain type='kvm'>
+  <name>Home Assistant</name>
+  <uuid>0b7c3a3e-1d2f-4c5b-9e8a-7f6d5c4b3a21</uuid>
+  <metadata>
+    <vmtemplate xmlns="unraid" name="Linux" icon="linux.png" os="linux"/>
+  </metadata>
+  <memory unit='KiB'>4194304</memory>
+  <currentMemory unit='KiB'>4194304</currentMemory>
+  <vcpu placement='static'>2</vcpu>
+  <os>
+    <type arch='x86_64' machine='pc-q35-7.1'>hvm</type>
+    <loader readonly='yes' type='pflash'>/usr/share/qemu/ovmf-x64/OVMF_CODE-pure-efi.fd</loader>
+    <nvram>/etc/libvirt/qemu/nvram/0b7c3a3e-1d2f-4c5b-9e8a-7f6d5c4b3a21_VARS-pure-efi.fd</nvram>
+  </os>
+  <devices>
+    <emulator>/usr/local/sbin/qemu</emulator>
+    <disk type='file' device='disk'>
+      <driver name='qemu' type='raw' cache='writeback'/>
+      <source file='/mnt/user/domains/Home Assistant/vdisk1.img'/>
+      <target dev='hdc' bus='virtio'/>
+    </disk>
+    <disk type='file' device='cdrom'>
+      <driver name='qemu' type='raw'/>
+      <target dev='hda' bus='sata'/>
+      <readonly/>
+    </disk>
+    <interface type='bridge'>
+      <mac address='52:54:00:4B:1C:9A'/>
+      <source bridge='br0'/>
+      <model type='virtio-net'/>
+    </interface>
+  </devices>
+</domain>`;
+
+const BLKLIST = ` Type   Device   Target   Source
+-----------------------------------------------------------------------
+ file   disk     hdc      /mnt/user/domains/Home Assistant/vdisk1.img
+ file   cdrom    hda      -
+`;
+
+Deno.test("parseDomblklist keeps sources with spaces and omits the source of empty drives", () => {
+  assertEquals(parseDomblklist(BLKLIST), [
+    { type: "file", device: "disk", target: "hdc", source: "/mnt/user/domains/Home Assistant/vdisk1.img" },
+    { type: "file", device: "cdrom", target: "hda" },
+  ]);
+});
+
+Deno.test("adoptedVm fills in the vm resource from the definition and block devices", () => {
+  const spec = parseDomainXml(UNRAID_XML);
+  const disks = parseDomblklist(BLKLIST).map((d) => (d.source ? { ...d, sizeBytes: 32 * 1024 ** 3 } : d));
+  assertEquals(adoptedVm(spec, { state: "shut off", xml: UNRAID_XML, disks }), {
+    name: "Home Assistant",
+    uuid: "0b7c3a3e-1d2f-4c5b-9e8a-7f6d5c4b3a21",
+    state: "shut off",
+    diskPath: "/mnt/user/domains/Home Assistant/vdisk1.img",
+    cpus: 2,
+    memoryMiB: 4096,
+    disks: [
+      { target: "hdc", device: "disk", source: "/mnt/user/domains/Home Assistant/vdisk1.img", sizeGb: 32 },
+      { target: "hda", device: "cdrom" },
+    ],
+    networks: [{ bridge: "br0", mac: "52:54:00:4b:1c:9a", model: "virtio-net" }],
+    firmware: "uefi",
+    tpm: false,
+    pendingRestart: false,
+    adopted: true,
+  });
+
+  // Booted before a resize to 4 vCPU: the running domain still has 2
+  const resized = UNRAID_XML.replace("<vcpu placement='static'>2</vcpu>", "<vcpu placement='static'>4</vcpu>");
+  assertEquals(adoptedVm(parseDomainXml(resized), { state: "running", xml: resized, liveXml: UNRAID_XML, disks }).pendingRestart, true);
+});
+
+Deno.test("readDomain reads what domainVm needs to rebuild the whole vm resource", async () => {
+  const resized = UNRAID_XML.replace("<vcpu placement='static'>2</vcpu>", "<vcpu placement='static'>4</vcpu>");
+  const commands: string[] = [];
+  const ssh = (command: string) => {
+    commands.push(command);
+    const stdout = command.endsWith("--inactive") ? resized
+      : command.startsWith("virsh dumpxml") ? UNRAID_XML
+      : command.startsWith("virsh domstate") ? "running\n"
+      : command.startsWith("virsh domblklist") ? BLKLIST
+      : JSON.stringify({ "virtual-size": 32 * 1024 ** 3 });
+    return Promise.resolve({ stdout, stderr: "", code: 0 });
+  };
+  const { spec, ...domain } = await readDomain(ssh, "Home Assistant");
+  assertEquals(commands.filter((c) => c.startsWith("qemu-img")), [
+    "qemu-img info -U --output=json '/mnt/user/domains/Home Assistant/vdisk1.img'",
+  ]);
+  const vm = domainVm(spec, domain);
+  assertEquals([vm.state, vm.cpus, vm.pendingRestart, vm.disks[0].sizeGb, vm.networks.length, vm.adopted], ["running", 4, true, 32, 1, undefined]);
+});
+
+Deno.test("adoptionWarnings flags what day-2 methods will miss", () => {
+  assertEquals(adoptionWarnings(parseDomainXml(UNRAID_XML)), [
+    "no QEMU guest agent channel: verify, createTemplate and filesystem growth in resizeDisk need one",
+    "non-qcow2 disks: internal snapshots and resizeDisk need qcow2",
+  ]);
+});
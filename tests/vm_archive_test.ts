@@ -0,0 +1,98 @@
+import { assert, assertEquals, assertStringIncludes, assertThrows } from "jsr:@std/assert";
+import { buildDomainXml, cloudInitDomain, type DomainSpec, parseDomainXml } from "../extensions/models/libvirt_domain.ts";
+import { archiveCommand, archivePath, exportManifest, ExportManifestSchema, importDomainSpec } from "../extensions/models/vm_archive.ts";
+import { clonePlan } from "../extensions/models/vm_clone.ts";
+import { domainFirmware } from "../extensions/models/vm_firmware.ts";
+
+const date = new Date("2026-03-01T12:34:56.789Z");
+const archive = archivePath("/d/.exports", "rancher", date);
+const stagingDir = `${archive}.staging`;
+
+const source = () =>
+  parseDomainXml(buildDomainXml(cloudInitDomain({
+    name: "rancher", uuid: "u-1", cpus: 4, memoryMiB: 8192, machine: "pc-q35-9.1", emulator: "/usr/local/sbin/qemu",
+    diskPath: "/d/rancher/disk.qcow2", seedPath: "/d/rancher/seed.img", seedFormat: "vfat",
+    uefi: { code: "/a/CODE.fd", vars: "/a/VARS.fd", secure: false, nvram: "/d/rancher/nvram.fd" }, tpm: true,
+  })));
+
+const manifestFor = (spec: DomainSpec) =>
+  exportManifest(spec, clonePlan(spec, { sourceDir: "/d/rancher", targetDir: stagingDir }), {
+    firmware: domainFirmware(spec), sizes: { vda: 42949672960 }, nvram: `${stagingDir}/nvram.fd`, date,
+  });
+
+Deno.test("exportManifest describes the staged files", () => {
+  assertEquals(archive, "/d/.exports/rancher-20260301T123456Z.tar.gz");
+  assertEquals(manifestFor(source()), {
+    format: "swamp-vm-export",
+    version: 1,
+    name: "rancher",
+    uuid: "u-1",
+    exportedAt: "2026-03-01T12:34:56.789Z",
+    cpus: 4,
+    memoryMiB: 8192,
+    firmware: "uefi",
+    tpm: true,
+    disks: [{ target: "vda", file: "disk.qcow2", format: "qcow2", virtualSizeBytes: 42949672960 }],
+    seed: { target: "vdb", file: "seed.img", format: "vfat" },
+    nvram: "nvram.fd",
+  });
+  assertThrows(() => ExportManifestSchema.parse({ ...manifestFor(source()), version: 2 }));
+});
+
+Deno.test("archiveCommand packs the manifest first and only replaces the archive when tar succeeds", () => {
+  assertEquals(
+    archiveCommand(manifestFor(source()), { stagingDir, archive }),
+    `tar -czf '${archive}.part' -C '${stagingDir}' 'manifest.json' 'domain.xml' 'disk.qcow2' 'seed.img' 'nvram.fd' || { rm -f '${archive}.part'; exit 1; }; ` +
+      `mv '${archive}.part' '${archive}'`,
+  );
+});
+
+Deno.test("importDomainSpec moves the domain into its new directory and adapts it to the host", () => {
+  const spec = source();
+  const ovmf = { code: "/usr/share/OVMF/OVMF_CODE_4M.fd", vars: "/usr/share/OVMF/OVMF_VARS_4M.fd" };
+  const { spec: imported, macs } = importDomainSpec(spec, {
+    name: "rancher-restore", vmDir: "/mnt/cache/domains/rancher-restore", manifest: manifestFor(spec),
+    emulator: "/usr/bin/qemu-system-x86_64", machines: ["pc-q35-7.2", "pc-q35-8.2"], ovmf,
+  });
+  assertEquals(macs, {});
+  assertEquals(imported.name, "rancher-restore");
+  assertEquals(imported.uuid, "u-1");
+  assertEquals(imported.devices.disks.map((d) => d.source), [
+    "/mnt/cache/domains/rancher-restore/disk.qcow2",
+    "/mnt/cache/domains/rancher-restore/seed.img",
+  ]);
+  assertEquals(imported.devices.emulator, "/usr/bin/qemu-system-x86_64");
+  assertEquals(imported.os.machine, "pc-q35-8.2");
+  assertEquals(imported.os.loader?.path, ovmf.code);
+  assertEquals(imported.os.nvram, { path: "/mnt/cache/domains/rancher-restore/nvram.fd", template: ovmf.vars });
+  assertEquals(spec.name, "rancher");
+
+  const { spec: same } = importDomainSpec(spec, { name: "rancher", vmDir: "/d/rancher", manifest: manifestFor(spec), machines: ["pc-q35-9.1"] });
+  assertEquals([same.os.machine, same.os.loader?.path, same.devices.emulator], ["pc-q35-9.1", "/a/CODE.fd", "/usr/local/sbin/qemu"]);
+});
+
+Deno.test("importDomainSpec keeps what the domain model doesn't cover", () => {
+  const xml = buildDomainXml(source())
+    .replace("<apic/>", "<apic/>\n<hyperv mode='custom'><relaxed state='on'/><spinlocks state='on' retries='8191'/></hyperv>")
+    .replace("<clock offset='utc'/>", "<clock offset='localtime'><timer name='hypervclock' present='yes'/></clock>")
+    .replace(/<cpu\b[^>]*\/>\n/, "");
+  const spec = parseDomainXml(xml);
+  const rebuilt = buildDomainXml(importDomainSpec(spec, { name: "rancher-restore", vmDir: "/d/rancher-restore", manifest: manifestFor(spec) }).spec);
+  assertStringIncludes(rebuilt, `<hyperv mode='custom'>\n      <relaxed state='on'/>\n      <spinlocks state='on' retries='8191'/>\n    </hyperv>`);
+  assertStringIncludes(rebuilt, `<clock offset='localtime'>\n    <timer name='hypervclock' present='yes'/>\n  </clock>`);
+  assert(!rebuilt.includes("<cpu"));
+});
+
+Deno.test("importDomainSpec gives a copy imported beside its source a new UUID and MACs", () => {
+  const spec = source();
+  spec.devices.interfaces[0].mac = "52:54:00:AA:BB:CC";
+  const { spec: copy, macs } = importDomainSpec(spec, {
+    name: "rancher-copy", vmDir: "/d/rancher-copy", manifest: manifestFor(spec), uuid: "u-2",
+  });
+  assertEquals([copy.name, copy.uuid], ["rancher-copy", "u-2"]);
+  assertEquals(Object.keys(macs), ["52:54:00:aa:bb:cc"]);
+  assertEquals(copy.devices.interfaces.map((i) => i.mac), [macs["52:54:00:aa:bb:cc"]]);
+  assert(macs["52:54:00:aa:bb:cc"] !== "52:54:00:aa:bb:cc");
+  assertEquals(copy.devices.disks.map((d) => d.source), ["/d/rancher-copy/disk.qcow2", "/d/rancher-copy/seed.img"]);
+  assertEquals(copy.os.nvram?.path, "/d/rancher-copy/nvram.fd");
+});
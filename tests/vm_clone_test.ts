@@ -0,0 +1,92 @@
+import { assert, assertEquals, assertMatch, assertStringIncludes, assertThrows } from "jsr:@std/assert";
+import { makeCloudInitIso, readIso9660 } from "../extensions/models/cloud_init_iso.ts";
+import { buildDomainXml, cloudInitDomain, parseDomainXml } from "../extensions/models/libvirt_domain.ts";
+import { cloneDomainSpec, clonePlan, cloneSeedFiles, copyDiskCommand } from "../extensions/models/vm_clone.ts";
+import { interfaceNetworks } from "../extensions/models/vm_networks.ts";
+
+const enc = new TextEncoder();
+
+const source = () => {
+  const spec = cloudInitDomain({
+    name: "web-1", uuid: "u-1", cpus: 2, memoryMiB: 4096, machine: "pc-q35-8.2", emulator: "/usr/bin/qemu",
+    diskPath: "/d/web-1/disk.qcow2", seedPath: "/d/web-1/seed.iso",
+    interfaces: [{ type: "bridge", source: "br0", mac: "52:54:00:aa:bb:01" }, { type: "network", source: "lab", mac: "52:54:00:aa:bb:02" }],
+    uefi: { code: "/ovmf/CODE.fd", vars: "/ovmf/VARS.fd", secure: false, nvram: "/d/web-1/nvram.fd" },
+  });
+  spec.devices.disks.push(
+    { type: "file", device: "disk", format: "raw", source: "/d/web-1/data-logs.img", target: "vdc", bus: "virtio", serial: "logs" },
+    { type: "file", device: "cdrom", format: "raw", source: "/mnt/isos/tools.iso", target: "sdb", bus: "sata", readonly: true },
+  );
+  return parseDomainXml(buildDomainXml(spec));
+};
+
+Deno.test("clonePlan copies writable disks, rebuilds the seed and shares read-only media", () => {
+  const plan = clonePlan(source(), { sourceDir: "/d/web-1", targetDir: "/d/web-2" });
+  assertEquals(plan.copies, [
+    { target: "vda", from: "/d/web-1/disk.qcow2", to: "/d/web-2/disk.qcow2", format: "qcow2" },
+    { target: "vdc", from: "/d/web-1/data-logs.img", to: "/d/web-2/data-logs.img", format: "raw" },
+  ]);
+  assertEquals(plan.seed, { from: "/d/web-1/seed.iso", to: "/d/web-2/seed.iso", format: "iso" });
+
+  const block = source();
+  block.devices.disks.push({ type: "block", device: "disk", format: "raw", source: "/dev/sdx", target: "vdd", bus: "virtio" });
+  assertThrows(() => clonePlan(block, { sourceDir: "/d/web-1", targetDir: "/d/web-2" }), Error, "only file-backed disks can be cloned");
+});
+
+Deno.test("copyDiskCommand keeps the backing file unless flattening", () => {
+  const copy = { from: "/d/a/disk.qcow2", to: "/d/b/disk.qcow2", format: "qcow2" };
+  const backing = { path: "/d/.images/noble.img", format: "qcow2" };
+  assertStringIncludes(copyDiskCommand(copy, { backing }), "qemu-img convert -O qcow2 -F qcow2 -B '/d/.images/noble.img' '/d/a/disk.qcow2' '/d/b/disk.qcow2.part'");
+  assertStringIncludes(copyDiskCommand(copy, { backing, flatten: true }), "qemu-img convert -O qcow2 '/d/a/disk.qcow2' '/d/b/disk.qcow2.part'");
+  assertStringIncludes(copyDiskCommand(copy), "mv '/d/b/disk.qcow2.part' '/d/b/disk.qcow2'");
+});
+
+Deno.test("cloneDomainSpec renames, repoints disks and NVRAM, and replaces every MAC", () => {
+  const spec = source();
+  const { spec: clone, macs } = cloneDomainSpec(spec, {
+    name: "web-2", uuid: "u-2",
+    diskPaths: { "/d/web-1/disk.qcow2": "/d/web-2/disk.qcow2", "/d/web-1/seed.iso": "/d/web-2/seed.iso" },
+    nvram: "/d/web-2/nvram.fd",
+  });
+  assertEquals([clone.name, clone.uuid], ["web-2", "u-2"]);
+  assertEquals(clone.devices.disks.map((d) => d.source), ["/d/web-2/disk.qcow2", "/d/web-2/seed.iso", "/d/web-1/data-logs.img", "/mnt/isos/tools.iso"]);
+  assertEquals(clone.os.nvram, { path: "/d/web-2/nvram.fd", template: "/ovmf/VARS.fd" });
+  assertEquals(Object.keys(macs), ["52:54:00:aa:bb:01", "52:54:00:aa:bb:02"]);
+  assertEquals(clone.devices.interfaces.map((i) => i.mac), Object.values(macs));
+  for (const mac of Object.values(macs)) assertMatch(mac, /^52:54:00(:[0-9a-f]{2}){3}$/);
+  assertEquals(spec.name, "web-1");
+  assertEquals(parseDomainXml(buildDomainXml(clone)), clone);
+  assertEquals(interfaceNetworks(clone.devices.interfaces).map((n) => n.bridge ?? n.libvirtNetwork), ["br0", "lab"]);
+
+  const replaced = cloneDomainSpec(spec, { name: "web-2", uuid: "u-2", interfaces: [{ type: "bridge", source: "br1", mac: "52:54:00:00:00:01", model: "virtio" }] });
+  assertEquals(replaced.macs, {});
+  assertEquals(replaced.spec.devices.interfaces, [{ type: "bridge", source: "br1", mac: "52:54:00:00:00:01", model: "virtio" }]);
+});
+
+Deno.test("cloneDomainSpec keeps what the domain model doesn't cover", () => {
+  // A guest defined in the Unraid UI: Hyper-V enlightenments, clock timers, no <cpu> element
+  const xml = buildDomainXml(source())
+    .replace("<apic/>", "<apic/>\n<hyperv mode='custom'><relaxed state='on'/><vapic state='on'/></hyperv>")
+    .replace("<clock offset='utc'/>", "<clock offset='localtime'><timer name='hypervclock' present='yes'/><timer name='hpet' present='no'/></clock>")
+    .replace(/<cpu\b[^>]*\/>\n/, "");
+  const { spec: clone } = cloneDomainSpec(parseDomainXml(xml), { name: "web-2", uuid: "u-2", nvram: "/d/web-2/nvram.fd" });
+  const rebuilt = buildDomainXml(clone);
+  assertStringIncludes(rebuilt, `<hyperv mode='custom'>\n      <relaxed state='on'/>\n      <vapic state='on'/>\n    </hyperv>`);
+  assertStringIncludes(rebuilt, `<clock offset='localtime'>\n    <timer name='hypervclock' present='yes'/>\n    <timer name='hpet' present='no'/>\n  </clock>`);
+  assert(!rebuilt.includes("<cpu"));
+});
+
+Deno.test("cloneSeedFiles gives the clone a new instance-id, hostname and MACs", () => {
+  const seed = makeCloudInitIso("#cloud-config\nhostname: web-1\nusers: []\n", "instance-id: web-1\nlocal-hostname: web-1\n", {
+    networkConfig: "network:\n  version: 2\n  ethernets:\n    nic0:\n      match:\n        macaddress: 52:54:00:AA:BB:01\n",
+    vendorData: "#cloud-config\n",
+  });
+  const files = cloneSeedFiles(readIso9660(seed).files, { name: "web-2", macs: { "52:54:00:aa:bb:01": "52:54:00:12:34:56" } });
+  assertEquals(files.userData, "#cloud-config\nhostname: web-2\nusers: []\n");
+  assertEquals(files.metaData, "instance-id: web-2\nlocal-hostname: web-2\n");
+  assertStringIncludes(files.networkConfig!, "macaddress: 52:54:00:12:34:56");
+  assertEquals(files.vendorData, "#cloud-config\n");
+
+  const given = cloneSeedFiles({ "user-data": enc.encode("#cloud-config\n") }, { name: "web-2", networkConfig: "network: {version: 2}\n" });
+  assertEquals([given.networkConfig, given.vendorData], ["network: {version: 2}\n", undefined]);
+});
@@ -0,0 +1,74 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "jsr:@std/assert";
+import {
+  checkGrowth,
+  dataDiskPath,
+  dataDiskXml,
+  DiskNameSchema,
+  growFilesystemScript,
+  guestDiskPath,
+  nextDiskTarget,
+} from "../extensions/models/vm_disks.ts";
+import { parseDomainDisks } from "../extensions/models/vm_snapshots.ts";
+
+const GiB = 1024 ** 3;
+
+Deno.test("nextDiskTarget skips targets already in use", () => {
+  assertEquals(nextDiskTarget([{ target: "vda" }, { target: "sda" }]), "vdb");
+  assertEquals(nextDiskTarget([{ target: "vda" }, { target: "vdb" }, { target: "vdd" }]), "vdc");
+  const full = Array.from({ length: 26 }, (_, i) => ({ target: `vd${String.fromCharCode(97 + i)}` }));
+  assertThrows(() => nextDiskTarget(full), Error, "No free virtio disk target");
+});
+
+Deno.test("dataDiskXml round-trips through parseDomainDisks with its serial", () => {
+  const path = dataDiskPath("/mnt/user/domains/k3s-1", "longhorn");
+  assertEquals(path, "/mnt/user/domains/k3s-1/data-longhorn.qcow2");
+  const xml = `<domain><devices>${dataDiskXml({ path, target: "vdc", serial: "longhorn" })}</devices></domain>`;
+  assertEquals(parseDomainDisks(xml), [
+    { device: "disk", format: "qcow2", source: path, target: "vdc", serial: "longhorn", readonly: false },
+  ]);
+  assertEquals(guestDiskPath("longhorn"), "/dev/disk/by-id/virtio-longhorn");
+});
+
+Deno.test("DiskNameSchema fits the 20-byte virtio serial", () => {
+  assertEquals(DiskNameSchema.safeParse("local-path_1").success, true);
+  assertEquals(DiskNameSchema.safeParse("a".repeat(20)).success, true);
+  for (const bad of ["a".repeat(21), "", "-x", "a.b", "a b"]) assertEquals(DiskNameSchema.safeParse(bad).success, false, bad);
+});
+
+Deno.test("checkGrowth allows growing and no-ops, refuses shrinking", () => {
+  assertEquals(checkGrowth(20 * GiB, 40), true);
+  assertEquals(checkGrowth(20 * GiB, 20), false);
+  assertThrows(() => checkGrowth(20 * GiB, 10), Error, "shrinking to 10GB is not supported");
+});
+
+// Run the grow script against stub lsblk/findmnt/growpart/... that describe a cloud image root
+// disk: ext4 root on partition 1 and a vfat ESP on partition 15
+Deno.test({
+  name: "growFilesystemScript grows partitions and filesystems it can, skipping the rest",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const dir = await Deno.makeTempDir();
+    const stub = (name: string, body: string) => Deno.writeTextFile(`${dir}/${name}`, `#!/bin/sh\n${body}\n`, { mode: 0o755 });
+    try {
+      await stub("readlink", `echo /dev/vda`);
+      await stub("lsblk", `printf '/dev/vda\\n/dev/vda1\\n/dev/vda15\\n'`);
+      await stub("findmnt", `case "$3:$5" in TARGET:/dev/vda1) echo /;; FSTYPE:/dev/vda1) echo ext4;;
+  TARGET:/dev/vda15) echo /boot/efi;; FSTYPE:/dev/vda15) echo vfat;; esac`);
+      await stub("cat", `p=\${1%/partition}; echo \${p##*vda}`);
+      // growpart exits 1 when the partition already fills the disk — not an error
+      await stub("growpart", `echo "growpart $*" >> ${dir}/log; exit 1`);
+      await stub("resize2fs", `echo "resize2fs $*" >> ${dir}/log`);
+      const out = await new Deno.Command("sh", {
+        args: ["-c", growFilesystemScript("/dev/disk/by-id/virtio-root")],
+        env: { PATH: `${dir}:/usr/bin:/bin` },
+        stdout: "piped",
+        stderr: "piped",
+      }).output();
+      assertEquals(out.code, 0, new TextDecoder().decode(out.stderr));
+      assertStringIncludes(new TextDecoder().decode(out.stdout), "grew /dev/vda1 (ext4) on /");
+      assertEquals(await Deno.readTextFile(`${dir}/log`), "growpart /dev/vda 1\nresize2fs /dev/vda1\n");
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  },
+});
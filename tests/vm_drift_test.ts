@@ -0,0 +1,121 @@
+import { assert, assertEquals } from "jsr:@std/assert";
+import { buildDomainXml, cloudInitDomain, parseDomainXml } from "../extensions/models/libvirt_domain.ts";
+import { makeCloudInitIso } from "../extensions/models/cloud_init_iso.ts";
+import { domainDrift, isImageVersion, provisionDrift, seedDrift } from "../extensions/models/vm_drift.ts";
+import { parseDomainSizing } from "../extensions/models/vm_resize.ts";
+
+const enc = new TextEncoder();
+const GiB = 1024 ** 3;
+const vmDir = "/d/k3s-1";
+const seedPath = `${vmDir}/seed.iso`;
+const cacheDir = "/d/.cloud-images";
+const fileName = "noble-server-cloudimg-amd64.img";
+
+const expected = {
+  cpus: 4,
+  memoryMiB: 8192,
+  diskSizeGb: 40,
+  backing: { cacheDir, fileName },
+  interfaces: [{ type: "bridge", source: "br0" }],
+  mounts: [{ hostPath: "/mnt/user/home", tag: "home" }],
+  firmware: "bios",
+  tpm: false,
+};
+
+const root = { "virtual-size": 40 * GiB, "full-backing-filename": `${cacheDir}/noble-server-cloudimg-amd64.3f2a1b0c9d8e.img` };
+
+const provisioned = () => {
+  const xml = buildDomainXml(cloudInitDomain({
+    name: "k3s-1", uuid: "u-1", cpus: 4, memoryMiB: 8192, machine: "pc-q35-8.2", emulator: "/usr/bin/qemu",
+    diskPath: `${vmDir}/disk.qcow2`, seedPath, mounts: [{ hostPath: "/mnt/user/home", tag: "home" }],
+  }));
+  return { xml, spec: parseDomainXml(xml) };
+};
+
+Deno.test("isImageVersion matches cached versions of the image only", () => {
+  assert(isImageVersion(root["full-backing-filename"], cacheDir, fileName));
+  assert(!isImageVersion(`${cacheDir}/jammy-server-cloudimg-amd64.3f2a1b0c9d8e.img`, cacheDir, fileName));
+  assert(!isImageVersion(`${cacheDir}/jammy-server-cloudimg-amd64.img`, cacheDir, fileName));
+});
+
+Deno.test("domainDrift accepts the unversioned image older VMs are overlays on", () => {
+  const { xml, spec } = provisioned();
+  const legacy = { ...root, "full-backing-filename": `${cacheDir}/${fileName}` };
+  assertEquals(domainDrift(spec, { sizing: parseDomainSizing(xml), root: legacy, vmDir, seedPath }, expected), []);
+  assert(isImageVersion(`${cacheDir}/${fileName}`, cacheDir, fileName));
+});
+
+Deno.test("domainDrift finds nothing on a VM as provisioned, attached data disks included", () => {
+  const { xml, spec } = provisioned();
+  spec.devices.disks.push({ type: "file", device: "disk", format: "qcow2", source: `${vmDir}/data-longhorn.qcow2`, target: "vdb", bus: "virtio", serial: "longhorn" });
+  assertEquals(domainDrift(spec, { sizing: parseDomainSizing(xml), root, vmDir, seedPath }, expected), []);
+});
+
+Deno.test("domainDrift reports edits made outside swamp", () => {
+  const { spec } = provisioned();
+  const xml = buildDomainXml(spec).replace("placement='static'>4<", "placement='static'>8<");
+  spec.devices.disks.push({ type: "file", device: "disk", format: "raw", source: "/mnt/disks/ssd/extra.img", target: "vdc", bus: "virtio" });
+  spec.devices.interfaces.push({ type: "network", source: "default", model: "e1000" });
+  spec.devices.filesystems[0].source = "/mnt/user/rob";
+  spec.devices.filesystems.push({ accessmode: "passthrough", source: "/mnt/user/isos", target: "isos" });
+  const grown = { "virtual-size": 60 * GiB };
+  assertEquals(domainDrift(spec, { sizing: parseDomainSizing(xml), root: grown, vmDir, seedPath }, expected), [
+    { path: "cpus", status: "changed", expected: 4, actual: 8 },
+    { path: "disk/vda/sizeGb", status: "changed", expected: 40, actual: 60 },
+    { path: "disk/vda/backing", status: "missing", expected: `${cacheDir}/${fileName}` },
+    { path: "disk/vdc", status: "unexpected", actual: "/mnt/disks/ssd/extra.img" },
+    { path: "networks/1", status: "unexpected", actual: "network default" },
+    { path: "mounts/home/hostPath", status: "changed", expected: "/mnt/user/home", actual: "/mnt/user/rob" },
+    { path: "mounts/isos", status: "unexpected", actual: "/mnt/user/isos" },
+  ]);
+
+  const bare = parseDomainXml(`<domain type='kvm'><name>k3s-1</name><memory unit='MiB'>8192</memory><vcpu>4</vcpu></domain>`);
+  assertEquals(
+    domainDrift(bare, { sizing: { cpus: 4, memoryMiB: 8192 }, root: null, vmDir, seedPath }, { ...expected, mounts: [] }).map((d) => [d.path, d.status]),
+    [["disk/vda", "missing"], ["disk/seed", "missing"], ["networks/0", "missing"]],
+  );
+});
+
+Deno.test("seedDrift compares the seed on the host file by file", () => {
+  const actual = {
+    "user-data": enc.encode("#cloud-config\nhostname: k3s-1\n"),
+    "meta-data": enc.encode("instance-id: k3s-1\n"),
+    "vendor-data": enc.encode("#cloud-config\n"),
+  };
+  assertEquals(
+    seedDrift({
+      "user-data": "#cloud-config\nhostname: k3s-1\npackages: [htop]\n",
+      "meta-data": "instance-id: k3s-1\n",
+      "network-config": "network: {version: 2}\n",
+      "vendor-data": undefined,
+    }, actual),
+    [
+      { path: "seed/user-data", status: "changed" },
+      { path: "seed/network-config", status: "missing" },
+      { path: "seed/vendor-data", status: "unexpected" },
+    ],
+  );
+});
+
+Deno.test("provisionDrift takes unset MACs from the domain and compares the seed", () => {
+  const { xml, spec } = provisioned();
+  spec.devices.interfaces[0].mac = "52:54:00:12:34:56";
+  const args = {
+    name: "k3s-1", cpus: 4, memoryMiB: 8192, diskSizeGb: 40, username: "rob", sshPublicKey: "ssh-ed25519 AAAA rob",
+    mounts: [{ hostPath: "/mnt/user/home", tag: "home" }], networks: [{ bridge: "br0" }],
+  };
+  const { nics, seed } = provisionDrift({ xml, spec, root, seed: null }, args, { vmDir, seedPath, backing: { cacheDir, fileName } });
+  assertEquals(nics!.map((n) => n.mac), ["52:54:00:12:34:56"]);
+
+  const bytes = makeCloudInitIso(seed["user-data"], seed["meta-data"], { networkConfig: seed["network-config"] });
+  const state = { xml, spec, root, seed: bytes };
+  assertEquals(provisionDrift(state, args, { vmDir, seedPath, backing: { cacheDir, fileName } }).drift, []);
+  assertEquals(
+    provisionDrift({ ...state, seed: null }, { ...args, packages: ["htop"] }, { vmDir, seedPath, backing: { cacheDir, fileName } }).drift,
+    [{ path: "seed", status: "missing", expected: seedPath }],
+  );
+  assertEquals(
+    provisionDrift(state, { ...args, packages: ["htop"] }, { vmDir, seedPath, backing: { cacheDir, fileName } }).drift,
+    [{ path: "seed/user-data", status: "changed" }],
+  );
+});
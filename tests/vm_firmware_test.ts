@@ -0,0 +1,72 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "jsr:@std/assert";
+import { buildDomainXml, cloudInitDomain, parseDomainXml } from "../extensions/models/libvirt_domain.ts";
+import { domainFirmware, firmwareProbeCommand, nvramPath, selectFirmware, undefineCommand } from "../extensions/models/vm_firmware.ts";
+
+const UNRAID = [
+  "/usr/share/qemu/ovmf-x64/OVMF_CODE-pure-efi.fd",
+  "/usr/share/qemu/ovmf-x64/OVMF_VARS-pure-efi.fd",
+  "/usr/share/qemu/ovmf-x64/OVMF_CODE-pure-efi-tpm.fd",
+  "/usr/share/qemu/ovmf-x64/OVMF_VARS-pure-efi-tpm.fd",
+].join("\n");
+
+const DEBIAN = [
+  "/usr/share/OVMF/OVMF_CODE_4M.fd",
+  "/usr/share/OVMF/OVMF_VARS_4M.fd",
+  "/usr/share/OVMF/OVMF_CODE_4M.secboot.fd",
+  "/usr/share/OVMF/OVMF_VARS_4M.ms.fd",
+].join("\n");
+
+Deno.test("selectFirmware picks an OVMF build whose code and vars both exist", () => {
+  assertEquals(selectFirmware(UNRAID, { firmware: "bios" }), null);
+  assertEquals(selectFirmware(UNRAID, { firmware: "uefi" })?.code, "/usr/share/qemu/ovmf-x64/OVMF_CODE-pure-efi-tpm.fd");
+  const plain = UNRAID.split("\n").slice(0, 2).join("\n");
+  assertEquals(selectFirmware(plain, { firmware: "uefi", tpm: true })?.vars, "/usr/share/qemu/ovmf-x64/OVMF_VARS-pure-efi.fd");
+  assertEquals(selectFirmware(DEBIAN, { firmware: "uefi" }), {
+    code: "/usr/share/OVMF/OVMF_CODE_4M.fd",
+    vars: "/usr/share/OVMF/OVMF_VARS_4M.fd",
+    secure: false,
+    tpm: true,
+  });
+  assertEquals(selectFirmware(DEBIAN, { firmware: "uefi-secure" })?.vars, "/usr/share/OVMF/OVMF_VARS_4M.ms.fd");
+  assertThrows(() => selectFirmware(UNRAID, { firmware: "uefi-secure" }), Error, "No Secure Boot OVMF firmware found");
+  assertThrows(() => selectFirmware("/usr/share/OVMF/OVMF_CODE_4M.fd\n", { firmware: "uefi" }), Error, "No OVMF firmware found");
+});
+
+Deno.test("firmwareProbeCommand checks each OVMF path once", () => {
+  const cmd = firmwareProbeCommand();
+  assertStringIncludes(cmd, "'/usr/share/qemu/ovmf-x64/OVMF_VARS-pure-efi-tpm.fd'");
+  assertEquals(cmd.split("'/usr/share/OVMF/OVMF_CODE_4M.fd'").length, 2);
+});
+
+Deno.test("cloudInitDomain adds OVMF with per-VM NVRAM, SMM for Secure Boot, and a TPM", () => {
+  const uefi = { ...selectFirmware(DEBIAN, { firmware: "uefi-secure" }), nvram: nvramPath("/d/win") };
+  const spec = cloudInitDomain({
+    name: "win", uuid: "u-2", cpus: 4, memoryMiB: 8192, machine: "pc-q35-8.2", emulator: "/usr/bin/qemu",
+    diskPath: "/d/win/disk.qcow2", seedPath: "/d/win/seed.iso", uefi, tpm: true,
+  });
+  const xml = buildDomainXml(spec);
+  assertStringIncludes(xml, `<loader readonly='yes' secure='yes' type='pflash'>/usr/share/OVMF/OVMF_CODE_4M.secboot.fd</loader>`);
+  assertStringIncludes(xml, `<nvram template='/usr/share/OVMF/OVMF_VARS_4M.ms.fd'>/d/win/nvram.fd</nvram>`);
+  assertStringIncludes(xml, `<smm state='on'/>`);
+  assertStringIncludes(xml, `<tpm model='tpm-crb'>\n      <backend type='emulator' version='2.0'/>\n    </tpm>`);
+  assertEquals(parseDomainXml(xml), spec);
+
+  const bios = cloudInitDomain({ name: "k3s-1", cpus: 2, memoryMiB: 4096, diskPath: "/d/disk.qcow2", seedPath: "/d/seed.iso" });
+  assertEquals([bios.os.loader, bios.os.nvram, bios.features!.smm, bios.devices.tpms], [undefined, undefined, undefined, []]);
+});
+
+Deno.test("undefineCommand falls back for libvirt without --tpm or NVRAM support", () => {
+  assertEquals(
+    undefineCommand("vm1"),
+    "virsh undefine 'vm1' --nvram --tpm --snapshots-metadata 2>/dev/null || " +
+      "virsh undefine 'vm1' --nvram --snapshots-metadata 2>/dev/null || " +
+      "virsh undefine 'vm1' --snapshots-metadata",
+  );
+});
+
+Deno.test("domainFirmware recognises OVMF loaders and firmware autoselection", () => {
+  const os = (xml: string) => domainFirmware(parseDomainXml(`<domain type='kvm'><name>vm1</name><memory>1048576</memory><vcpu>1</vcpu>${xml}</domain>`));
+  assertEquals(os("<os><type>hvm</type></os>"), "bios");
+  assertEquals(os("<os firmware='efi'><type>hvm</type></os>"), "uefi");
+  assertEquals(os("<os><type>hvm</type><loader secure='yes' type='pflash'>/c.fd</loader></os>"), "uefi-secure");
+});
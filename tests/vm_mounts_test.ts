@@ -0,0 +1,42 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "jsr:@std/assert";
+import { buildDomainXml, cloudInitDomain, parseDomainXml } from "../extensions/models/libvirt_domain.ts";
+import { MountSchema, usesVirtiofs, virtiofsdPath, virtiofsdProbeCommand } from "../extensions/models/vm_mounts.ts";
+
+Deno.test("virtiofsdPath takes the first path the probe printed, and fails without one", () => {
+  assertEquals(virtiofsdPath("/usr/libexec/virtiofsd\n"), "/usr/libexec/virtiofsd");
+  assertThrows(() => virtiofsdPath(""), Error, "virtiofs mounts need virtiofsd on the host");
+  assertStringIncludes(virtiofsdProbeCommand(), "command -v virtiofsd ||");
+  assertEquals(MountSchema.safeParse({ hostPath: "/mnt/a", tag: "a", driver: "nfs" }).success, false);
+});
+
+Deno.test("cloudInitDomain shares guest memory only when a mount uses virtiofs", () => {
+  const base = { name: "vm1", uuid: "u-1", cpus: 2, memoryMiB: 4096, machine: "pc-q35-8.2", emulator: "/usr/bin/qemu", diskPath: "/d/disk.qcow2", seedPath: "/d/seed.iso" };
+  const mounts = [
+    { hostPath: "/mnt/user/home", tag: "home", driver: "virtiofs" },
+    { hostPath: "/mnt/user/iso", tag: "iso" },
+  ];
+  assertEquals(usesVirtiofs(mounts), true);
+  const spec = cloudInitDomain({ ...base, mounts, virtiofsd: "/usr/libexec/virtiofsd" });
+  const xml = buildDomainXml(spec);
+  assertStringIncludes(xml, `<memoryBacking>\n    <source type='memfd'/>\n    <access mode='shared'/>\n  </memoryBacking>`);
+  assertStringIncludes(
+    xml,
+    `<filesystem type='mount' accessmode='passthrough'>
+      <driver type='virtiofs'/>
+      <binary path='/usr/libexec/virtiofsd'/>
+      <source dir='/mnt/user/home'/>`,
+  );
+  assertEquals(spec.devices.filesystems[1], { accessmode: "passthrough", source: "/mnt/user/iso", target: "iso" });
+  assertEquals(parseDomainXml(xml), spec);
+
+  const ninep = cloudInitDomain({ ...base, mounts: [mounts[1]] });
+  assertEquals(ninep.memoryBacking, undefined);
+});
+
+Deno.test("parseDomainXml keeps memoryBacking it doesn't model as raw XML", () => {
+  const xml = `<domain type='kvm'><name>vm1</name><memory>1048576</memory><vcpu>1</vcpu>
+    <memoryBacking><hugepages/></memoryBacking></domain>`;
+  const spec = parseDomainXml(xml);
+  assertEquals(spec.memoryBacking, undefined);
+  assertEquals(spec.other, [{ name: "memoryBacking", attrs: {}, children: [{ name: "hugepages", attrs: {}, children: [] }] }]);
+});
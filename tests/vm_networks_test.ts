@@ -0,0 +1,72 @@
+import { assertEquals, assertMatch } from "jsr:@std/assert";
+import {
+  domainInterfaces,
+  networkConfigFor,
+  NetworkSchema,
+  randomMac,
+  resolveNetworks,
+} from "../extensions/models/vm_networks.ts";
+
+Deno.test("resolveNetworks defaults to br0 with a random QEMU MAC", () => {
+  const [nic] = resolveNetworks([{}]);
+  assertEquals({ ...nic, mac: "" }, { bridge: "br0", mac: "", model: "virtio" });
+  assertMatch(nic.mac, /^52:54:00(:[0-9a-f]{2}){3}$/);
+  assertMatch(randomMac(), /^52:54:00(:[0-9a-f]{2}){3}$/);
+  assertEquals(resolveNetworks([{ libvirtNetwork: "default", mac: "52:54:00:AA:BB:CC", vlanTag: 20, model: "e1000" }]), [
+    { libvirtNetwork: "default", vlanTag: 20, mac: "52:54:00:aa:bb:cc", model: "e1000" },
+  ]);
+});
+
+Deno.test("NetworkSchema rejects conflicting sources and bad MACs", () => {
+  assertEquals(NetworkSchema.safeParse({ bridge: "br0", libvirtNetwork: "default" }).success, false);
+  assertEquals(NetworkSchema.safeParse({ mac: "52:54:00:12:34" }).success, false);
+  assertEquals(NetworkSchema.safeParse({ mac: "01:00:5e:00:00:01" }).success, false, "multicast");
+  assertEquals(NetworkSchema.safeParse({ vlanTag: 4095 }).success, false);
+  assertEquals(NetworkSchema.safeParse({ bridge: "br1", mac: "52:54:00:12:34:56", vlanTag: 20 }).success, true);
+});
+
+Deno.test("domainInterfaces maps bridges and libvirt networks with their MACs", () => {
+  const nics = resolveNetworks([{ bridge: "br1", mac: "52:54:00:00:00:01" }, { libvirtNetwork: "storage", mac: "52:54:00:00:00:02" }]);
+  assertEquals(domainInterfaces(nics), [
+    { type: "bridge", source: "br1", mac: "52:54:00:00:00:01", model: "virtio" },
+    { type: "network", source: "storage", mac: "52:54:00:00:00:02", model: "virtio" },
+  ]);
+});
+
+Deno.test("networkConfigFor matches NICs by MAC and runs DHCP on the VLAN when tagged", () => {
+  assertEquals(
+    networkConfigFor(resolveNetworks([{ mac: "52:54:00:00:00:01" }])),
+    `network:
+  version: 2
+  ethernets:
+    nic0:
+      match:
+        macaddress: "52:54:00:00:00:01"
+      dhcp4: true
+`,
+  );
+  assertEquals(
+    networkConfigFor(resolveNetworks([{ mac: "52:54:00:00:00:01" }, { mac: "52:54:00:00:00:02", vlanTag: 30 }])),
+    `network:
+  version: 2
+  ethernets:
+    nic0:
+      match:
+        macaddress: "52:54:00:00:00:01"
+      dhcp4: true
+      dhcp4-overrides:
+        route-metric: 100
+    nic1:
+      match:
+        macaddress: "52:54:00:00:00:02"
+      dhcp4: false
+  vlans:
+    "nic1.30":
+      id: 30
+      link: nic1
+      dhcp4: true
+      dhcp4-overrides:
+        route-metric: 200
+`,
+  );
+});
@@ -0,0 +1,50 @@
+import { assert, assertEquals, assertRejects } from "jsr:@std/assert";
+import { provisionVm } from "../extensions/models/vm_provision.ts";
+
+const vmDir = "/d/k3s-1";
+
+const args = {
+  name: "k3s-1", cpus: 4, memoryMiB: 8192, diskSizeGb: 40, username: "rob", sshPublicKey: "ssh-ed25519 AAAA rob",
+};
+
+// A host without k3s-1. `resolve` stands in for fetching the backing disk and is logged among
+// the commands, so tests can see where in the flow it ran.
+function freshHost(resolve = () => Promise.resolve({ path: "/d/.cloud-images/noble.img", format: "qcow2", label: "Ubuntu 24.04", diskSizeGb: 40 })) {
+  const commands: string[] = [];
+  const ssh = (command: string) => {
+    commands.push(command);
+    let stdout = "";
+    let code = 0;
+    if (command.startsWith("virsh dominfo") || command.startsWith("test -e")) code = 1;
+    else if (command.startsWith("test -d")) stdout = "created";
+    else if (command === "cat /proc/sys/kernel/random/uuid") stdout = "u-1";
+    return Promise.resolve({ stdout, stderr: "", code });
+  };
+  const backing = {
+    expected: { path: "/d/.cloud-images/noble.img" },
+    resolve: () => {
+      commands.push("resolve");
+      return resolve();
+    },
+  };
+  return { ssh, commands, backing };
+}
+
+const logger = () => ({ info: (_line: string) => {} });
+
+Deno.test("provisionVm resolves the backing disk before creating the VM directory", async () => {
+  const { ssh, commands, backing } = freshHost();
+  const vm = await provisionVm(ssh, args, { vmDir, backing }, logger());
+  const at = (prefix: string) => commands.findIndex((c) => c.startsWith(prefix));
+  assert(at("resolve") < at("test -d"), commands.join("\n"));
+  assert(at("test -d") < at("qemu-img create"), commands.join("\n"));
+  assert(commands.includes(`qemu-img create -f qcow2 -F qcow2 -b '/d/.cloud-images/noble.img' '${vmDir}/disk.qcow2' 40G`));
+  assertEquals(commands.slice(-2), [`virsh define '${vmDir}/domain.xml'`, "virsh start 'k3s-1'"]);
+  assertEquals([vm.uuid, vm.state, vm.diskPath, vm.firmware], ["u-1", "RUNNING", `${vmDir}/disk.qcow2`, "bios"]);
+});
+
+Deno.test("provisionVm leaves the host alone when the backing disk can't be had", async () => {
+  const { ssh, commands, backing } = freshHost(() => Promise.reject(new Error("checksum mismatch")));
+  await assertRejects(() => provisionVm(ssh, args, { vmDir, backing }, logger()), Error, "checksum mismatch");
+  assertEquals(commands, ["virsh dominfo 'k3s-1'", `test -e '${vmDir}/disk.qcow2'`, "resolve"]);
+});
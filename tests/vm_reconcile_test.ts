@@ -0,0 +1,148 @@
+import { assert, assertEquals, assertRejects } from "jsr:@std/assert";
+import { buildDomainXml, cloudInitDomain, parseDomainXml } from "../extensions/models/libvirt_domain.ts";
+import { makeCloudInitIso } from "../extensions/models/cloud_init_iso.ts";
+import { type DriftItem, provisionDrift } from "../extensions/models/vm_drift.ts";
+import { undefineCommand } from "../extensions/models/vm_firmware.ts";
+import { provisionRollback, reconcilePlan, reconcileVm } from "../extensions/models/vm_reconcile.ts";
+
+const GiB = 1024 ** 3;
+const vmDir = "/d/k3s-1";
+const seedPath = `${vmDir}/seed.iso`;
+const cacheDir = "/d/.cloud-images";
+const fileName = "noble-server-cloudimg-amd64.img";
+const backing = { cacheDir, fileName };
+
+const args = {
+  name: "k3s-1", cpus: 4, memoryMiB: 8192, diskSizeGb: 40, username: "rob", sshPublicKey: "ssh-ed25519 AAAA rob",
+  mounts: [{ hostPath: "/mnt/user/home", tag: "home" }],
+};
+
+// A host with k3s-1 as provision left it: `host.state` is what `virsh domstate` reports until a
+// `virsh start`, `host.backingFile` what vda is an overlay on
+function fakeHost({ state = "running", backingFile = `${cacheDir}/noble-server-cloudimg-amd64.3f2a1b0c9d8e.img` } = {}) {
+  const xml = buildDomainXml(cloudInitDomain({
+    name: "k3s-1", uuid: "u-1", cpus: 4, memoryMiB: 8192, machine: "pc-q35-8.2", emulator: "/usr/bin/qemu",
+    diskPath: `${vmDir}/disk.qcow2`, seedPath, mounts: args.mounts,
+  }));
+  const { seed } = provisionDrift({ xml, spec: parseDomainXml(xml), root: null, seed: null }, args, { vmDir, seedPath, backing });
+  const iso = makeCloudInitIso(seed["user-data"], seed["meta-data"]);
+  const root = { "virtual-size": 40 * GiB, "full-backing-filename": backingFile };
+
+  const commands: string[] = [];
+  const ssh = (command: string) => {
+    commands.push(command);
+    let stdout = "";
+    if (command.startsWith("virsh dumpxml")) stdout = xml;
+    else if (command.startsWith("qemu-img info")) stdout = JSON.stringify(root);
+    else if (command.startsWith("base64")) stdout = btoa(Array.from(iso, (b) => String.fromCharCode(b)).join(""));
+    else if (command.startsWith("virsh domstate")) stdout = state;
+    else if (command.startsWith("virsh start")) state = "running";
+    return Promise.resolve({ stdout, stderr: "", code: 0 });
+  };
+  return { ssh, commands };
+}
+
+const reads = ["virsh dumpxml", "qemu-img info", "base64", "virsh domstate"];
+
+function fakeSsh(replies: Array<{ stdout: string; code?: number }>) {
+  const commands: string[] = [];
+  const ssh = (command: string) => {
+    commands.push(command);
+    const reply = replies.shift() ?? { stdout: "" };
+    return Promise.resolve({ stdout: reply.stdout, stderr: "", code: reply.code ?? 0 });
+  };
+  return { ssh, commands };
+}
+
+const logger = () => {
+  const lines: string[] = [];
+  return { info: (line: string) => lines.push(line), lines };
+};
+
+Deno.test("reconcilePlan changes sizing, a too-small root disk and the seed in place", () => {
+  assertEquals(reconcilePlan([]), { resize: false, growDisk: false, seed: false, kept: [], blockers: [] });
+  assertEquals(
+    reconcilePlan([
+      { path: "memoryMiB", status: "changed", expected: 8192, actual: 4096 },
+      { path: "disk/vda/sizeGb", status: "changed", expected: 60, actual: 40 },
+      { path: "seed/user-data", status: "changed" },
+      { path: "seed/network-config", status: "missing" },
+    ]),
+    { resize: true, growDisk: true, seed: true, kept: [], blockers: [] },
+  );
+});
+
+Deno.test("reconcilePlan keeps larger and foreign disks and blocks on what needs a new VM", () => {
+  const larger: DriftItem = { path: "disk/vda/sizeGb", status: "changed", expected: 40, actual: 60 };
+  const foreign: DriftItem = { path: "disk/vdc", status: "unexpected", actual: "/mnt/disks/ssd/extra.img" };
+  const blockers: DriftItem[] = [
+    { path: "firmware", status: "changed", expected: "uefi", actual: "bios" },
+    { path: "disk/vda/backing", status: "changed", expected: "/d/.cloud-images/noble.img", actual: "/d/.templates/k3s/disk.qcow2" },
+    { path: "disk/seed", status: "missing", expected: "/d/k3s-1/seed.iso" },
+    { path: "networks/1", status: "missing", expected: "bridge br1" },
+    { path: "mounts/home", status: "unexpected", actual: "/mnt/user/home" },
+  ];
+  assertEquals(reconcilePlan([larger, foreign, ...blockers]), {
+    resize: false, growDisk: false, seed: false, kept: [larger, foreign], blockers,
+  });
+});
+
+Deno.test("reconcileVm leaves a matching VM alone, including one on the unversioned image", async () => {
+  for (const backingFile of [undefined, `${cacheDir}/${fileName}`]) {
+    const { ssh, commands } = fakeHost({ backingFile });
+    const log = logger();
+    const vm = await reconcileVm(ssh, args, { vmDir, backing }, log);
+    assert(commands.every((c) => reads.some((r) => c.startsWith(r))), commands.join("\n"));
+    assert(log.lines.includes("VM 'k3s-1' already matches its provision arguments."));
+    assertEquals([vm.uuid, vm.state, vm.cpus, vm.memoryMiB, vm.pendingRestart], ["u-1", "running", 4, 8192, false]);
+  }
+});
+
+Deno.test("reconcileVm resizes a shut-off VM and then starts it", async () => {
+  const { ssh, commands } = fakeHost({ state: "shut off" });
+  const vm = await reconcileVm(ssh, { ...args, memoryMiB: 4096 }, { vmDir, backing }, logger());
+  assertEquals(commands.filter((c) => !reads.some((r) => c.startsWith(r))), [
+    "virsh setmem 'k3s-1' 4096M --config",
+    "virsh setmaxmem 'k3s-1' 4096M --config",
+    "virsh start 'k3s-1'",
+  ]);
+  assertEquals([vm.state, vm.memoryMiB, vm.pendingRestart], ["running", 4096, false]);
+});
+
+Deno.test("reconcileVm refuses drift it can't change in place before changing anything", async () => {
+  const { ssh, commands } = fakeHost({ state: "shut off" });
+  await assertRejects(
+    () => reconcileVm(ssh, { ...args, memoryMiB: 4096, firmware: "uefi" }, { vmDir, backing }, logger()),
+    Error,
+    "firmware changed (expected uefi, actual bios)",
+  );
+  assert(commands.every((c) => reads.some((r) => c.startsWith(r))), commands.join("\n"));
+});
+
+Deno.test("provisionRollback removes the VM directory it created and the domain it defined", async () => {
+  const { ssh, commands } = fakeSsh([{ stdout: "created" }]);
+  const rollback = provisionRollback(ssh, { name: "k3s-1", vmDir });
+  await rollback.makeDir();
+  rollback.track(`${vmDir}/disk.qcow2`);
+  rollback.markDefined();
+  await rollback.undo(logger());
+  assertEquals(commands.slice(1), ["virsh destroy 'k3s-1'", undefineCommand("k3s-1"), `rm -rf '${vmDir}'`]);
+});
+
+Deno.test("provisionRollback only removes the files it wrote into an existing directory", async () => {
+  const { ssh, commands } = fakeSsh([{ stdout: "" }]);
+  const rollback = provisionRollback(ssh, { name: "k3s-1", vmDir });
+  await rollback.makeDir();
+  rollback.track(`${vmDir}/disk.qcow2`);
+  rollback.track(seedPath);
+  await rollback.undo(logger());
+  assertEquals(commands.slice(1), [`rm -f '${vmDir}/disk.qcow2' '${seedPath}'`]);
+
+  // Failing before anything was created leaves the host alone
+  const nothing = fakeSsh([{ stdout: "" }]);
+  const untouched = provisionRollback(nothing.ssh, { name: "k3s-1", vmDir });
+  await untouched.makeDir();
+  const log = logger();
+  await untouched.undo(log);
+  assertEquals([nothing.commands.length, log.lines], [1, []]);
+});
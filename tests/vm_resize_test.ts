@@ -0,0 +1,64 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { parseDomainSizing, resizePlan } from "../extensions/models/vm_resize.ts";
+
+// As provisioned: no headroom, maximum == current
+const PROVISIONED = `<domain type='kvm'>
+  <name>k3s-1</name>
+  <memory unit='KiB'>4194304</memory>
+  <currentMemory unit='KiB'>4194304</currentMemory>
+  <vcpu placement='static'>2</vcpu>
+</domain>`;
+
+const sizing = (maxCpus: number, cpus: number, maxMemoryMiB: number, memoryMiB: number) => ({ maxCpus, cpus, maxMemoryMiB, memoryMiB });
+
+Deno.test("parseDomainSizing reads vCPU and memory, current and maximum", () => {
+  assertEquals(parseDomainSizing(PROVISIONED), sizing(2, 2, 4096, 4096));
+  const headroom = `<vcpu placement='static' current='2'>8</vcpu><memory unit='GiB'>16</memory><currentMemory unit='MiB'>8192</currentMemory>`;
+  assertEquals(parseDomainSizing(headroom), sizing(8, 2, 16384, 8192));
+  assertEquals(parseDomainSizing(`<vcpu>1</vcpu><memory>1048576</memory>`), sizing(1, 1, 1024, 1024));
+  assertThrows(() => parseDomainSizing("<domain/>"), Error, "no <vcpu>");
+});
+
+Deno.test("resizePlan raises maximums before current values when growing", () => {
+  const plan = resizePlan("k3s-1", { config: sizing(2, 2, 4096, 4096) }, { cpus: 4, memoryMiB: 8192 });
+  assertEquals(plan, {
+    config: [
+      "virsh setvcpus 'k3s-1' 4 --config --maximum",
+      "virsh setvcpus 'k3s-1' 4 --config",
+      "virsh setmaxmem 'k3s-1' 8192M --config",
+      "virsh setmem 'k3s-1' 8192M --config",
+    ],
+    live: [],
+    restartNeeded: false,
+  });
+});
+
+Deno.test("resizePlan lowers current values before maximums when shrinking", () => {
+  const plan = resizePlan("k3s-1", { config: sizing(4, 4, 8192, 8192) }, { cpus: 2, memoryMiB: 4096 });
+  assertEquals(plan.config, [
+    "virsh setvcpus 'k3s-1' 2 --config",
+    "virsh setvcpus 'k3s-1' 2 --config --maximum",
+    "virsh setmem 'k3s-1' 4096M --config",
+    "virsh setmaxmem 'k3s-1' 4096M --config",
+  ]);
+});
+
+Deno.test("resizePlan changes a running domain live only within its maximums", () => {
+  const current = sizing(4, 4, 8192, 8192);
+  const shrink = resizePlan("k3s-1", { config: current, running: current }, { cpus: 2, memoryMiB: 4096 });
+  assertEquals(shrink.live, ["virsh setvcpus 'k3s-1' 2 --live", "virsh setmem 'k3s-1' 4096M --live"]);
+  assertEquals(shrink.restartNeeded, false);
+
+  const grow = resizePlan("k3s-1", { config: current, running: current }, { memoryMiB: 16384 });
+  assertEquals(grow.live, []);
+  assertEquals(grow.restartNeeded, true);
+});
+
+Deno.test("resizePlan is empty when nothing changes", () => {
+  const current = sizing(2, 2, 4096, 4096);
+  assertEquals(resizePlan("k3s-1", { config: current, running: current }, { cpus: 2, memoryMiB: 4096 }), {
+    config: [],
+    live: [],
+    restartNeeded: false,
+  });
+});
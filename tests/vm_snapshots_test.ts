@@ -0,0 +1,123 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import {
+  listSnapshots,
+  parseDomainDisks,
+  parseSnapshotXml,
+  SnapshotNameSchema,
+  snapshotCreateCommand,
+} from "../extensions/models/vm_snapshots.ts";
+
+// Devices as the provision models define them: qcow2 root disk, seed ISO on a read-only cdrom
+// (or a raw FAT seed on vdb), and a 9p filesystem that has no <disk> element at all
+const DOMAIN_XML = `<domain type='kvm'>
+  <name>rancher</name>
+  <description>not the snapshot</description>
+  <devices>
+    <disk type='file' device='disk'>
+      <driver name='qemu' type='qcow2' cache='writeback'/>
+      <source file='/mnt/user/domains/rancher/disk.qcow2'/>
+      <target dev='vda' bus='virtio'/>
+    </disk>
+    <disk type='file' device='cdrom'>
+      <driver name='qemu' type='raw'/>
+      <source file='/mnt/user/domains/rancher/seed.iso'/>
+      <target dev='sda' bus='sata'/>
+      <readonly/>
+    </disk>
+    <disk type='file' device='disk'>
+      <driver name='qemu' type='raw'/>
+      <source file='/mnt/user/domains/rancher/seed.img'/>
+      <target dev='vdb' bus='virtio'/>
+    </disk>
+    <filesystem type='mount' accessmode='passthrough'>
+      <source dir='/mnt/user/home/rob'/>
+      <target dir='shares'/>
+    </filesystem>
+  </devices>
+</domain>`;
+
+Deno.test("parseDomainDisks reads format, source, target and readonly for each disk", () => {
+  assertEquals(parseDomainDisks(DOMAIN_XML), [
+    { device: "disk", format: "qcow2", source: "/mnt/user/domains/rancher/disk.qcow2", target: "vda", serial: undefined, readonly: false },
+    { device: "cdrom", format: "raw", source: "/mnt/user/domains/rancher/seed.iso", target: "sda", serial: undefined, readonly: true },
+    { device: "disk", format: "raw", source: "/mnt/user/domains/rancher/seed.img", target: "vdb", serial: undefined, readonly: false },
+  ]);
+});
+
+Deno.test("snapshotCreateCommand snapshots qcow2 disks internally and leaves seeds out", () => {
+  const cmd = snapshotCreateCommand("rancher", parseDomainDisks(DOMAIN_XML), {
+    snapshot: "pre-upgrade",
+    description: "before rancher's helm upgrade",
+  });
+  assertEquals(
+    cmd,
+    "virsh snapshot-create-as 'rancher' 'pre-upgrade' --description 'before rancher'\\''s helm upgrade' --atomic " +
+      "--diskspec vda,snapshot=internal --diskspec sda,snapshot=no --diskspec vdb,snapshot=no",
+  );
+});
+
+Deno.test("snapshotCreateCommand puts external overlays beside the disk they cover", () => {
+  const cmd = snapshotCreateCommand("rancher", parseDomainDisks(DOMAIN_XML), { snapshot: "s1", external: true, quiesce: true });
+  assertEquals(
+    cmd,
+    "virsh snapshot-create-as 'rancher' 's1' --atomic --disk-only --quiesce " +
+      "--diskspec vda,snapshot=external,file=/mnt/user/domains/rancher/vda-s1.qcow2 --diskspec sda,snapshot=no --diskspec vdb,snapshot=no",
+  );
+  assertThrows(() => snapshotCreateCommand("rancher", [], { snapshot: "s1", quiesce: true }), Error, "external");
+});
+
+Deno.test("SnapshotNameSchema keeps names safe for shell and file names", () => {
+  assertEquals(SnapshotNameSchema.safeParse("pre-helm-upgrade.2026_10").success, true);
+  for (const bad of ["", "-x", "a b", "a/b", "it's"]) assertEquals(SnapshotNameSchema.safeParse(bad).success, false, bad);
+});
+
+const snapshotXml = (name: string, parent: string | null, extra = "") => `<domainsnapshot>
+  <name>${name}</name>
+  <description>Before &quot;helm upgrade&quot; &amp; co</description>
+  <state>running</state>
+  ${parent ? `<parent>\n    <name>${parent}</name>\n  </parent>` : ""}
+  <creationTime>1760000000</creationTime>
+  <memory snapshot='internal'/>
+  <disks>
+    <disk name='vda' snapshot='internal'/>
+    <disk name='sda' snapshot='no'/>
+  </disks>
+  ${extra}
+  ${DOMAIN_XML}
+</domainsnapshot>`;
+
+Deno.test("parseSnapshotXml ignores the embedded domain's name and description", () => {
+  assertEquals(parseSnapshotXml(snapshotXml("s2", "s1")), {
+    name: "s2",
+    description: 'Before "helm upgrade" & co',
+    parent: "s1",
+    createdAt: "2025-10-09T08:53:20.000Z",
+    state: "running",
+    location: "internal",
+  });
+  assertEquals(parseSnapshotXml(snapshotXml("s1", null)).parent, undefined);
+});
+
+Deno.test("parseSnapshotXml reports external snapshots", () => {
+  const xml = snapshotXml("s3", null).replace("<memory snapshot='internal'/>", "<memory snapshot='no'/>")
+    .replace("<disk name='vda' snapshot='internal'/>", "<disk name='vda' snapshot='external' type='file'>\n<source file='/d/vda-s3.qcow2'/></disk>")
+    .replace("<state>running</state>", "<state>disk-snapshot</state>");
+  const snap = parseSnapshotXml(xml);
+  assertEquals(snap.location, "external");
+  assertEquals(snap.state, "disk-snapshot");
+});
+
+Deno.test("listSnapshots reads each snapshot and marks the current one", async () => {
+  const ssh = (command: string) => {
+    const reply = (stdout: string) => Promise.resolve({ stdout, stderr: "", code: 0 });
+    if (command.startsWith("virsh snapshot-list")) return reply("s1\ns2\n");
+    if (command.startsWith("virsh snapshot-current")) return reply("s2");
+    const name = command.match(/'(s\d)'$/)![1];
+    return reply(snapshotXml(name, name === "s2" ? "s1" : null));
+  };
+  const snaps = await listSnapshots(ssh, "rancher");
+  assertEquals(snaps.map((s) => [s.vm, s.name, s.parent, s.current]), [
+    ["rancher", "s1", undefined, false],
+    ["rancher", "s2", "s1", true],
+  ]);
+});
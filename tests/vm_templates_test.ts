@@ -0,0 +1,73 @@
+import { assert, assertEquals, assertStringIncludes, assertThrows } from "jsr:@std/assert";
+import {
+  cloneDiskSizeGb,
+  customizeScript,
+  sealScript,
+  templatePaths,
+  TemplateNameSchema,
+} from "../extensions/models/vm_templates.ts";
+
+const GiB = 1024 ** 3;
+
+Deno.test("templatePaths keeps templates in a hidden directory beside the VMs", () => {
+  assertEquals(templatePaths("/mnt/user/domains", "k3s-node"), {
+    dir: "/mnt/user/domains/.templates",
+    disk: "/mnt/user/domains/.templates/k3s-node.qcow2",
+    meta: "/mnt/user/domains/.templates/k3s-node.json",
+  });
+});
+
+Deno.test("TemplateNameSchema rejects names that would escape the template directory", () => {
+  assert(TemplateNameSchema.safeParse("ubuntu-24.04_k3s").success);
+  for (const bad of ["../etc", ".hidden", "a/b", "a b", "it's", ""]) {
+    assert(!TemplateNameSchema.safeParse(bad).success, bad);
+  }
+});
+
+Deno.test("sealScript resets cloud-init, machine-id and host keys", () => {
+  const script = sealScript();
+  assert(script.startsWith("set -e\n"));
+  assertStringIncludes(script, "cloud-init clean --logs --seed");
+  assertStringIncludes(script, "truncate -s 0 /etc/machine-id");
+  assertStringIncludes(script, "rm -f /etc/ssh/ssh_host_*");
+  assert(!script.includes("userdel"));
+  // Waiting for cloud-init must come before its state is wiped
+  assert(script.indexOf("cloud-init status --wait") < script.indexOf("cloud-init clean"));
+});
+
+Deno.test("sealScript removes requested users and the cloud-init sudoers entry", () => {
+  const script = sealScript({ removeUsers: ["rob", "ops"] });
+  assertStringIncludes(script, "userdel -r 'rob'");
+  assertStringIncludes(script, "userdel -r 'ops'");
+  assertEquals(script.split("90-cloud-init-users").length, 2);
+});
+
+Deno.test("customizeScript installs packages with whichever package manager exists", () => {
+  const script = customizeScript({ packages: ["htop", "jq"] });
+  assertStringIncludes(script, "apt-get install -y -q 'htop' 'jq'");
+  assertStringIncludes(script, "dnf install -y 'htop' 'jq'");
+  assertStringIncludes(script, "zypper --non-interactive install 'htop' 'jq'");
+});
+
+Deno.test("customizeScript k3s prerequisites map package names per distro family", () => {
+  const script = customizeScript({ k3sPrerequisites: true });
+  assertStringIncludes(script, "apt-get install -y -q 'curl' 'nfs-common' 'open-iscsi'");
+  assertStringIncludes(script, "dnf install -y 'curl' 'nfs-utils' 'iscsi-initiator-utils'");
+  assertStringIncludes(script, "modprobe overlay && modprobe br_netfilter");
+  assertStringIncludes(script, "net.ipv4.ip_forward = 1");
+  assertStringIncludes(script, "swapoff -a");
+});
+
+Deno.test("customizeScript quotes package names and runs commands last, in order", () => {
+  const script = customizeScript({ packages: ["it's"], commands: ["echo one", "echo two"] });
+  assertStringIncludes(script, `'it'\\''s'`);
+  assert(script.endsWith("echo one\necho two\n"));
+  assertEquals(customizeScript(), "set -e\n");
+});
+
+Deno.test("cloneDiskSizeGb defaults to the template size and refuses to shrink it", () => {
+  assertEquals(cloneDiskSizeGb(10 * GiB, undefined), 10);
+  assertEquals(cloneDiskSizeGb(3.5 * GiB, undefined), 4);
+  assertEquals(cloneDiskSizeGb(10 * GiB, 40), 40);
+  assertThrows(() => cloneDiskSizeGb(10 * GiB, 8), Error, "smaller than the template disk");
+});